@@ -0,0 +1,114 @@
+import {
+  buildBibliography,
+  inferDocumentType,
+  inferOrganization,
+  renderBibtex,
+  renderCslJson,
+} from '../utils/bibliography';
+import type { ReportSource } from '../utils/researchReport';
+
+describe('bibliography', () => {
+  const source = (overrides: Partial<ReportSource> = {}): ReportSource => ({
+    id: 1,
+    title: 'Decision approving PG&E rate case, Docket No. A.21-06-021',
+    url: 'https://www.cpuc.ca.gov/decisions/d2401005',
+    access_status: 'verified',
+    status_code: 200,
+    checked_at: '2026-10-01T11:59:00.000Z',
+    authority_tier: 'state_puc',
+    trust_score: 95,
+    ...overrides,
+  });
+
+  describe('inferOrganization', () => {
+    it('should name known regulators and fall back to the host', () => {
+      expect(inferOrganization('https://www.cpuc.ca.gov/news/release')).toBe('California Public Utilities Commission');
+      expect(inferOrganization('https://www.example-utility.com/rates')).toBe('example-utility.com');
+      expect(inferOrganization('not a url')).toBeNull();
+    });
+  });
+
+  describe('inferDocumentType', () => {
+    it('should classify sources by site, title and path', () => {
+      expect(inferDocumentType('Utilities raise rates', 'https://apnews.com/article/rates')).toBe('news_article');
+      expect(inferDocumentType('Commission approves order on rates', 'https://www.cpuc.ca.gov/press-releases/2026')).toBe('press_release');
+      expect(inferDocumentType('Final decision on rate case', 'https://www.cpuc.ca.gov/d2401005')).toBe('order');
+      expect(inferDocumentType('Notice of proposed rulemaking', 'https://www.ferc.gov/notice')).toBe('rulemaking');
+      expect(inferDocumentType('Residential rate schedules', 'https://www.pge.com/rates')).toBe('tariff');
+      expect(inferDocumentType('Filings in proceeding 24-0101', 'https://www.puc.texas.gov/search')).toBe('docket');
+      expect(inferDocumentType('Summer reliability assessment', 'https://www.ercot.com/files')).toBe('report');
+      expect(inferDocumentType('About us', 'https://www.ercot.com/about')).toBe('webpage');
+    });
+  });
+
+  describe('buildBibliography', () => {
+    it('should keep one entry per URL with the latest check, and skip sources without a URL', () => {
+      const entries = buildBibliography([
+        source({ checked_at: '2026-09-01T00:00:00.000Z', access_status: 'failed', status_code: 500 }),
+        source({ id: 2, url: 'https://cpuc.ca.gov/decisions/d2401005/' }),
+        source({ id: 3, url: null, title: 'Unknown source' }),
+      ]);
+
+      expect(entries).toEqual([{
+        key: 'cpuc2026',
+        title: 'Decision approving PG&E rate case, Docket No. A.21-06-021',
+        url: 'https://cpuc.ca.gov/decisions/d2401005/',
+        accessed: '2026-10-01',
+        organization: 'California Public Utilities Commission',
+        document_type: 'order',
+        docket_number: 'A.21-06-021',
+        access_status: 'verified',
+      }]);
+    });
+
+    it('should give sources from the same site and year distinct keys', () => {
+      const entries = buildBibliography([
+        source(),
+        source({ id: 2, url: 'https://www.cpuc.ca.gov/news/release', title: 'Press release' }),
+        source({ id: 3, url: 'https://www.ercot.com/about', title: 'About', checked_at: null, access_status: 'not_checked' }),
+      ]);
+
+      expect(entries.map(entry => entry.key)).toEqual(['cpuc2026', 'cpuc2026b', 'ercot']);
+    });
+  });
+
+  describe('renderCslJson', () => {
+    it('should write CSL-JSON items with the access date and issuing body', () => {
+      const [item] = JSON.parse(renderCslJson(buildBibliography([source()])));
+
+      expect(item).toEqual({
+        id: 'cpuc2026',
+        type: 'legal_case',
+        title: 'Decision approving PG&E rate case, Docket No. A.21-06-021',
+        URL: 'https://www.cpuc.ca.gov/decisions/d2401005',
+        genre: 'Order',
+        publisher: 'California Public Utilities Commission',
+        authority: 'California Public Utilities Commission',
+        number: 'A.21-06-021',
+        accessed: { 'date-parts': [[2026, 10, 1]] },
+      });
+    });
+
+    it('should note sources that were inaccessible', () => {
+      const [item] = JSON.parse(renderCslJson(buildBibliography([source({ access_status: 'failed', status_code: 404 })])));
+
+      expect(item.note).toBe('URL was inaccessible when checked on 2026-10-01');
+    });
+  });
+
+  describe('renderBibtex', () => {
+    it('should write escaped BibTeX entries with verbatim URLs', () => {
+      const bibtex = renderBibtex(buildBibliography([
+        source({ url: 'https://www.cpuc.ca.gov/decisions/d2401005?id=1_2' }),
+        source({ id: 2, title: 'Summer reliability report: 50% reserve margin', url: 'https://www.ercot.com/files/report.pdf' }),
+      ]));
+
+      expect(bibtex).toContain('@misc{cpuc2026,\n  title = {{Decision approving PG\\&E rate case, Docket No. A.21-06-021}},');
+      expect(bibtex).toContain('  organization = {California Public Utilities Commission},\n  type = {Order},\n  number = {A.21-06-021},');
+      expect(bibtex).toContain('  url = {https://www.cpuc.ca.gov/decisions/d2401005?id=1_2},');
+      expect(bibtex).toContain('  howpublished = {\\url{https://www.cpuc.ca.gov/decisions/d2401005?id=1_2}},');
+      expect(bibtex).toContain('  urldate = {2026-10-01},\n  note = {Accessed 2026-10-01}\n}');
+      expect(bibtex).toContain('@techreport{ercot2026,\n  title = {{Summer reliability report: 50\\% reserve margin}},\n  institution = {Electric Reliability Council of Texas},');
+    });
+  });
+});
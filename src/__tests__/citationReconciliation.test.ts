@@ -0,0 +1,88 @@
+import { reconcileCitations } from '../utils/citationReconciliation';
+
+describe('reconcileCitations', () => {
+  const citation = (id: number, url: string) => ({ id, title: `Source ${id}`, url, relevance_score: 8 });
+  const development = (number: number, description: string, citations: number[]) => ({
+    number,
+    title: `Development ${number}`,
+    description,
+    citations,
+  });
+
+  it('should renumber citations in order of first use and keep markers pointing at them', () => {
+    const result = reconcileCitations(
+      'Rates rose [3]. The plan was approved [1, 3].',
+      [development(1, 'The ICC approved the plan [1].', [1])],
+      [citation(1, 'https://www.icc.illinois.gov'), citation(3, 'https://www.comed.com')]
+    );
+
+    expect(result.research_results).toBe('Rates rose [1]. The plan was approved [1, 2].');
+    expect(result.key_developments[0]).toMatchObject({ description: 'The ICC approved the plan [2].', citations: [2] });
+    expect(result.citations.map(({ id, url }) => [id, url])).toEqual([
+      [1, 'https://www.comed.com'],
+      [2, 'https://www.icc.illinois.gov'],
+    ]);
+    expect(result.repairs).toEqual([
+      { type: 'renumbered', citation_id: 3, new_id: 1 },
+      { type: 'renumbered', citation_id: 1, new_id: 2 },
+    ]);
+  });
+
+  it('should map raw search markers to citations by position', () => {
+    const result = reconcileCitations(
+      'Rates rose.citeturn0search4 Again.citeturn1search0turn0search4',
+      [],
+      [citation(1, 'https://www.icc.illinois.gov'), citation(2, 'https://www.ferc.gov')]
+    );
+
+    expect(result.research_results).toBe('Rates rose.[1] Again.[1, 2]');
+    expect(result.repairs).toEqual([
+      { type: 'search_marker_mapped', citation_id: 1, marker: 'turn0search4' },
+      { type: 'search_marker_mapped', citation_id: 2, marker: 'turn1search0' },
+    ]);
+  });
+
+  it('should drop orphan markers and unused citations and merge duplicates', () => {
+    const result = reconcileCitations(
+      'Rates rose [1] and bills followed [7].',
+      [development(1, 'See the filing [4].', [1, 9])],
+      [
+        citation(1, 'https://www.icc.illinois.gov/rates'),
+        citation(2, 'https://www.ferc.gov'),
+        citation(4, 'https://icc.illinois.gov/rates/'),
+      ]
+    );
+
+    expect(result.research_results).toBe('Rates rose [1] and bills followed.');
+    expect(result.key_developments[0]).toMatchObject({ description: 'See the filing [1].', citations: [1] });
+    expect(result.citations.map(({ id }) => id)).toEqual([1]);
+    expect(result.repairs).toEqual(expect.arrayContaining([
+      { type: 'duplicate_citation', citation_id: 4, merged_into: 1 },
+      { type: 'orphan_marker', citation_id: 7, marker: '[7]' },
+      { type: 'development_citation_dropped', citation_id: 9, development: 1 },
+      { type: 'unused_citation', citation_id: 2 },
+    ]));
+  });
+
+  it('should add inline citations missing from a development list', () => {
+    const result = reconcileCitations(
+      'Summary [1].',
+      [development(1, 'Approved [2].', [1])],
+      [citation(1, 'https://www.icc.illinois.gov'), citation(2, 'https://www.comed.com')]
+    );
+
+    expect(result.key_developments[0].citations).toEqual([1, 2]);
+    expect(result.repairs).toEqual([{ type: 'development_citation_added', citation_id: 2, development: 1 }]);
+  });
+
+  it('should keep every citation when nothing refers to them', () => {
+    const result = reconcileCitations(
+      'No markers here.',
+      [development(1, 'Nothing cited.', [])],
+      [citation(2, 'https://www.icc.illinois.gov'), citation(5, 'https://www.ferc.gov')]
+    );
+
+    expect(result.citations.map(({ id }) => id)).toEqual([1, 2]);
+    expect(result.repairs.map(repair => repair.type)).toEqual(['renumbered', 'renumbered']);
+  });
+});
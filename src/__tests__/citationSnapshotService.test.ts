@@ -0,0 +1,155 @@
+import { CitationSnapshotService } from '../services/citationSnapshotService';
+import { CitationSnapshotDao, MessageDao } from '../dao';
+import { extractPageText, CitationValidationResult } from '../utils/researchHelper';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+const mockedCitationSnapshotDao = CitationSnapshotDao as jest.Mocked<typeof CitationSnapshotDao>;
+const mockedMessageDao = MessageDao as jest.Mocked<typeof MessageDao>;
+
+describe('CitationSnapshotService', () => {
+  const fetchedAt = new Date('2025-01-01T00:00:00Z');
+
+  const storedSnapshot = (overrides = {}) => ({
+    id: 'snap-1',
+    messageId: 'msg_bot',
+    researchMessageId: 'msg_user',
+    citationId: 1,
+    url: 'http://icc.illinois.gov/rates',
+    finalUrl: 'https://www.icc.illinois.gov/rates',
+    statusCode: 200,
+    headers: { 'content-type': 'text/html' },
+    contentType: 'text/html',
+    contentText: 'The Commission approved the rate plan.',
+    contentHash: 'a'.repeat(64),
+    contentLength: 2048,
+    fetchedAt,
+    createdAt: fetchedAt,
+    updatedAt: fetchedAt,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedCitationSnapshotDao.createMany.mockImplementation(async snapshots => snapshots.length);
+  });
+
+  describe('saveSnapshots', () => {
+    it('should store a snapshot for each citation whose URL responded', async () => {
+      const validationResults: CitationValidationResult[] = [
+        {
+          id: 1,
+          url: 'http://icc.illinois.gov/rates',
+          isValid: true,
+          isAccessible: true,
+          hasContent: true,
+          statusCode: 200,
+          snapshot: {
+            finalUrl: 'https://www.icc.illinois.gov/rates',
+            statusCode: 200,
+            headers: { 'content-type': 'text/html' },
+            contentType: 'text/html',
+            text: 'The Commission approved the rate plan.',
+            contentHash: 'a'.repeat(64),
+            contentLength: 2048,
+            fetchedAt,
+          },
+        },
+        { id: 2, url: 'https://unreachable.example', isValid: true, isAccessible: false, hasContent: false, error: 'Request timeout' },
+      ];
+
+      await expect(CitationSnapshotService.saveSnapshots('msg_bot', 'msg_user', validationResults)).resolves.toBe(1);
+      // A retried research replaces what its earlier attempt stored
+      expect(mockedCitationSnapshotDao.deleteByMessageId).toHaveBeenCalledWith('msg_bot');
+      expect(mockedCitationSnapshotDao.createMany).toHaveBeenCalledWith([{
+        messageId: 'msg_bot',
+        researchMessageId: 'msg_user',
+        citationId: 1,
+        url: 'http://icc.illinois.gov/rates',
+        finalUrl: 'https://www.icc.illinois.gov/rates',
+        statusCode: 200,
+        headers: { 'content-type': 'text/html' },
+        contentType: 'text/html',
+        contentText: 'The Commission approved the rate plan.',
+        contentHash: 'a'.repeat(64),
+        contentLength: 2048,
+        fetchedAt,
+      }]);
+    });
+  });
+
+  describe('copySnapshots', () => {
+    it('should link one snapshot per citation to the new message', async () => {
+      mockedCitationSnapshotDao.findByResearchMessageId.mockResolvedValue([
+        storedSnapshot(),
+        storedSnapshot({ id: 'snap-2', citationId: 2, url: 'https://www.ferc.gov' }),
+        storedSnapshot({ id: 'snap-3', messageId: 'msg_earlier_copy' }),
+      ]);
+
+      await expect(CitationSnapshotService.copySnapshots('msg_user', 'msg_cached')).resolves.toBe(2);
+      const copies = mockedCitationSnapshotDao.createMany.mock.calls[0][0];
+      expect(copies.map(copy => [copy.messageId, copy.citationId])).toEqual([['msg_cached', 1], ['msg_cached', 2]]);
+      expect(copies[0]).not.toHaveProperty('id');
+      expect(copies[0].contentHash).toBe('a'.repeat(64));
+    });
+  });
+
+  describe('getSnapshot', () => {
+    beforeEach(() => {
+      mockedMessageDao.findByMessageId.mockResolvedValue({ messageId: 'msg_bot', type: 'bot', userId: 'user-123' } as any);
+    });
+
+    it('should return the snapshot in API form', async () => {
+      mockedCitationSnapshotDao.findByMessageAndCitation.mockResolvedValue(storedSnapshot());
+
+      const snapshot = await CitationSnapshotService.getSnapshot('msg_bot', 1, 'user-123');
+
+      expect(mockedCitationSnapshotDao.findByMessageAndCitation).toHaveBeenCalledWith('msg_bot', 1);
+      expect(snapshot).toEqual({
+        message_id: 'msg_bot',
+        citation_id: 1,
+        url: 'http://icc.illinois.gov/rates',
+        final_url: 'https://www.icc.illinois.gov/rates',
+        status_code: 200,
+        headers: { 'content-type': 'text/html' },
+        content_type: 'text/html',
+        content_text: 'The Commission approved the rate plan.',
+        content_hash: 'a'.repeat(64),
+        content_length: 2048,
+        fetched_at: '2025-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should return null when no snapshot was kept', async () => {
+      mockedCitationSnapshotDao.findByMessageAndCitation.mockResolvedValue(null);
+
+      await expect(CitationSnapshotService.getSnapshot('msg_bot', 9, 'user-123')).resolves.toBeNull();
+    });
+
+    it('should not return snapshots of another user\'s answer', async () => {
+      mockedCitationSnapshotDao.findByMessageAndCitation.mockResolvedValue(storedSnapshot());
+
+      await expect(CitationSnapshotService.getSnapshot('msg_bot', 1, 'user-456')).resolves.toBeNull();
+      await expect(CitationSnapshotService.getSnapshot('msg_bot', 1)).resolves.toBeNull();
+      expect(mockedCitationSnapshotDao.findByMessageAndCitation).not.toHaveBeenCalled();
+    });
+
+    it('should return snapshots of an anonymous answer without a user', async () => {
+      mockedMessageDao.findByMessageId.mockResolvedValue({ messageId: 'msg_bot', type: 'bot', userId: null } as any);
+      mockedCitationSnapshotDao.findByMessageAndCitation.mockResolvedValue(storedSnapshot());
+
+      await expect(CitationSnapshotService.getSnapshot('msg_bot', 1)).resolves.toMatchObject({ citation_id: 1 });
+    });
+  });
+
+  describe('extractPageText', () => {
+    it('should drop scripts, styles and markup', () => {
+      const html = '<html><head><style>p { color: red; }</style><script>track();</script></head>'
+        + '<body><h1>Rate Case</h1><p>Approved &amp; final.</p></body></html>';
+
+      expect(extractPageText(html)).toBe('Rate Case Approved & final.');
+    });
+  });
+});
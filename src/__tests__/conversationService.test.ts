@@ -0,0 +1,108 @@
+import { ConversationService } from '../services/conversationService';
+import { ConversationDao, MessageDao } from '../dao';
+import { logger } from '../utils/logger';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+const mockedConversationDao = ConversationDao as jest.Mocked<typeof ConversationDao>;
+const mockedMessageDao = MessageDao as jest.Mocked<typeof MessageDao>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('ConversationService', () => {
+  const mockConversation = {
+    id: 'conv-123',
+    userId: 'user-123',
+    title: 'Electricity rates in Illinois',
+    lastMessageAt: null,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createConversation', () => {
+    it('should create a conversation with a default title', async () => {
+      mockedConversationDao.create.mockResolvedValue(mockConversation);
+
+      const result = await ConversationService.createConversation('user-123');
+
+      expect(mockedConversationDao.create).toHaveBeenCalledWith({
+        userId: 'user-123',
+        title: 'New conversation',
+      });
+      expect(result).toEqual(mockConversation);
+    });
+
+    it('should handle errors and return null', async () => {
+      const error = new Error('Database error');
+      mockedConversationDao.create.mockRejectedValue(error);
+
+      const result = await ConversationService.createConversation('user-123', 'Rates');
+
+      expect(mockedLogger.error).toHaveBeenCalledWith('Service error creating conversation:', error);
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('renameConversation', () => {
+    it('should not rename a conversation owned by another user', async () => {
+      mockedConversationDao.findByIdForUser.mockResolvedValue(null);
+
+      const result = await ConversationService.renameConversation('conv-123', 'user-456', 'Mine now');
+
+      expect(mockedConversationDao.update).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should update the title of an owned conversation', async () => {
+      const renamed = { ...mockConversation, title: 'Solar incentives' };
+      mockedConversationDao.findByIdForUser.mockResolvedValue(mockConversation);
+      mockedConversationDao.update.mockResolvedValue(renamed);
+
+      const result = await ConversationService.renameConversation('conv-123', 'user-123', '  Solar incentives ');
+
+      expect(mockedConversationDao.update).toHaveBeenCalledWith('conv-123', { title: 'Solar incentives' });
+      expect(result).toEqual(renamed);
+    });
+  });
+
+  describe('deleteConversation', () => {
+    it('should delete the conversation and its messages', async () => {
+      mockedConversationDao.findByIdForUser.mockResolvedValue(mockConversation);
+      mockedMessageDao.deleteByConversationId.mockResolvedValue(4);
+      mockedConversationDao.deleteById.mockResolvedValue(true);
+
+      const result = await ConversationService.deleteConversation('conv-123', 'user-123');
+
+      expect(mockedMessageDao.deleteByConversationId).toHaveBeenCalledWith('conv-123');
+      expect(mockedConversationDao.deleteById).toHaveBeenCalledWith('conv-123');
+      expect(result).toBe(true);
+    });
+
+    it('should return false when the conversation is not found', async () => {
+      mockedConversationDao.findByIdForUser.mockResolvedValue(null);
+
+      const result = await ConversationService.deleteConversation('conv-123', 'user-123');
+
+      expect(mockedMessageDao.deleteByConversationId).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('deriveTitle', () => {
+    it('should collapse whitespace in short messages', () => {
+      expect(ConversationService.deriveTitle('  Why did my\n bill go up? ')).toBe('Why did my bill go up?');
+    });
+
+    it('should truncate long messages', () => {
+      const title = ConversationService.deriveTitle('a'.repeat(100));
+
+      expect(title).toHaveLength(60);
+      expect(title.endsWith('…')).toBe(true);
+    });
+  });
+});
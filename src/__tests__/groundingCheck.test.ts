@@ -0,0 +1,71 @@
+import { checkGrounding, extractFacts, getWeaklyGroundedDevelopments } from '../utils/groundingCheck';
+
+describe('groundingCheck', () => {
+  const iccPage = [
+    'The Illinois Commerce Commission met on Thursday to consider several items.',
+    'In Docket No. 23-0055 the Commission approved a delivery rate increase of 8.5% for ComEd customers, effective January 1, 2025.',
+    'The average residential bill will rise by $4.35 per month under the approved plan.',
+    'Commissioners also discussed grid modernization spending and customer assistance programs for low-income households.',
+  ].join(' ');
+
+  const development = (overrides = {}) => ({
+    number: 1,
+    title: 'ICC approves ComEd rate increase',
+    description: 'Regulators approved an 8.5 percent delivery rate increase in docket 23-0055, effective Jan. 2025, adding about $4.35 to monthly bills.',
+    citations: [1],
+    ...overrides,
+  });
+
+  describe('extractFacts', () => {
+    it('should key figures, dates and docket IDs so different spellings match', () => {
+      const claim = extractFacts('Approved in Docket No. 23-0055 on Jan. 15, 2025: an 8.5 percent increase of $1,200.');
+      const source = extractFacts('Docket 23-0055 (2025-01-15) approved 8.5% and $1200.');
+
+      expect(claim.map(fact => fact.key)).toEqual(['docket:23-0055', 'date:2025-1', 'number:8.5%', 'number:$1200']);
+      expect(source.map(fact => fact.key)).toEqual(claim.map(fact => fact.key));
+    });
+
+    it('should ignore bare single digits', () => {
+      expect(extractFacts('Phase 2 of the plan has 3 parts')).toEqual([]);
+    });
+  });
+
+  describe('checkGrounding', () => {
+    it('should score a development its cited page supports, with evidence', () => {
+      const [checked] = checkGrounding([development()], new Map([[1, iccPage]]));
+
+      expect(checked.grounding).toMatchObject({ weakly_grounded: false, unmatched_facts: [], sources_checked: 1 });
+      expect(checked.grounding!.score).toBeGreaterThan(0.8);
+      expect(checked.grounding!.evidence[0]).toMatchObject({ citation_id: 1 });
+      expect(checked.grounding!.evidence[0].excerpt).toContain('Docket No. 23-0055');
+      expect(checked.grounding!.evidence[0].matched).toEqual(expect.arrayContaining(['8.5 percent', 'approves']));
+    });
+
+    it('should flag figures the cited page does not contain', () => {
+      const [checked] = checkGrounding(
+        [development({ description: 'Rates rise 14% in docket 24-0101, adding $12.80 to monthly bills.' })],
+        new Map([[1, iccPage]])
+      );
+
+      expect(checked.grounding!.weakly_grounded).toBe(true);
+      expect(checked.grounding!.unmatched_facts).toEqual(['docket 24-0101', '14%', '$12.80']);
+    });
+
+    it('should treat a development with no fetched source text as weakly grounded', () => {
+      const [checked] = checkGrounding([development({ citations: [2] })], new Map([[1, iccPage]]));
+
+      expect(checked.grounding).toMatchObject({ score: 0, weakly_grounded: true, evidence: [], sources_checked: 0 });
+    });
+  });
+
+  describe('getWeaklyGroundedDevelopments', () => {
+    it('should list the numbers of weakly grounded developments', () => {
+      const checked = checkGrounding(
+        [development(), development({ number: 2, citations: [3] })],
+        new Map([[1, iccPage]])
+      );
+
+      expect(getWeaklyGroundedDevelopments(checked)).toEqual([2]);
+    });
+  });
+});
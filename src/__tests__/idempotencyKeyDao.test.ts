@@ -0,0 +1,45 @@
+import { IdempotencyKeyDao } from '../dao/idempotencyKeyDao';
+import { db } from '../db/config';
+
+// The DAO is tested directly against a mocked query builder
+jest.mock('../utils/logger');
+
+const mockedDb = db as jest.Mocked<typeof db>;
+
+describe('IdempotencyKeyDao', () => {
+  const key = {
+    keyHash: 'a'.repeat(64),
+    idempotencyKey: 'key-1',
+    scope: 'user-123',
+    requestHash: 'b'.repeat(64),
+    expiresAt: new Date('2026-10-20T00:00:00Z'),
+  };
+
+  const mockInsert = (values: jest.Mock) => {
+    mockedDb.insert.mockReturnValue({ values } as any);
+  };
+
+  describe('reserve', () => {
+    it('should reserve a new key with a plain insert', async () => {
+      const values = jest.fn().mockResolvedValue([{ affectedRows: 1 }]);
+      mockInsert(values);
+
+      await expect(IdempotencyKeyDao.reserve(key)).resolves.toBe(true);
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({ keyHash: key.keyHash, status: 'processing' }));
+    });
+
+    it('should not reserve a key that a concurrent request already inserted', async () => {
+      const duplicate = Object.assign(new Error("Duplicate entry for key 'key_hash'"), { code: 'ER_DUP_ENTRY', errno: 1062 });
+      mockInsert(jest.fn().mockRejectedValue(duplicate));
+
+      await expect(IdempotencyKeyDao.reserve(key)).resolves.toBe(false);
+    });
+
+    it('should recognize a duplicate key wrapped by drizzle', async () => {
+      const wrapped = Object.assign(new Error('Failed query'), { cause: { code: 'ER_DUP_ENTRY' } });
+      mockInsert(jest.fn().mockRejectedValue(wrapped));
+
+      await expect(IdempotencyKeyDao.reserve(key)).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { IdempotencyService } from '../services/idempotencyService';
+import { IdempotencyKeyDao } from '../dao';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+const mockedIdempotencyKeyDao = IdempotencyKeyDao as jest.Mocked<typeof IdempotencyKeyDao>;
+
+describe('IdempotencyService', () => {
+  const body = { message: 'Are ComEd rates going up?', conversation_id: 'conv-123' };
+  const response = { success: true, message_id: 'msg_1', research_pending: true };
+
+  const storedKey = (overrides = {}) => ({
+    id: 'key-1',
+    keyHash: IdempotencyService.buildKeyHash('retry-1', 'user-123'),
+    idempotencyKey: 'retry-1',
+    scope: 'user-123',
+    requestHash: IdempotencyService.hashRequest(body),
+    status: 'completed',
+    messageId: 'msg_1',
+    response,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('hashRequest', () => {
+    it('should ignore key order', () => {
+      expect(IdempotencyService.hashRequest({ a: 1, b: { c: 2, d: 3 } }))
+        .toBe(IdempotencyService.hashRequest({ b: { d: 3, c: 2 }, a: 1 }));
+    });
+  });
+
+  describe('buildKeyHash', () => {
+    it('should scope keys to the caller', () => {
+      expect(IdempotencyService.buildKeyHash('retry-1', 'user-123'))
+        .not.toBe(IdempotencyService.buildKeyHash('retry-1', 'user-456'));
+    });
+  });
+
+  describe('begin', () => {
+    it('should reserve an unused key', async () => {
+      mockedIdempotencyKeyDao.findByKeyHash.mockResolvedValue(null);
+      mockedIdempotencyKeyDao.reserve.mockResolvedValue(true);
+
+      const check = await IdempotencyService.begin('retry-1', 'user-123', body);
+
+      expect(check).toEqual({ status: 'new', keyHash: IdempotencyService.buildKeyHash('retry-1', 'user-123') });
+      expect(mockedIdempotencyKeyDao.reserve).toHaveBeenCalledWith(expect.objectContaining({
+        idempotencyKey: 'retry-1',
+        scope: 'user-123',
+        requestHash: IdempotencyService.hashRequest(body),
+      }));
+    });
+
+    it('should replay the stored response for the same key and body', async () => {
+      mockedIdempotencyKeyDao.findByKeyHash.mockResolvedValue(storedKey());
+
+      const check = await IdempotencyService.begin('retry-1', 'user-123', { ...body });
+
+      expect(check).toEqual({ status: 'replay', response });
+      expect(mockedIdempotencyKeyDao.reserve).not.toHaveBeenCalled();
+    });
+
+    it('should reject the same key with a different body', async () => {
+      mockedIdempotencyKeyDao.findByKeyHash.mockResolvedValue(storedKey());
+
+      const check = await IdempotencyService.begin('retry-1', 'user-123', { ...body, message: 'Something else' });
+
+      expect(check).toEqual({ status: 'mismatch' });
+    });
+
+    it('should report a request that is still being processed', async () => {
+      mockedIdempotencyKeyDao.findByKeyHash
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(storedKey({ status: 'processing', messageId: null, response: null }));
+      mockedIdempotencyKeyDao.reserve.mockResolvedValue(false);
+
+      const check = await IdempotencyService.begin('retry-1', 'user-123', body);
+
+      expect(check).toEqual({ status: 'in_progress' });
+    });
+
+    it('should reuse an expired key', async () => {
+      mockedIdempotencyKeyDao.findByKeyHash.mockResolvedValue(storedKey({ expiresAt: new Date(Date.now() - 1000) }));
+      mockedIdempotencyKeyDao.reserve.mockResolvedValue(true);
+
+      const check = await IdempotencyService.begin('retry-1', 'user-123', { message: 'New question' });
+
+      expect(mockedIdempotencyKeyDao.deleteByKeyHash).toHaveBeenCalled();
+      expect(check.status).toBe('new');
+    });
+  });
+});
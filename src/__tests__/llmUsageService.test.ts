@@ -0,0 +1,254 @@
+import { LlmUsageService, QuotaExceededError } from '../services/llmUsageService';
+import { LlmUsageDao, UsageTotals } from '../dao';
+import { estimateCost, resetPrices } from '../llm/pricing';
+import { readResponseUsage, reportUsage, setUsageRecorder } from '../llm/usage';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+const mockedLlmUsageDao = LlmUsageDao as jest.Mocked<typeof LlmUsageDao>;
+
+const QUOTA_ENV = ['USAGE_DAILY_TOKEN_LIMIT', 'USAGE_MONTHLY_TOKEN_LIMIT', 'USAGE_DAILY_COST_LIMIT_USD', 'USAGE_MONTHLY_COST_LIMIT_USD'];
+
+describe('LLM usage', () => {
+  const now = new Date('2026-10-19T15:30:00Z');
+  const totals = (overrides: Partial<UsageTotals> = {}): UsageTotals => ({
+    calls: 2,
+    inputTokens: 1000,
+    cachedInputTokens: 0,
+    outputTokens: 500,
+    reasoningTokens: 100,
+    estimatedCostUsd: 0.25,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    QUOTA_ENV.forEach(name => delete process.env[name]);
+    delete process.env.LLM_PRICES;
+    resetPrices();
+  });
+
+  afterAll(() => {
+    QUOTA_ENV.forEach(name => delete process.env[name]);
+    resetPrices();
+  });
+
+  describe('estimateCost', () => {
+    it('should price a dated snapshot by its model family, with cached input at the cached rate', () => {
+      const cost = estimateCost('gpt-4o-2024-08-06', { inputTokens: 1_000_000, cachedInputTokens: 400_000, outputTokens: 100_000 });
+
+      expect(cost).toBeCloseTo(0.6 * 2.5 + 0.4 * 1.25 + 0.1 * 10);
+    });
+
+    it('should prefer the longest matching model name', () => {
+      expect(estimateCost('gpt-4o-mini-2024-07-18', { inputTokens: 1_000_000, cachedInputTokens: 0, outputTokens: 0 })).toBeCloseTo(0.15);
+    });
+
+    it('should use prices from LLM_PRICES and return null for unknown models', () => {
+      process.env.LLM_PRICES = JSON.stringify({ 'acme-large': { input: 1, cached_input: 0.5, output: 2 } });
+
+      expect(estimateCost('acme-large', { inputTokens: 1_000_000, cachedInputTokens: 0, outputTokens: 1_000_000 })).toBeCloseTo(3);
+      expect(estimateCost('unknown-model', { inputTokens: 10, cachedInputTokens: 0, outputTokens: 10 })).toBeNull();
+    });
+  });
+
+  describe('readResponseUsage', () => {
+    it('should read token counts from a Responses API usage block', () => {
+      const usage = readResponseUsage({
+        model: 'o4-mini-deep-research-2025-06-26',
+        usage: {
+          input_tokens: 1200,
+          input_tokens_details: { cached_tokens: 200 },
+          output_tokens: 3000,
+          output_tokens_details: { reasoning_tokens: 2500 },
+          total_tokens: 4200,
+        },
+      }, 'openai', 'research', { userId: 'user-123', messageId: 'msg_1' });
+
+      expect(usage).toEqual({
+        provider: 'openai',
+        model: 'o4-mini-deep-research-2025-06-26',
+        operation: 'research',
+        inputTokens: 1200,
+        cachedInputTokens: 200,
+        outputTokens: 3000,
+        reasoningTokens: 2500,
+        context: { userId: 'user-123', messageId: 'msg_1' },
+      });
+    });
+
+    it('should return null when the response has no usage', () => {
+      expect(readResponseUsage({ model: 'gpt-4o' }, 'openai', 'assistant_answer')).toBeNull();
+    });
+  });
+
+  describe('reportUsage', () => {
+    afterEach(() => {
+      setUsageRecorder(null);
+    });
+
+    it('should not let a failing recorder fail the call', () => {
+      setUsageRecorder(() => {
+        throw new Error('Database unavailable');
+      });
+
+      expect(() => reportUsage({
+        provider: 'openai',
+        model: 'gpt-4o',
+        operation: 'assistant_answer',
+        inputTokens: 1,
+        cachedInputTokens: 0,
+        outputTokens: 1,
+        reasoningTokens: 0,
+        context: {},
+      })).not.toThrow();
+    });
+  });
+
+  describe('record', () => {
+    it('should store the call against its user, conversation and message with an estimated cost', async () => {
+      mockedLlmUsageDao.create.mockResolvedValue({} as any);
+
+      await LlmUsageService.record({
+        provider: 'openai',
+        model: 'gpt-4o-2024-08-06',
+        operation: 'scope_classification',
+        inputTokens: 2000,
+        cachedInputTokens: 0,
+        outputTokens: 100,
+        reasoningTokens: 0,
+        context: { userId: 'user-123', conversationId: 'conv-123', messageId: 'msg_1' },
+      });
+
+      expect(mockedLlmUsageDao.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-123',
+        conversationId: 'conv-123',
+        messageId: 'msg_1',
+        model: 'gpt-4o-2024-08-06',
+        operation: 'scope_classification',
+        inputTokens: 2000,
+        outputTokens: 100,
+      }));
+      expect(mockedLlmUsageDao.create.mock.calls[0][0].estimatedCostUsd).toBeCloseTo(0.006);
+    });
+
+    it('should store anonymous usage without a user and unknown models without a cost', async () => {
+      mockedLlmUsageDao.create.mockResolvedValue({} as any);
+
+      await LlmUsageService.record({
+        provider: 'openai',
+        model: 'unknown-model',
+        operation: 'assistant_answer',
+        inputTokens: 10,
+        cachedInputTokens: 0,
+        outputTokens: 10,
+        reasoningTokens: 0,
+        context: { userId: '' },
+      });
+
+      expect(mockedLlmUsageDao.create).toHaveBeenCalledWith(expect.objectContaining({ userId: null, estimatedCostUsd: null }));
+    });
+  });
+
+  describe('getUserUsage', () => {
+    it('should sum usage from the start of the UTC day and month', async () => {
+      process.env.USAGE_MONTHLY_COST_LIMIT_USD = '20';
+      mockedLlmUsageDao.sumForUser.mockResolvedValueOnce(totals()).mockResolvedValueOnce(totals({ calls: 10, estimatedCostUsd: 4.5 }));
+
+      const usage = await LlmUsageService.getUserUsage('user-123', now);
+
+      expect(mockedLlmUsageDao.sumForUser).toHaveBeenCalledWith('user-123', new Date('2026-10-19T00:00:00Z'));
+      expect(mockedLlmUsageDao.sumForUser).toHaveBeenCalledWith('user-123', new Date('2026-10-01T00:00:00Z'));
+      expect(usage.day).toMatchObject({
+        period: 'day',
+        resets_at: '2026-10-20T00:00:00.000Z',
+        total_tokens: 1500,
+        estimated_cost_usd: 0.25,
+        token_limit: null,
+        cost_limit_usd: null,
+      });
+      expect(usage.month).toMatchObject({
+        period: 'month',
+        resets_at: '2026-11-01T00:00:00.000Z',
+        calls: 10,
+        estimated_cost_usd: 4.5,
+        cost_limit_usd: 20,
+      });
+    });
+  });
+
+  describe('quotas', () => {
+    it('should not look up usage when no quota is configured', async () => {
+      await expect(LlmUsageService.findExceededQuota('user-123', now)).resolves.toBeNull();
+      expect(mockedLlmUsageDao.sumForUser).not.toHaveBeenCalled();
+    });
+
+    it('should report a used-up daily token quota', async () => {
+      process.env.USAGE_DAILY_TOKEN_LIMIT = '1500';
+      mockedLlmUsageDao.sumForUser.mockResolvedValue(totals());
+
+      await expect(LlmUsageService.findExceededQuota('user-123', now)).resolves.toEqual({
+        period: 'day',
+        limit_type: 'tokens',
+        limit: 1500,
+        used: 1500,
+        resets_at: '2026-10-20T00:00:00.000Z',
+      });
+    });
+
+    it('should report a used-up monthly cost quota', async () => {
+      process.env.USAGE_DAILY_COST_LIMIT_USD = '1';
+      process.env.USAGE_MONTHLY_COST_LIMIT_USD = '5';
+      mockedLlmUsageDao.sumForUser.mockResolvedValueOnce(totals()).mockResolvedValueOnce(totals({ estimatedCostUsd: 5.2 }));
+
+      const exceeded = await LlmUsageService.findExceededQuota('user-123', now);
+
+      expect(exceeded).toMatchObject({ period: 'month', limit_type: 'cost', limit: 5, used: 5.2 });
+      expect(new QuotaExceededError(exceeded!).message)
+        .toBe('Monthly usage quota reached ($5.20 of $5.00). It resets at 2026-11-01T00:00:00.000Z.');
+    });
+
+    it('should allow a user under every quota', async () => {
+      process.env.USAGE_DAILY_TOKEN_LIMIT = '10000';
+      process.env.USAGE_MONTHLY_COST_LIMIT_USD = '5';
+      mockedLlmUsageDao.sumForUser.mockResolvedValue(totals());
+
+      await expect(LlmUsageService.assertWithinQuota('user-123')).resolves.toBeUndefined();
+    });
+
+    it('should not meter anonymous requests', async () => {
+      process.env.USAGE_DAILY_TOKEN_LIMIT = '1';
+
+      await expect(LlmUsageService.assertWithinQuota('')).resolves.toBeUndefined();
+      expect(mockedLlmUsageDao.sumForUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUsageReport', () => {
+    it('should return grouped rows in the API shape', async () => {
+      mockedLlmUsageDao.summarize.mockResolvedValue([
+        { key: 'user-123', ...totals() },
+        { key: null, ...totals({ calls: 1, estimatedCostUsd: 0.01 }) },
+      ]);
+      const from = new Date('2026-10-01T00:00:00Z');
+
+      const report = await LlmUsageService.getUsageReport(from, now, 'user');
+
+      expect(mockedLlmUsageDao.summarize).toHaveBeenCalledWith(from, now, 'user');
+      expect(report.group_by).toBe('user');
+      expect(report.rows[0]).toEqual({
+        key: 'user-123',
+        calls: 2,
+        input_tokens: 1000,
+        cached_input_tokens: 0,
+        output_tokens: 500,
+        reasoning_tokens: 100,
+        total_tokens: 1500,
+        estimated_cost_usd: 0.25,
+      });
+      expect(report.rows[1].key).toBeNull();
+    });
+  });
+});
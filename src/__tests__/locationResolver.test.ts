@@ -0,0 +1,70 @@
+import { describeLocation, findLocationInText, getStateForZip, resolveLocation } from '../utils/locationResolver';
+
+describe('locationResolver', () => {
+  describe('getStateForZip', () => {
+    it('should map ZIP prefixes to states', () => {
+      expect(getStateForZip('60601')).toBe('IL');
+      expect(getStateForZip('20001')).toBe('DC');
+      expect(getStateForZip('73301')).toBe('TX');
+      expect(getStateForZip('99501')).toBe('AK');
+    });
+
+    it('should not resolve territories or malformed ZIPs', () => {
+      expect(getStateForZip('00901')).toBeNull();
+      expect(getStateForZip('6060')).toBeNull();
+    });
+  });
+
+  describe('resolveLocation', () => {
+    it('should resolve state codes, names and city/state pairs', () => {
+      expect(resolveLocation('il')).toEqual({ state: 'IL', region: 'midwest' });
+      expect(resolveLocation('West Virginia')).toEqual({ state: 'WV', region: 'southeast' });
+      expect(resolveLocation('Kansas City, MO')).toEqual({ state: 'MO', region: 'midwest' });
+      expect(resolveLocation('Portland, Oregon')).toEqual({ state: 'OR', region: 'west' });
+    });
+
+    it('should keep the ZIP when one is given', () => {
+      expect(resolveLocation('Chicago, IL 60601-1234')).toEqual({ state: 'IL', region: 'midwest', zip: '60601' });
+    });
+
+    it('should return null for unknown locations', () => {
+      expect(resolveLocation('Unknown')).toBeNull();
+      expect(resolveLocation('Toronto')).toBeNull();
+      expect(resolveLocation('')).toBeNull();
+    });
+  });
+
+  describe('findLocationInText', () => {
+    it('should find ZIPs, city/state pairs and state names in a question', () => {
+      expect(findLocationInText('Why did my bill go up in ZIP 10001?')).toMatchObject({ state: 'NY', zip: '10001' });
+      expect(findLocationInText('My zip code is 60601-1234')).toEqual({ state: 'IL', region: 'midwest', zip: '60601' });
+      expect(findLocationInText('I live in Chicago, IL 60601')).toMatchObject({ state: 'IL', zip: '60601' });
+      expect(findLocationInText('Rates in Austin, TX this summer')).toEqual({ state: 'TX', region: 'southwest' });
+      expect(findLocationInText('Is net metering changing in alabama?')).toEqual({ state: 'AL', region: 'southeast' });
+      expect(findLocationInText('Is net metering changing in arkansas?')).toEqual({ state: 'AR', region: 'southeast' });
+    });
+
+    it('should not treat common words or amounts as locations', () => {
+      expect(findLocationInText('Can you tell me if rates go up in or out of peak hours?')).toBeNull();
+      expect(findLocationInText('My bill was $12345 this year')).toBeNull();
+    });
+
+    it('should not read unlabeled numbers as ZIPs', () => {
+      expect(findLocationInText('Is solar worth it using 12000 kWh a year?')).toBeNull();
+      expect(findLocationInText('What did Docket 52345 decide about ERCOT?')).toBeNull();
+      expect(findLocationInText('about 25000 customers lost power in Ohio')).toEqual({ state: 'OH', region: 'midwest' });
+    });
+
+    it('should read Washington DC as the District of Columbia', () => {
+      expect(findLocationInText('Washington DC rates')).toEqual({ state: 'DC', region: 'northeast' });
+      expect(findLocationInText('Pepco rates in Washington, D.C.')).toMatchObject({ state: 'DC' });
+      expect(findLocationInText('Rates in D.C. are going up')).toMatchObject({ state: 'DC' });
+      expect(findLocationInText('Washington state net metering')).toMatchObject({ state: 'WA' });
+      expect(resolveLocation('Washington DC')).toMatchObject({ state: 'DC' });
+    });
+  });
+
+  it('should describe a location for the research input', () => {
+    expect(describeLocation({ state: 'IL', region: 'midwest', zip: '60601' })).toBe('Illinois (IL), Midwest region, ZIP 60601');
+  });
+});
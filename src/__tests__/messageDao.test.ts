@@ -0,0 +1,43 @@
+import { MySqlDialect } from 'drizzle-orm/mysql-core';
+import { MessageDao } from '../dao/messageDao';
+import { db } from '../db/config';
+
+// The DAO is tested directly against a mocked query builder
+jest.mock('../utils/logger');
+
+const mockedDb = db as jest.Mocked<typeof db>;
+
+describe('MessageDao', () => {
+  describe('appendToMetadataList', () => {
+    const mockUpdate = (result: Promise<unknown>) => {
+      const where = jest.fn().mockReturnValue(result);
+      const set = jest.fn().mockReturnValue({ where });
+      mockedDb.update.mockReturnValue({ set } as any);
+      return set;
+    };
+
+    it('should append in the database instead of rewriting the metadata read earlier', async () => {
+      const set = mockUpdate(Promise.resolve([{ affectedRows: 1 }]));
+      const entry = { development: 2, message_id: 'msg_follow_up', requested_at: '2026-10-19T12:00:00.000Z' };
+
+      await expect(MessageDao.appendToMetadataList('msg_parent', 'expansions', entry)).resolves.toBe(true);
+
+      const { sql, params } = new MySqlDialect().sqlToQuery(set.mock.calls[0][0].metadata);
+      expect(sql).toContain('JSON_ARRAY_APPEND');
+      expect(sql).toContain('`metadata`');
+      expect(params).toEqual(['$.expansions', '$.expansions', JSON.stringify(entry)]);
+    });
+
+    it('should report a message that does not exist', async () => {
+      mockUpdate(Promise.resolve([{ affectedRows: 0 }]));
+
+      await expect(MessageDao.appendToMetadataList('missing', 'refreshes', { message_id: 'msg_refresh' })).resolves.toBe(false);
+    });
+
+    it('should return false when the update fails', async () => {
+      mockUpdate(Promise.reject(new Error('Connection lost')));
+
+      await expect(MessageDao.appendToMetadataList('msg_parent', 'refreshes', { message_id: 'msg_refresh' })).resolves.toBe(false);
+    });
+  });
+});
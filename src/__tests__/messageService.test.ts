@@ -19,6 +19,7 @@ describe('MessageService', () => {
     sessionId: 'session-123',
     researchResults: null,
     userId: 'user-123',
+    conversationId: null,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -85,6 +86,27 @@ describe('MessageService', () => {
     });
   });
 
+  describe('saveBotMessage', () => {
+    it('should upsert the bot message under its message ID', async () => {
+      const botMessage = { ...mockMessage, messageId: 'msg_user_answer', type: 'bot' as const, content: 'Rates rise.' };
+      mockedMessageDao.upsert.mockResolvedValue(botMessage);
+
+      const result = await MessageService.saveBotMessage('msg_user_answer', 'Rates rise.', { citations: [] }, 'msg_user', 'user-123', 'conv-123');
+
+      expect(mockedMessageDao.upsert).toHaveBeenCalledWith({
+        messageId: 'msg_user_answer',
+        type: 'bot',
+        content: 'Rates rise.',
+        metadata: { citations: [] },
+        sessionId: 'msg_user',
+        userId: 'user-123',
+        conversationId: 'conv-123',
+      });
+      expect(mockedMessageDao.create).not.toHaveBeenCalled();
+      expect(result).toEqual(botMessage);
+    });
+  });
+
   describe('createBotMessage', () => {
     it('should create a bot message successfully', async () => {
       const messageId = 'msg_123456789_abc123';
@@ -149,6 +171,18 @@ describe('MessageService', () => {
     });
   });
 
+  describe('isAccessibleBy', () => {
+    it("should let only the owner read a user's message", () => {
+      expect(MessageService.isAccessibleBy(mockMessage, 'user-123')).toBe(true);
+      expect(MessageService.isAccessibleBy(mockMessage, 'user-456')).toBe(false);
+      expect(MessageService.isAccessibleBy(mockMessage)).toBe(false);
+    });
+
+    it('should let anyone read a message without an owner', () => {
+      expect(MessageService.isAccessibleBy({ ...mockMessage, userId: null }, 'user-456')).toBe(true);
+    });
+  });
+
   describe('getMessageByMessageId', () => {
     it('should get message by message ID successfully', async () => {
       const messageId = 'msg_123456789_abc123';
@@ -0,0 +1,80 @@
+import { NotificationService } from '../services/notificationService';
+import { NotificationDao } from '../dao';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+const mockedNotificationDao = NotificationDao as jest.Mocked<typeof NotificationDao>;
+
+describe('NotificationService', () => {
+  const createdAt = new Date('2025-01-01T00:00:00Z');
+  const storedNotification = (id: string) => ({
+    id,
+    userId: 'user-123',
+    type: 'watch_update',
+    title: 'New developments: ERCOT market rules',
+    body: "What's changed since the last answer:\n- New: #1 PUCT adopts reliability standard",
+    data: { watch_id: 'watch-1' },
+    deliveredAt: null,
+    readAt: null,
+    createdAt,
+    updatedAt: createdAt,
+  });
+
+  const socket = {
+    isUserConnected: jest.fn(),
+    sendToUserRoom: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    NotificationService.setWebSocketService(socket);
+    mockedNotificationDao.create.mockResolvedValue(storedNotification('note-1'));
+    mockedNotificationDao.markDelivered.mockImplementation(async ids => ids.length);
+  });
+
+  afterAll(() => {
+    NotificationService.setWebSocketService(null);
+  });
+
+  it('should send the notification to the user\'s room when they are connected', async () => {
+    socket.isUserConnected.mockReturnValue(true);
+
+    const notification = await NotificationService.notify('user-123', {
+      type: 'watch_update',
+      title: 'New developments: ERCOT market rules',
+      body: 'Something changed',
+    });
+
+    expect(socket.sendToUserRoom).toHaveBeenCalledWith('user-123', expect.objectContaining({
+      type: 'notification',
+      notification: expect.objectContaining({ id: 'note-1', type: 'watch_update' }),
+    }));
+    expect(mockedNotificationDao.markDelivered).toHaveBeenCalledWith(['note-1']);
+    expect(notification?.delivered_at).not.toBeNull();
+  });
+
+  it('should keep the notification for later when the user is offline', async () => {
+    socket.isUserConnected.mockReturnValue(false);
+
+    const notification = await NotificationService.notify('user-123', {
+      type: 'watch_update',
+      title: 'New developments: ERCOT market rules',
+      body: 'Something changed',
+    });
+
+    expect(socket.sendToUserRoom).not.toHaveBeenCalled();
+    expect(mockedNotificationDao.markDelivered).not.toHaveBeenCalled();
+    expect(notification).toMatchObject({ id: 'note-1', delivered_at: null });
+  });
+
+  it('should deliver missed notifications when the user connects', async () => {
+    socket.isUserConnected.mockReturnValue(true);
+    mockedNotificationDao.findUndelivered.mockResolvedValue([storedNotification('note-1'), storedNotification('note-2')]);
+
+    await expect(NotificationService.deliverPending('user-123')).resolves.toBe(2);
+    expect(socket.sendToUserRoom).toHaveBeenCalledTimes(2);
+    expect(mockedNotificationDao.markDelivered).toHaveBeenCalledWith(['note-1', 'note-2']);
+  });
+});
@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { OpenAiProvider, setUsageRecorder } from '../llm';
+
+describe('OpenAiProvider', () => {
+  const researchResponse = {
+    research_results: 'ComEd delivery rates rose in January.',
+    key_developments: [],
+    citations: [],
+  };
+  const usage = {
+    input_tokens: 1200,
+    input_tokens_details: { cached_tokens: 0 },
+    output_tokens: 300,
+    output_tokens_details: { reasoning_tokens: 100 },
+    total_tokens: 1500,
+  };
+
+  let recorder: jest.Mock;
+
+  const createProvider = () => {
+    const handlers: Record<string, (event: any) => void> = {};
+    const stream = {
+      on: jest.fn((name: string, handler: (event: any) => void) => {
+        handlers[name] = handler;
+        return stream;
+      }),
+      finalResponse: jest.fn().mockResolvedValue({ model: 'gpt-4o', usage, output_parsed: researchResponse }),
+    };
+    const client = { responses: { stream: jest.fn().mockReturnValue(stream), create: jest.fn() } };
+    const provider = new OpenAiProvider('test-key');
+    // openai is mocked, so the provider talks to this client instead
+    (provider as any).client = client;
+    return { provider, client, stream, handlers };
+  };
+
+  beforeEach(() => {
+    recorder = jest.fn();
+    setUsageRecorder(recorder);
+  });
+
+  afterEach(() => {
+    setUsageRecorder(null);
+  });
+
+  describe('research', () => {
+    it('should send the registry source lists with the stored research prompt', async () => {
+      const { provider, client } = createProvider();
+
+      const result = await provider.research({ input: 'user: Are ComEd rates going up?' });
+
+      expect(result).toEqual(researchResponse);
+      const [body] = client.responses.stream.mock.calls[0];
+      expect(body.prompt).toEqual({ id: process.env.RESEARCH_PROMPT_ID });
+      expect(body.input).toBe('user: Are ComEd rates going up?');
+      expect(body.instructions).toContain('PRIORITIZED SOURCES');
+      expect(body.instructions).toContain('Illinois Commerce Commission');
+      expect(body.instructions).toContain('https://www.icc.illinois.gov');
+    });
+
+    it('should record usage of a response that failed after it was generated', async () => {
+      const { provider, stream, handlers } = createProvider();
+      stream.finalResponse.mockImplementation(async () => {
+        handlers.event({ type: 'response.incomplete', response: { model: 'gpt-4o', usage } });
+        throw new Error('Response ended before completing');
+      });
+
+      await expect(provider.research({ input: 'question', usage: { userId: 'user-123' } })).rejects.toThrow('Response ended');
+
+      expect(recorder).toHaveBeenCalledWith(expect.objectContaining({
+        operation: 'research',
+        inputTokens: 1200,
+        outputTokens: 300,
+        context: { userId: 'user-123' },
+      }));
+    });
+
+    it('should record nothing when the request failed before a response started', async () => {
+      const { provider, stream } = createProvider();
+      stream.finalResponse.mockRejectedValue(new Error('Request was aborted.'));
+
+      await expect(provider.research({ input: 'question' })).rejects.toThrow('aborted');
+
+      expect(recorder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parse', () => {
+    const schema = z.object({ answer: z.string() });
+
+    it('should validate the output against the schema and record usage', async () => {
+      const { provider, client } = createProvider();
+      client.responses.create.mockResolvedValue({ model: 'gpt-4o', usage, output_text: '{"answer":"Yes"}' });
+
+      const result = await provider.parse({ schema, name: 'answer', instructions: 'Answer.', input: 'question' });
+
+      expect(result).toEqual({ answer: 'Yes' });
+      expect(recorder).toHaveBeenCalledWith(expect.objectContaining({ operation: 'answer', inputTokens: 1200 }));
+    });
+
+    it('should record usage of output that fails validation', async () => {
+      const { provider, client } = createProvider();
+      client.responses.create.mockResolvedValue({ model: 'gpt-4o', usage, output_text: '{"answer":42}' });
+
+      await expect(provider.parse({ schema, name: 'answer', instructions: 'Answer.', input: 'question' })).rejects.toThrow();
+
+      expect(recorder).toHaveBeenCalledWith(expect.objectContaining({ operation: 'answer', outputTokens: 300 }));
+    });
+  });
+});
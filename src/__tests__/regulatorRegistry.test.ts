@@ -0,0 +1,95 @@
+import {
+  REGIONS,
+  REGULATORS,
+  STATES,
+  buildGeographicPrioritizationList,
+  buildPrioritizedSourcesSection,
+  findRegulatorByUrl,
+  findState,
+  getAuthorityTier,
+} from '../utils/regulatorRegistry';
+
+describe('regulatorRegistry', () => {
+  it('should place every state and DC in exactly one region', () => {
+    const codes = REGIONS.flatMap(region => region.states);
+
+    expect(codes).toHaveLength(51);
+    expect(new Set(codes).size).toBe(51);
+    expect(Object.keys(STATES)).toHaveLength(51);
+  });
+
+  it('should only reference registered sources', () => {
+    REGIONS.forEach(region => {
+      [...region.primary, ...region.secondary].forEach(id => expect(REGULATORS[id]).toBeDefined());
+    });
+  });
+
+  it("should list each region's state commissions as primary sources", () => {
+    const midwest = REGIONS.find(region => region.region === 'midwest')!;
+
+    expect(midwest.primary).toEqual(expect.arrayContaining(['il-icc', 'oh-puco', 'pjm']));
+    expect(midwest.primary).not.toContain('tx-puct');
+  });
+
+  describe('findState', () => {
+    it('should match codes and names case-insensitively', () => {
+      expect(findState('il')).toMatchObject({ code: 'IL', region: 'midwest' });
+      expect(findState(' District of Columbia ')).toMatchObject({ code: 'DC', region: 'northeast' });
+      expect(findState('Arkansas')).toMatchObject({ code: 'AR', region: 'southeast' });
+      expect(findState('LA')).toMatchObject({ code: 'LA', region: 'southeast' });
+      expect(findState('Ontario')).toBeNull();
+      expect(findState(undefined)).toBeNull();
+    });
+  });
+
+  describe('findRegulatorByUrl', () => {
+    it('should match subdomains and deep links', () => {
+      expect(findRegulatorByUrl('https://icc.illinois.gov/docket/P2023-0001')?.id).toBe('il-icc');
+      expect(findRegulatorByUrl('https://www.tn.gov/tpuc/news.html')?.id).toBe('tn-tpuc');
+      expect(findRegulatorByUrl('https://lpsc.louisiana.gov/Orders')?.id).toBe('la-lpsc');
+    });
+
+    it('should tell apart agencies that share a domain', () => {
+      expect(findRegulatorByUrl('https://www.wapa.gov/project/desert-southwest-region/rates')?.id).toBe('wapa-dsw');
+      expect(findRegulatorByUrl('https://www.wapa.gov/about')?.id).toBe('wapa');
+      expect(findRegulatorByUrl('https://www.in.gov/bmv/')).toBeNull();
+    });
+
+    it('should not match lookalike domains or invalid URLs', () => {
+      expect(findRegulatorByUrl('https://notferc.gov/news')).toBeNull();
+      expect(findRegulatorByUrl('not a url')).toBeNull();
+    });
+  });
+
+  describe('getAuthorityTier', () => {
+    it('should tier sources against the research location', () => {
+      expect(getAuthorityTier('https://www.icc.illinois.gov/rates', 'IL')).toBe('primary');
+      expect(getAuthorityTier('https://www.ferc.gov/news', 'Illinois')).toBe('secondary');
+      expect(getAuthorityTier('https://www.puc.texas.gov/', 'IL')).toBe('secondary');
+      expect(getAuthorityTier('https://www.example.com/blog', 'IL')).toBe('unlisted');
+      expect(getAuthorityTier('https://www.apscservices.info/dockets', 'AR')).toBe('primary');
+      expect(getAuthorityTier('https://www.lpsc.louisiana.gov/', 'AR')).toBe('primary');
+    });
+
+    it('should treat any primary source as primary without a location', () => {
+      expect(getAuthorityTier('https://www.puc.texas.gov/')).toBe('primary');
+    });
+  });
+
+  it('should render every region into the prompt section', () => {
+    const section = buildPrioritizedSourcesSection();
+
+    expect(section).toContain('## MIDWEST REGION');
+    expect(section).toContain('Illinois Commerce Commission (https://www.icc.illinois.gov)');
+    expect(section.match(/\*\*PRIMARY:\*\*/g)).toHaveLength(5);
+  });
+
+  it('should keep the source URLs and region order the research prompt has always used', () => {
+    const [midwest, , , southwest] = buildPrioritizedSourcesSection().split('\n\n## ');
+
+    expect(midwest).toContain('Southwest Power Pool (https://www.spp.org),');
+    expect(southwest).toContain('Southwest Power Pool (https://www.spp.org/),');
+    expect(buildGeographicPrioritizationList().split('\n').map(line => line.match(/\*\*(\w+):/)![1]))
+      .toEqual(['NORTHEAST', 'SOUTHEAST', 'MIDWEST', 'SOUTHWEST', 'WEST']);
+  });
+});
@@ -0,0 +1,122 @@
+import { ResearchCacheService } from '../services/researchCacheService';
+import { ResearchCacheDao } from '../dao';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+const mockedResearchCacheDao = ResearchCacheDao as jest.Mocked<typeof ResearchCacheDao>;
+
+describe('ResearchCacheService', () => {
+  const result = {
+    research_results: 'ComEd delivery rates rose in January.',
+    key_developments: [],
+    citations: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.RESEARCH_CACHE_TTL_HOURS;
+  });
+
+  describe('buildKey', () => {
+    it('should give the same key to trivially different wordings', () => {
+      const key = ResearchCacheService.buildKey('What are the new ComEd rates?', 'il');
+
+      expect(ResearchCacheService.buildKey('  what are the NEW comed rates ', 'IL')).toBe(key);
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should separate the same question asked about different states', () => {
+      expect(ResearchCacheService.buildKey('What are the new rates?', 'IL'))
+        .not.toBe(ResearchCacheService.buildKey('What are the new rates?', 'TX'));
+    });
+  });
+
+  describe('lookup', () => {
+    it('should return cached research and count the hit', async () => {
+      const researchedAt = new Date('2025-01-01T00:00:00Z');
+      mockedResearchCacheDao.findValidByKey.mockResolvedValue({
+        id: 'cache-1',
+        cacheKey: 'key-1',
+        normalizedQuery: 'what are the new comed rates',
+        state: 'IL',
+        result,
+        sourceMessageId: 'msg_1',
+        hitCount: 2,
+        researchedAt,
+        expiresAt: new Date('2025-01-02T00:00:00Z'),
+        createdAt: researchedAt,
+        updatedAt: researchedAt,
+      });
+
+      const cached = await ResearchCacheService.lookup('key-1');
+
+      expect(mockedResearchCacheDao.incrementHits).toHaveBeenCalledWith('cache-1');
+      expect(cached).toEqual({ key: 'key-1', result, sourceMessageId: 'msg_1', researchedAt });
+    });
+
+    it('should return null on a miss', async () => {
+      mockedResearchCacheDao.findValidByKey.mockResolvedValue(null);
+
+      await expect(ResearchCacheService.lookup('key-1')).resolves.toBeNull();
+      expect(mockedResearchCacheDao.incrementHits).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('store', () => {
+    it('should expire entries after the configured TTL', async () => {
+      process.env.RESEARCH_CACHE_TTL_HOURS = '6';
+      mockedResearchCacheDao.upsert.mockResolvedValue(true);
+      const researchedAt = new Date('2025-01-01T00:00:00Z');
+
+      await ResearchCacheService.store({
+        key: 'key-1',
+        query: 'What are the new ComEd rates?',
+        state: 'il',
+        result,
+        messageId: 'msg_1',
+        researchedAt,
+      });
+
+      expect(mockedResearchCacheDao.upsert).toHaveBeenCalledWith({
+        cacheKey: 'key-1',
+        normalizedQuery: 'what are the new comed rates',
+        state: 'IL',
+        result,
+        sourceMessageId: 'msg_1',
+        researchedAt,
+        expiresAt: new Date('2025-01-01T06:00:00Z'),
+      });
+    });
+
+    it('should not store anything when the cache is disabled', async () => {
+      process.env.RESEARCH_CACHE_TTL_HOURS = '0';
+
+      const stored = await ResearchCacheService.store({ key: 'key-1', query: 'q', result, messageId: 'msg_1' });
+
+      expect(stored).toBe(false);
+      expect(mockedResearchCacheDao.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeByQuestion', () => {
+    it('should purge the entry the question is cached under', async () => {
+      mockedResearchCacheDao.deleteByKey.mockResolvedValue(1);
+
+      await expect(ResearchCacheService.purgeByQuestion('are comed rates going up', 'il')).resolves.toBe(1);
+      expect(mockedResearchCacheDao.deleteByKey).toHaveBeenCalledWith(
+        ResearchCacheService.buildKey('Are ComEd rates going up?', 'IL')
+      );
+    });
+  });
+
+  describe('purgeByState', () => {
+    it('should purge entries for the normalized state', async () => {
+      mockedResearchCacheDao.deleteByState.mockResolvedValue(3);
+
+      await expect(ResearchCacheService.purgeByState(' il ')).resolves.toBe(3);
+      expect(mockedResearchCacheDao.deleteByState).toHaveBeenCalledWith('IL');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { diffResearch, formatResearchDiff } from '../utils/researchDiff';
+
+describe('diffResearch', () => {
+  const citation = (id: number, url: string) => ({ id, title: `Source ${id}`, url, relevance_score: 8 });
+  const development = (number: number, title: string, description: string, citations: number[]) => ({
+    number,
+    title,
+    description,
+    citations,
+  });
+
+  const previous = {
+    key_developments: [
+      development(1, 'ICC approves ComEd grid plan', 'The Illinois Commerce Commission approved the ComEd grid plan in Docket 23-0055 [1].', [1]),
+      development(2, 'Time-of-use pilot launched', 'ComEd launched a residential time-of-use pricing pilot [2].', [2]),
+      development(3, 'Supply price falls', 'The Illinois Power Agency procurement lowered the supply price to 7.2 cents per kWh [3].', [3]),
+    ],
+    citations: [
+      citation(1, 'https://www.icc.illinois.gov/docket/23-0055'),
+      citation(2, 'https://www.comed.com/pilot'),
+      citation(3, 'https://ipa.illinois.gov/procurement'),
+    ],
+  };
+
+  it('should report added, removed and modified developments and new citations', () => {
+    const current = {
+      key_developments: [
+        // Reworded, with the same facts and source
+        development(1, 'ComEd grid plan approved by the ICC', 'In Docket 23-0055 the Illinois Commerce Commission approved the ComEd grid plan [2].', [2]),
+        // New figure and an extra source
+        development(2, 'Supply price procurement results', 'The Illinois Power Agency procurement lowered the supply price to 6.9 cents per kWh [3, 4].', [3, 4]),
+        development(3, 'FERC capacity auction', 'The PJM capacity auction cleared at a record price [1].', [1]),
+      ],
+      citations: [
+        citation(1, 'https://www.pjm.com/auction'),
+        citation(2, 'https://icc.illinois.gov/docket/23-0055/'),
+        citation(3, 'https://ipa.illinois.gov/procurement'),
+        citation(4, 'https://www.citizensutilityboard.org/supply'),
+      ],
+    };
+
+    const diff = diffResearch(previous, current);
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.added.map(added => added.number)).toEqual([3]);
+    expect(diff.removed.map(removed => removed.number)).toEqual([2]);
+    expect(diff.modified).toHaveLength(1);
+    expect(diff.modified[0]).toMatchObject({
+      previous: { number: 3 },
+      current: { number: 2 },
+      facts_added: ['6.9 cents'],
+      facts_removed: ['7.2 cents'],
+      sources_added: ['citizensutilityboard.org/supply'],
+      sources_removed: [],
+    });
+    expect(diff.new_citations.map(({ url }) => url)).toEqual([
+      'https://www.pjm.com/auction',
+      'https://www.citizensutilityboard.org/supply',
+    ]);
+  });
+
+  it('should report no changes when the same research comes back', () => {
+    const diff = diffResearch(previous, previous);
+
+    expect(diff).toEqual({ added: [], removed: [], modified: [], unchanged: 3, new_citations: [] });
+    expect(formatResearchDiff(diff)).toBe('No changes since the last answer.');
+  });
+
+  it('should summarize the changes', () => {
+    const diff = diffResearch(previous, { key_developments: previous.key_developments.slice(0, 2), citations: previous.citations });
+
+    expect(formatResearchDiff(diff)).toBe("What's changed since the last answer:\n- No longer reported: Supply price falls");
+  });
+});
@@ -0,0 +1,127 @@
+import { ResearchExportService } from '../services/researchExportService';
+import { CitationSnapshotDao, ConversationDao, MessageDao } from '../dao';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+const mockedMessageDao = MessageDao as jest.Mocked<typeof MessageDao>;
+const mockedCitationSnapshotDao = CitationSnapshotDao as jest.Mocked<typeof CitationSnapshotDao>;
+const mockedConversationDao = ConversationDao as jest.Mocked<typeof ConversationDao>;
+
+describe('ResearchExportService', () => {
+  const createdAt = new Date('2026-10-01T12:00:00Z');
+  const message = (messageId: string, type: string, content: string, metadata: Record<string, unknown> | null, userId = 'user-123') => ({
+    id: `id-${messageId}`,
+    messageId,
+    type,
+    content,
+    metadata,
+    sessionId: 'session-123',
+    researchResults: null,
+    userId,
+    conversationId: 'conv-123',
+    createdAt,
+    updatedAt: createdAt,
+  });
+
+  const answer = message('msg_bot', 'bot', 'Formatted answer', {
+    research_results: 'Rates rise in January [1].',
+    key_developments: [{ number: 1, title: 'PUCT approves rate case', description: 'Rates rise 4% [1].', citations: [1] }],
+    citations: [{ id: 1, title: 'PUCT order', url: 'https://www.puc.texas.gov/order', relevance_score: 9 }],
+    research_message_id: 'msg_user',
+    location: { state: 'TX', region: 'southwest' },
+  });
+
+  const snapshot = (fetchedAt: string, statusCode: number) => ({
+    id: `snap-${fetchedAt}`,
+    messageId: 'msg_bot',
+    researchMessageId: 'msg_user',
+    citationId: 1,
+    url: 'https://www.puc.texas.gov/order',
+    finalUrl: null,
+    statusCode,
+    headers: null,
+    contentType: 'text/html',
+    contentText: 'Order text',
+    contentHash: null,
+    contentLength: 100,
+    fetchedAt: new Date(fetchedAt),
+    createdAt,
+    updatedAt: createdAt,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedMessageDao.findByMessageId.mockImplementation(async (messageId: string) => ({
+      msg_bot: answer,
+      msg_user: message('msg_user', 'user', 'What changed in Texas electricity rates?', null),
+    } as Record<string, any>)[messageId] || null);
+    mockedCitationSnapshotDao.findByMessageId.mockResolvedValue([
+      snapshot('2026-10-01T11:59:00Z', 200),
+      snapshot('2026-09-01T00:00:00Z', 500),
+    ]);
+  });
+
+  it('should build the report from the answer, its question and the latest citation checks', async () => {
+    const report = await ResearchExportService.getReport('msg_bot', 'user-123');
+
+    expect(report).toMatchObject({
+      message_id: 'msg_bot',
+      question: 'What changed in Texas electricity rates?',
+      location: expect.stringContaining('Texas (TX)'),
+      generated_at: '2026-10-01T12:00:00.000Z',
+      summary: 'Rates rise in January [1].',
+    });
+    expect(report!.sources[0]).toMatchObject({ access_status: 'verified', status_code: 200, checked_at: '2026-10-01T11:59:00.000Z' });
+  });
+
+  it('should render the requested format as a file', async () => {
+    const exported = await ResearchExportService.exportReport('msg_bot', 'csv', 'user-123');
+
+    expect(exported).toMatchObject({ filename: 'research-report-msg_bot.csv', contentType: 'text/csv; charset=utf-8' });
+    expect(exported!.body.split('\r\n')[1]).toMatch(/^1,PUCT approves rate case,/);
+  });
+
+  it('should not export another user\'s answer or a message without research', async () => {
+    await expect(ResearchExportService.getReport('msg_bot', 'user-456')).resolves.toBeNull();
+    await expect(ResearchExportService.getReport('msg_user', 'user-123')).resolves.toBeNull();
+    await expect(ResearchExportService.exportReport('msg_missing', 'md', 'user-123')).resolves.toBeNull();
+  });
+
+  it('should export the answer\'s sources as a bibliography', async () => {
+    const exported = await ResearchExportService.exportBibliography('msg_bot', 'bibtex', 'user-123');
+
+    expect(exported).toMatchObject({ filename: 'bibliography-msg_bot.bib', contentType: 'application/x-bibtex; charset=utf-8' });
+    expect(exported!.body).toContain('organization = {Public Utility Commission of Texas}');
+    expect(exported!.body).toContain('urldate = {2026-10-01}');
+  });
+
+  it('should merge the sources of every research answer in a conversation', async () => {
+    mockedConversationDao.findByIdForUser.mockResolvedValue({ id: 'conv-123', userId: 'user-123' } as any);
+    const later = message('msg_bot2', 'bot', 'Second answer', {
+      ...answer.metadata,
+      citations: [
+        { id: 1, title: 'PUCT order', url: 'https://puc.texas.gov/order/', relevance_score: 9 },
+        { id: 2, title: 'ERCOT report', url: 'https://www.ercot.com/report.pdf', relevance_score: 8 },
+      ],
+    });
+    const byId = mockedMessageDao.findByMessageId.getMockImplementation()!;
+    mockedMessageDao.findByMessageId.mockImplementation(async (messageId: string) => (messageId === 'msg_bot2' ? later : byId(messageId)) as any);
+    // Newest first, as stored
+    mockedMessageDao.findByConversationId.mockResolvedValue([later, message('msg_user', 'user', 'Question', null), answer] as any);
+
+    const exported = await ResearchExportService.exportConversationBibliography('conv-123', 'csl-json', 'user-123');
+
+    expect(mockedConversationDao.findByIdForUser).toHaveBeenCalledWith('conv-123', 'user-123');
+    expect(exported!.filename).toBe('bibliography-conv-123.json');
+    expect(JSON.parse(exported!.body).map((item: { title: string }) => item.title)).toEqual(['PUCT order', 'ERCOT report']);
+  });
+
+  it('should not export the bibliography of another user\'s conversation', async () => {
+    mockedConversationDao.findByIdForUser.mockResolvedValue(null);
+
+    await expect(ResearchExportService.exportConversationBibliography('conv-123', 'bibtex', 'user-456')).resolves.toBeNull();
+    expect(mockedMessageDao.findByConversationId).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,240 @@
+import { ResearchJobService } from '../services/researchJobService';
+import { ResearchJobDao } from '../dao';
+import { logger } from '../utils/logger';
+import { researchStream } from '../utils/researchStream';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+const mockedResearchJobDao = ResearchJobDao as jest.Mocked<typeof ResearchJobDao>;
+const mockedLogger = logger as jest.Mocked<typeof logger>;
+
+describe('ResearchJobService', () => {
+  const messages = [
+    { role: 'user' as const, content: 'What are the new ComEd rates?' },
+    { role: 'assistant' as const, content: "I'm now accessing the latest sources." },
+  ];
+
+  const mockJob = {
+    id: 'job-123',
+    messageId: 'msg_123456789_abc123',
+    status: 'pending',
+    attempts: 0,
+    input: messages,
+    userLocation: 'IL',
+    location: { state: 'IL', region: 'midwest' },
+    result: null,
+    error: null,
+    errorHistory: null,
+    nextAttemptAt: null,
+    cacheKey: null,
+    parentMessageId: null,
+    parentDevelopment: null,
+    refreshOfMessageId: null,
+    watchId: null,
+    sessionId: 'session-123',
+    userId: 'user-123',
+    conversationId: null,
+    lockedBy: null,
+    lockedAt: null,
+    startedAt: null,
+    completedAt: null,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('should create a research job with the conversation as input', async () => {
+      mockedResearchJobDao.create.mockResolvedValue(mockJob);
+
+      const result = await ResearchJobService.enqueue({
+        messageId: mockJob.messageId,
+        messages,
+        userId: 'user-123',
+        sessionId: 'session-123',
+        location: { state: 'IL', region: 'midwest', zip: '60601' },
+      });
+
+      expect(mockedResearchJobDao.create).toHaveBeenCalledWith({
+        messageId: mockJob.messageId,
+        input: messages,
+        userLocation: 'IL',
+        location: { state: 'IL', region: 'midwest', zip: '60601' },
+        sessionId: 'session-123',
+        userId: 'user-123',
+      });
+      expect(result).toEqual(mockJob);
+    });
+
+    it('should handle errors and return null', async () => {
+      const error = new Error('Database error');
+      mockedResearchJobDao.create.mockRejectedValue(error);
+
+      const result = await ResearchJobService.enqueue({ messageId: mockJob.messageId, messages });
+
+      expect(mockedLogger.error).toHaveBeenCalledWith('Service error queueing research job:', error);
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('getResearchResult', () => {
+    it('should return null when no job exists', async () => {
+      mockedResearchJobDao.findByMessageId.mockResolvedValue(null);
+
+      const result = await ResearchJobService.getResearchResult('missing');
+
+      expect(result).toBeNull();
+    });
+
+    it('should map a pending job to a pending result', async () => {
+      mockedResearchJobDao.findByMessageId.mockResolvedValue(mockJob);
+
+      const result = await ResearchJobService.getResearchResult(mockJob.messageId);
+
+      expect(result).toEqual({
+        id: mockJob.messageId,
+        status: 'pending',
+        error: undefined,
+        attempts: 0,
+        next_attempt_at: undefined,
+        error_history: undefined,
+        timestamp: '2025-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should include the stored result for completed jobs', async () => {
+      const completedAt = new Date('2025-01-01T00:05:00Z');
+      mockedResearchJobDao.findByMessageId.mockResolvedValue({
+        ...mockJob,
+        status: 'completed',
+        completedAt,
+        result: {
+          research_results: 'Summary',
+          key_developments: [],
+          citations: [],
+        },
+      });
+
+      const result = await ResearchJobService.getResearchResult(mockJob.messageId);
+
+      expect(result).toEqual({
+        id: mockJob.messageId,
+        status: 'completed',
+        research_results: 'Summary',
+        key_developments: [],
+        citations: [],
+        error: undefined,
+        attempts: 0,
+        next_attempt_at: undefined,
+        error_history: undefined,
+        timestamp: completedAt.toISOString(),
+      });
+    });
+
+    it('should include the error for failed jobs', async () => {
+      mockedResearchJobDao.findByMessageId.mockResolvedValue({
+        ...mockJob,
+        status: 'failed',
+        error: 'Rate limit exceeded',
+      });
+
+      const result = await ResearchJobService.getResearchResult(mockJob.messageId);
+
+      expect(result!.status).toBe('failed');
+      expect(result!.error).toBe('Rate limit exceeded');
+    });
+
+    it('should include the next attempt and error history for retrying jobs', async () => {
+      const nextAttemptAt = new Date('2025-01-01T00:01:00Z');
+      const errorHistory = [
+        { attempt: 1, error: 'Request timed out.', retryable: true, timestamp: '2025-01-01T00:00:30.000Z' },
+      ];
+      mockedResearchJobDao.findByMessageId.mockResolvedValue({
+        ...mockJob,
+        status: 'retrying',
+        attempts: 1,
+        error: 'Request timed out.',
+        errorHistory,
+        nextAttemptAt,
+      });
+
+      const result = await ResearchJobService.getResearchResult(mockJob.messageId);
+
+      expect(result).toMatchObject({
+        status: 'retrying',
+        attempts: 1,
+        next_attempt_at: nextAttemptAt.toISOString(),
+        error_history: errorHistory,
+      });
+    });
+  });
+
+  describe('getResearchResultForUser', () => {
+    it('should return the result to the user who asked', async () => {
+      mockedResearchJobDao.findByMessageId.mockResolvedValue(mockJob);
+
+      const result = await ResearchJobService.getResearchResultForUser(mockJob.messageId, 'user-123');
+
+      expect(result).toEqual(expect.objectContaining({ id: mockJob.messageId, status: 'pending' }));
+    });
+
+    it('should not return research belonging to another user', async () => {
+      mockedResearchJobDao.findByMessageId.mockResolvedValue(mockJob);
+
+      await expect(ResearchJobService.getResearchResultForUser(mockJob.messageId, 'user-456')).resolves.toBeNull();
+      await expect(ResearchJobService.getResearchResultForUser(mockJob.messageId)).resolves.toBeNull();
+    });
+
+    it('should return anonymous research without a user', async () => {
+      mockedResearchJobDao.findByMessageId.mockResolvedValue({ ...mockJob, userId: null });
+
+      const result = await ResearchJobService.getResearchResultForUser(mockJob.messageId);
+
+      expect(result).toEqual(expect.objectContaining({ id: mockJob.messageId }));
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel an unfinished job and notify listeners', async () => {
+      const listener = jest.fn();
+      const unsubscribe = researchStream.subscribe(mockJob.messageId, listener);
+      mockedResearchJobDao.findByMessageId.mockResolvedValue({ ...mockJob, status: 'running' });
+      mockedResearchJobDao.cancel.mockResolvedValue(true);
+
+      const result = await ResearchJobService.cancel(mockJob.messageId, 'user-123');
+      unsubscribe();
+
+      expect(mockedResearchJobDao.cancel).toHaveBeenCalledWith(mockJob.id);
+      expect(result!.status).toBe('cancelled');
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'cancelled',
+        messageId: mockJob.messageId,
+        userId: 'user-123',
+      }));
+    });
+
+    it('should not cancel research belonging to another user', async () => {
+      mockedResearchJobDao.findByMessageId.mockResolvedValue(mockJob);
+
+      const result = await ResearchJobService.cancel(mockJob.messageId, 'user-456');
+
+      expect(result).toBeNull();
+      expect(mockedResearchJobDao.cancel).not.toHaveBeenCalled();
+    });
+
+    it('should return the final status of research that already finished', async () => {
+      mockedResearchJobDao.findByMessageId.mockResolvedValue(mockJob);
+      mockedResearchJobDao.cancel.mockResolvedValue(false);
+      mockedResearchJobDao.findById.mockResolvedValue({ ...mockJob, status: 'completed', completedAt: new Date() });
+
+      const result = await ResearchJobService.cancel(mockJob.messageId, 'user-123');
+
+      expect(result!.status).toBe('completed');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { StubLlmProvider, setLlmProvider } from '../llm';
+import { performResearch } from '../utils/researchHelper';
+import { ResearchStreamEvent, researchStream } from '../utils/researchStream';
+
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+describe('performResearch', () => {
+  const fixtures = StubLlmProvider.loadFixtures();
+  const research = {
+    research_results: 'Illinois and Texas rates both rose in January.',
+    key_developments: [],
+    citations: [],
+  };
+  const plan = {
+    needs_decomposition: true,
+    reasoning: 'The question compares two states.',
+    sub_questions: [
+      { question: 'What changed in Illinois electricity rates?', focus: 'Illinois' },
+      { question: 'What changed in Texas electricity rates?', focus: 'Texas' },
+    ],
+  };
+
+  let provider: StubLlmProvider;
+  let events: ResearchStreamEvent[];
+  let unsubscribe: () => void;
+
+  const run = (overrides = {}) => performResearch({
+    messageId: 'msg_user',
+    messages: [{ role: 'user', content: 'How do rate changes in Illinois and Texas compare?' }],
+    userId: 'user-123',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    provider = new StubLlmProvider({ ...fixtures, research, parse: { ...fixtures.parse, research_plan: plan } });
+    jest.spyOn(provider, 'parse');
+    setLlmProvider(provider);
+    events = [];
+    unsubscribe = researchStream.subscribe('msg_user', event => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    setLlmProvider(null);
+  });
+
+  it('should send the merged summary of planned research in one delta', async () => {
+    const result = await run();
+
+    expect(result.research_plan?.sub_questions).toHaveLength(2);
+    const deltas = events.filter(event => event.type === 'delta');
+    expect(deltas).toEqual([expect.objectContaining({ delta: result.research_results })]);
+  });
+
+  it('should not plan follow-up research on a development', async () => {
+    const result = await run({ expansion: { parent_message_id: 'msg_parent_answer', development: 2 } });
+
+    expect(provider.parse).not.toHaveBeenCalledWith(expect.objectContaining({ name: 'research_plan' }));
+    expect(result.research_plan).toBeUndefined();
+    expect(events).not.toContainEqual(expect.objectContaining({ type: 'progress', stage: 'planning' }));
+  });
+
+  it('should not plan a refresh', async () => {
+    const result = await run({ refreshOf: 'msg_previous_answer' });
+
+    expect(provider.parse).not.toHaveBeenCalledWith(expect.objectContaining({ name: 'research_plan' }));
+    expect(result.research_plan).toBeUndefined();
+  });
+});
@@ -0,0 +1,205 @@
+import { ResearchRequest, StubLlmProvider, setLlmProvider } from '../llm';
+import { ResearchResponse } from '../utils/researchSchemas';
+import { mergeResearchResponses, planResearch, runResearchPlan } from '../utils/researchPlanner';
+
+jest.mock('../utils/logger');
+
+describe('researchPlanner', () => {
+  const fixtures = StubLlmProvider.loadFixtures();
+
+  const citation = (id: number, url: string) => ({ id, title: `Source ${id}`, url, relevance_score: 8 });
+  const development = (number: number, description: string, citations: number[]) => ({
+    number,
+    title: `Development ${number}`,
+    description,
+    citations,
+  });
+
+  const plan = {
+    reasoning: 'The question compares two states.',
+    sub_questions: [
+      { question: 'What changed in Illinois electricity rates?', focus: 'Illinois' },
+      { question: 'What changed in Texas electricity rates?', focus: 'Texas' },
+    ],
+  };
+
+  afterEach(() => {
+    setLlmProvider(null);
+  });
+
+  describe('planResearch', () => {
+    it('should return null when the planner does not split the question', async () => {
+      await expect(planResearch('Are ComEd rates going up?')).resolves.toBeNull();
+    });
+
+    it('should return the sub-questions of a broad question', async () => {
+      setLlmProvider(new StubLlmProvider({
+        ...fixtures,
+        parse: { ...fixtures.parse, research_plan: { needs_decomposition: true, ...plan } },
+      }));
+
+      await expect(planResearch('How do rate changes in Illinois and Texas compare?')).resolves.toEqual(plan);
+    });
+
+    it('should research the question as a whole when a plan has fewer than two sub-questions', async () => {
+      setLlmProvider(new StubLlmProvider({
+        ...fixtures,
+        parse: {
+          ...fixtures.parse,
+          research_plan: { needs_decomposition: true, reasoning: 'One part.', sub_questions: [plan.sub_questions[0]] },
+        },
+      }));
+
+      await expect(planResearch('What changed in Illinois?')).resolves.toBeNull();
+    });
+
+    it('should return null when planning fails', async () => {
+      setLlmProvider(new StubLlmProvider({ ...fixtures, parse: {} }));
+
+      await expect(planResearch('How do rate changes in Illinois and Texas compare?')).resolves.toBeNull();
+    });
+  });
+
+  describe('mergeResearchResponses', () => {
+    it('should deduplicate citations by URL and renumber developments in order', () => {
+      const { response, repairs } = mergeResearchResponses([
+        {
+          subQuestion: 1,
+          response: {
+            research_results: 'Illinois rates rose [1].',
+            key_developments: [development(1, 'The ICC approved the plan [1].', [1])],
+            citations: [citation(1, 'https://www.icc.illinois.gov/rates')],
+          },
+        },
+        {
+          subQuestion: 2,
+          response: {
+            research_results: 'Texas rates held [1]. Federal rules apply [2].',
+            key_developments: [development(1, 'The PUCT kept rates flat [1].', [1, 2])],
+            citations: [citation(1, 'https://www.puc.texas.gov'), citation(2, 'https://icc.illinois.gov/rates/')],
+          },
+        },
+      ]);
+
+      expect(response.research_results).toBe('Illinois rates rose [1].\n\nTexas rates held [2]. Federal rules apply [1].');
+      expect(response.citations.map(({ id, url }) => [id, url])).toEqual([
+        [1, 'https://www.icc.illinois.gov/rates'],
+        [2, 'https://www.puc.texas.gov'],
+      ]);
+      expect(response.key_developments.map(({ number, description, citations }) => ({ number, description, citations }))).toEqual([
+        { number: 1, description: 'The ICC approved the plan [1].', citations: [1] },
+        { number: 2, description: 'The PUCT kept rates flat [2].', citations: [1, 2] },
+      ]);
+      expect(repairs).toEqual([{ type: 'duplicate_citation', citation_id: 2, merged_into: 1, sub_question: 2 }]);
+    });
+
+    it('should reconcile overlapping parts once and report each repair once', () => {
+      const { response, repairs } = mergeResearchResponses([
+        {
+          subQuestion: 1,
+          response: {
+            research_results: 'Illinois rates rose [2]. Capacity prices rose [3].',
+            key_developments: [development(1, 'The ICC approved the plan [2].', [2])],
+            citations: [citation(2, 'https://www.icc.illinois.gov/rates'), citation(3, 'https://www.pjm.com/markets')],
+          },
+        },
+        {
+          subQuestion: 2,
+          response: {
+            research_results: 'Capacity prices rose \ue200cite\ue202turn0search0\ue201. Texas rates held [2].',
+            key_developments: [development(1, 'The PUCT kept rates flat [2].', [2, 4])],
+            citations: [citation(1, 'https://pjm.com/markets/'), citation(2, 'https://www.puc.texas.gov')],
+          },
+        },
+      ]);
+
+      expect(response.research_results).toBe('Illinois rates rose [1]. Capacity prices rose [2].\n\nCapacity prices rose [2]. Texas rates held [3].');
+      expect(response.citations.map(({ id, url }) => [id, url])).toEqual([
+        [1, 'https://www.icc.illinois.gov/rates'],
+        [2, 'https://www.pjm.com/markets'],
+        [3, 'https://www.puc.texas.gov'],
+      ]);
+      expect(response.key_developments.map(({ number, citations }) => ({ number, citations }))).toEqual([
+        { number: 1, citations: [1] },
+        { number: 2, citations: [3] },
+      ]);
+      // The PJM source both parts cite is merged once, and the search marker to it is reported for the part it is in
+      expect(repairs).toEqual([
+        { type: 'duplicate_citation', citation_id: 1, merged_into: 3, sub_question: 2 },
+        { type: 'search_marker_mapped', citation_id: 3, marker: 'turn0search0', sub_question: 2 },
+        { type: 'development_citation_dropped', citation_id: 4, development: 2, sub_question: 2 },
+        { type: 'renumbered', citation_id: 2, new_id: 1, sub_question: 1 },
+        { type: 'renumbered', citation_id: 3, new_id: 2, sub_question: 1 },
+        { type: 'renumbered', citation_id: 2, new_id: 3, sub_question: 2 },
+      ]);
+    });
+
+    it('should tag the repairs made to each part with its sub-question', () => {
+      const { repairs } = mergeResearchResponses([
+        {
+          subQuestion: 2,
+          response: {
+            research_results: 'Texas rates held [3].',
+            key_developments: [],
+            citations: [citation(3, 'https://www.puc.texas.gov')],
+          },
+        },
+      ]);
+
+      expect(repairs).toEqual([{ type: 'renumbered', citation_id: 3, new_id: 1, sub_question: 2 }]);
+    });
+  });
+
+  describe('runResearchPlan', () => {
+    class FailingTexasProvider extends StubLlmProvider {
+      async research(request: ResearchRequest): Promise<ResearchResponse | null> {
+        if (request.input.includes('Texas')) {
+          throw new Error('Request timed out');
+        }
+        return super.research(request);
+      }
+    }
+
+    it('should merge the research for every sub-question', async () => {
+      const result = await runResearchPlan(plan, 'Compare Illinois and Texas rates');
+
+      // The stub returns the same research for each sub-question, so its citations collapse into one set
+      expect(result.response.citations).toHaveLength(fixtures.research.citations.length);
+      expect(result.response.key_developments.map(development => development.number)).toEqual(
+        Array.from({ length: fixtures.research.key_developments.length * 2 }, (_, index) => index + 1)
+      );
+      expect(result.plan.sub_questions.map(subQuestion => subQuestion.status)).toEqual(['completed', 'completed']);
+      expect(result.plan.sub_questions[0]).toMatchObject({
+        key_developments: fixtures.research.key_developments.length,
+        citations: fixtures.research.citations.length,
+      });
+    });
+
+    it('should keep the research that succeeded and record the sub-questions that failed', async () => {
+      setLlmProvider(new FailingTexasProvider(fixtures));
+
+      const result = await runResearchPlan(plan, 'Compare rates');
+
+      expect(result.response.key_developments).toHaveLength(fixtures.research.key_developments.length);
+      expect(result.plan.sub_questions[1]).toEqual({ ...plan.sub_questions[1], status: 'failed', error: 'Request timed out' });
+    });
+
+    it('should report each sub-question as it settles, including failures', async () => {
+      setLlmProvider(new FailingTexasProvider(fixtures));
+      const onSettled = jest.fn();
+
+      await runResearchPlan(plan, 'Compare rates', undefined, undefined, onSettled);
+
+      expect(onSettled.mock.calls).toEqual([[1, 2], [2, 2]]);
+    });
+
+    it('should fail when every sub-question fails', async () => {
+      setLlmProvider(new FailingTexasProvider(fixtures));
+
+      await expect(runResearchPlan(
+        { ...plan, sub_questions: [plan.sub_questions[1], { question: 'What about Texas gas?', focus: 'Texas gas' }] },
+        'Compare rates'
+      )).rejects.toThrow('Request timed out');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  buildResearchReport,
+  renderCsvReport,
+  renderHtmlReport,
+  renderMarkdownReport,
+  ResearchReportInput,
+} from '../utils/researchReport';
+
+describe('researchReport', () => {
+  const input = (overrides: Partial<ResearchReportInput> = {}): ResearchReportInput => ({
+    messageId: 'msg_bot',
+    question: 'What changed in Texas electricity rates?',
+    location: 'Texas (TX), Southwest region',
+    generatedAt: new Date('2026-10-01T12:00:00Z'),
+    summary: 'The PUCT approved new rates [1] and ERCOT changed market rules [2].',
+    keyDevelopments: [
+      { number: 1, title: 'PUCT approves rate case', description: 'Rates rise 4% from January [1].', citations: [1, 3] },
+      { number: 2, title: 'ERCOT market rules', description: 'New reliability standard, "firming" required.', citations: [] },
+    ],
+    citations: [
+      { id: 1, title: 'PUCT order', url: 'https://www.puc.texas.gov/order', relevance_score: 9, trust_score: 95 },
+      { id: 2, title: 'ERCOT notice', url: 'https://www.ercot.com/notice', relevance_score: 8 },
+      { id: 3, title: '=Utility news (URL was invalid or inaccessible)', url: '', relevance_score: 5 },
+    ],
+    sourceQuality: null,
+    weaklyGrounded: [2],
+    checks: new Map([
+      [1, { url: 'https://www.puc.texas.gov/order', statusCode: 200, fetchedAt: new Date('2026-10-01T11:59:00Z') }],
+      [3, { url: 'https://news.example.com/rates', statusCode: 404, fetchedAt: new Date('2026-10-01T11:59:00Z') }],
+    ]),
+    checked: true,
+    ...overrides,
+  });
+
+  describe('buildResearchReport', () => {
+    it('should give each source its access status and the URL as cited', () => {
+      const report = buildResearchReport(input());
+
+      expect(report.sources).toEqual([
+        expect.objectContaining({ id: 1, access_status: 'verified', status_code: 200, trust_score: 95 }),
+        expect.objectContaining({ id: 2, access_status: 'unreachable', status_code: null, checked_at: null }),
+        expect.objectContaining({
+          id: 3,
+          title: '=Utility news',
+          url: 'https://news.example.com/rates',
+          access_status: 'failed',
+          status_code: 404,
+        }),
+      ]);
+      expect(report.key_developments[1].weakly_grounded).toBe(true);
+    });
+
+    it('should mark sources of answers without recorded checks as not checked', () => {
+      const report = buildResearchReport(input({ checks: new Map(), checked: false }));
+
+      expect(report.sources.map(source => source.access_status)).toEqual(['not_checked', 'not_checked', 'unreachable']);
+    });
+  });
+
+  describe('renderMarkdownReport', () => {
+    it('should include the question, summary, numbered developments and source list', () => {
+      const markdown = renderMarkdownReport(buildResearchReport(input()));
+
+      expect(markdown).toContain('**Question:** What changed in Texas electricity rates?');
+      expect(markdown).toContain('**Location:** Texas (TX), Southwest region');
+      expect(markdown).toContain('**Generated:** 2026-10-01T12:00:00.000Z');
+      expect(markdown).toContain('The PUCT approved new rates [\\[1\\]](https://www.puc.texas.gov/order)');
+      expect(markdown).toContain('### 1. PUCT approves rate case');
+      expect(markdown).toContain('Sources: [\\[1\\]](https://www.puc.texas.gov/order) [\\[3\\]](https://news.example.com/rates)');
+      expect(markdown).toContain('| 3 | [=Utility news](https://news.example.com/rates) | Failed validation (HTTP 404) |');
+    });
+  });
+
+  describe('renderHtmlReport', () => {
+    it('should escape text and link markers to the source list', () => {
+      const html = renderHtmlReport(buildResearchReport(input({ question: 'Rates <script>alert(1)</script>' })));
+
+      expect(html).toContain('<dd>Rates &lt;script&gt;alert(1)&lt;/script&gt;</dd>');
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('approved new rates <a href="#source-1">[1]</a>');
+      expect(html).toContain('<tr id="source-1"><td>1</td><td><a href="https://www.puc.texas.gov/order">PUCT order</a></td><td>Verified (HTTP 200)</td>');
+    });
+  });
+
+  describe('renderCsvReport', () => {
+    it('should write one row per development and citation pair', () => {
+      const rows = renderCsvReport(buildResearchReport(input())).trim().split('\r\n');
+
+      expect(rows[0]).toBe('development_number,development_title,development_description,citation_id,citation_title,citation_url,'
+        + 'access_status,status_code,authority_tier,trust_score,question,location,generated_at');
+      expect(rows).toHaveLength(4);
+      expect(rows[1]).toMatch(/^1,PUCT approves rate case,Rates rise 4% from January \[1\]\.,1,PUCT order,https:\/\/www\.puc\.texas\.gov\/order,verified,200,,95,/);
+      // Formula-like cells are neutralized
+      expect(rows[2]).toContain(",3,'=Utility news,https://news.example.com/rates,failed,404,");
+      // A development without citations still gets a row, with its quotes escaped
+      expect(rows[3]).toMatch(/^2,ERCOT market rules,"New reliability standard, ""firming"" required\.",,,,,,,,/);
+    });
+  });
+});
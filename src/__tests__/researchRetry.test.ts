@@ -0,0 +1,43 @@
+import { ZodError } from 'zod';
+import { getRetryDelay, isRetryableError } from '../utils/researchRetry';
+import { ResearchCancelledError } from '../utils/researchHelper';
+
+const httpError = (status: number) => Object.assign(new Error(`${status} status code`), { status });
+
+describe('researchRetry', () => {
+  describe('isRetryableError', () => {
+    it('should retry rate limits, timeouts and server errors', () => {
+      expect(isRetryableError(httpError(429))).toBe(true);
+      expect(isRetryableError(httpError(408))).toBe(true);
+      expect(isRetryableError(httpError(503))).toBe(true);
+      expect(isRetryableError(new Error('Request timed out.'))).toBe(true);
+      expect(isRetryableError(new Error('read ECONNRESET'))).toBe(true);
+    });
+
+    it('should retry malformed model output', () => {
+      expect(isRetryableError(new SyntaxError('Unexpected end of JSON input'))).toBe(true);
+      expect(isRetryableError(new ZodError([]))).toBe(true);
+      expect(isRetryableError(new Error('No research response received from LLM provider'))).toBe(true);
+    });
+
+    it('should not retry rejected requests or cancellations', () => {
+      expect(isRetryableError(httpError(400))).toBe(false);
+      expect(isRetryableError(httpError(401))).toBe(false);
+      expect(isRetryableError(new ResearchCancelledError())).toBe(false);
+      expect(isRetryableError(new Error('Invalid prompt'))).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay for each attempt', () => {
+      expect(getRetryDelay(1, () => 1)).toBe(5000);
+      expect(getRetryDelay(2, () => 1)).toBe(10000);
+      expect(getRetryDelay(3, () => 1)).toBe(20000);
+    });
+
+    it('should cap the delay and keep jitter within half of the backoff', () => {
+      expect(getRetryDelay(10, () => 1)).toBe(60000);
+      expect(getRetryDelay(10, () => 0)).toBe(30000);
+    });
+  });
+});
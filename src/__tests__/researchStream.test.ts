@@ -0,0 +1,70 @@
+import { researchStream, createSummaryDeltaReader } from '../utils/researchStream';
+
+describe('researchStream', () => {
+  describe('createSummaryDeltaReader', () => {
+    it('should return nothing until the research_results value starts', () => {
+      const read = createSummaryDeltaReader();
+
+      expect(read('{"research_')).toBe('');
+      expect(read('results": ')).toBe('');
+      expect(read('"The PUC')).toBe('The PUC');
+    });
+
+    it('should return only new text for each chunk', () => {
+      const read = createSummaryDeltaReader();
+
+      expect(read('{"research_results":"Rates ')).toBe('Rates ');
+      expect(read('rose 5%')).toBe('rose 5%');
+      expect(read(' this year.","key_developments":[')).toBe(' this year.');
+      expect(read('{"number":1,"title":"x"}]')).toBe('');
+    });
+
+    it('should decode escape sequences split across chunks', () => {
+      const read = createSummaryDeltaReader();
+
+      expect(read('{"research_results":"Line one\\')).toBe('Line one');
+      expect(read('nLine \\"two\\" \\u00')).toBe('\nLine "two" ');
+      expect(read('e9t\\u00e9"')).toBe('été');
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should deliver events for the subscribed message only', () => {
+      const listener = jest.fn();
+      const unsubscribe = researchStream.subscribe('msg_1', listener);
+
+      const event = {
+        type: 'delta' as const,
+        messageId: 'msg_1',
+        userId: 'user-123',
+        delta: 'Hello',
+        timestamp: new Date().toISOString(),
+      };
+      researchStream.publish(event);
+      researchStream.publish({ ...event, messageId: 'msg_2' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(event);
+
+      unsubscribe();
+      researchStream.publish(event);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deliver every event to subscribeAll listeners', () => {
+      const listener = jest.fn();
+      const unsubscribe = researchStream.subscribeAll(listener);
+
+      researchStream.publish({
+        type: 'failed',
+        messageId: 'msg_3',
+        userId: 'user-123',
+        error: 'boom',
+        timestamp: new Date().toISOString(),
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { ResearchWatchService, WatchLimitReachedError } from '../services/researchWatchService';
+import { NotificationService } from '../services/notificationService';
+import { ConversationDao, MessageDao, NotificationDao, ResearchJobDao, ResearchWatchDao } from '../dao';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+const mockedConversationDao = ConversationDao as jest.Mocked<typeof ConversationDao>;
+const mockedMessageDao = MessageDao as jest.Mocked<typeof MessageDao>;
+const mockedNotificationDao = NotificationDao as jest.Mocked<typeof NotificationDao>;
+const mockedResearchJobDao = ResearchJobDao as jest.Mocked<typeof ResearchJobDao>;
+const mockedResearchWatchDao = ResearchWatchDao as jest.Mocked<typeof ResearchWatchDao>;
+
+describe('ResearchWatchService', () => {
+  const now = new Date('2025-01-01T00:00:00Z');
+
+  const citation = (id: number, url: string) => ({ id, title: `Source ${id}`, url, relevance_score: 8 });
+  const development = (number: number, title: string, description: string, citations: number[]) => ({
+    number,
+    title,
+    description,
+    citations,
+  });
+
+  const baseline = {
+    key_developments: [
+      development(1, 'PUCT adopts ERCOT reliability standard', 'The Public Utility Commission of Texas adopted a reliability standard for ERCOT [1].', [1]),
+    ],
+    citations: [citation(1, 'https://www.puc.texas.gov/reliability')],
+  };
+
+  const storedWatch = (overrides = {}) => ({
+    id: 'watch-1',
+    userId: 'user-123',
+    query: 'Texas PUC ERCOT market rule changes',
+    state: 'TX',
+    cadence: 'daily',
+    active: true,
+    conversationId: 'conv-123',
+    nextRunAt: now,
+    lastRunAt: null,
+    pendingMessageId: null,
+    lastMessageId: null,
+    lastResult: null,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+
+  const completedJob = (result: object) => ({
+    id: 'job-1',
+    messageId: 'msg_run',
+    status: 'completed',
+    attempts: 1,
+    result,
+    error: null,
+    errorHistory: null,
+    nextAttemptAt: null,
+    completedAt: now,
+    updatedAt: now,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedResearchWatchDao.finishRun.mockResolvedValue(true);
+    mockedNotificationDao.create.mockImplementation(async data => ({
+      ...data,
+      data: data.data ?? null,
+      id: 'note-1',
+      deliveredAt: null,
+      readAt: null,
+      createdAt: now,
+      updatedAt: now,
+    }));
+  });
+
+  describe('createWatch', () => {
+    it('should refuse a watch over the per-user limit', async () => {
+      mockedResearchWatchDao.findByUserId.mockResolvedValue(Array.from({ length: 10 }, () => storedWatch()) as any);
+
+      await expect(ResearchWatchService.createWatch('user-123', { query: 'ERCOT', cadence: 'daily' }))
+        .rejects.toBeInstanceOf(WatchLimitReachedError);
+      expect(mockedResearchWatchDao.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startDueRuns', () => {
+    it('should queue research for a claimed watch with its query and state', async () => {
+      mockedResearchWatchDao.findDue.mockResolvedValue([storedWatch()] as any);
+      mockedResearchWatchDao.claimRun.mockResolvedValue(true);
+      mockedConversationDao.findByIdForUser.mockResolvedValue({ id: 'conv-123' } as any);
+      mockedResearchJobDao.create.mockResolvedValue({} as any);
+
+      await expect(ResearchWatchService.startDueRuns(5)).resolves.toBe(1);
+
+      const [watchId, messageId, nextRunAt] = mockedResearchWatchDao.claimRun.mock.calls[0];
+      expect(watchId).toBe('watch-1');
+      expect(nextRunAt.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000);
+      expect(mockedMessageDao.create).toHaveBeenCalledWith(expect.objectContaining({
+        messageId,
+        content: 'Texas PUC ERCOT market rule changes',
+        conversationId: 'conv-123',
+      }));
+      expect(mockedResearchJobDao.create).toHaveBeenCalledWith(expect.objectContaining({
+        messageId,
+        input: [{ role: 'user', content: 'Texas PUC ERCOT market rule changes' }],
+        location: { state: 'TX', region: 'southwest' },
+        watchId: 'watch-1',
+      }));
+    });
+
+    it('should skip a watch another server claimed first', async () => {
+      mockedResearchWatchDao.findDue.mockResolvedValue([storedWatch()] as any);
+      mockedResearchWatchDao.claimRun.mockResolvedValue(false);
+
+      await expect(ResearchWatchService.startDueRuns(5)).resolves.toBe(0);
+      expect(mockedResearchJobDao.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('collectFinishedRuns', () => {
+    let notify: jest.SpyInstance;
+
+    beforeEach(() => {
+      notify = jest.spyOn(NotificationService, 'notify');
+    });
+
+    it('should set the baseline on the first run without notifying', async () => {
+      mockedResearchWatchDao.findWithPendingRun.mockResolvedValue([storedWatch({ pendingMessageId: 'msg_run' })] as any);
+      mockedResearchJobDao.findByMessageId.mockResolvedValue(completedJob(baseline) as any);
+
+      await expect(ResearchWatchService.collectFinishedRuns()).resolves.toBe(1);
+      expect(mockedResearchWatchDao.finishRun).toHaveBeenCalledWith('watch-1', 'msg_run', {
+        lastResult: baseline,
+        lastMessageId: 'msg_run',
+        lastError: null,
+      });
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('should notify the user of new developments and sources', async () => {
+      mockedResearchWatchDao.findWithPendingRun.mockResolvedValue([
+        storedWatch({ pendingMessageId: 'msg_run', lastResult: baseline }),
+      ] as any);
+      mockedResearchJobDao.findByMessageId.mockResolvedValue(completedJob({
+        key_developments: [
+          ...baseline.key_developments,
+          development(2, 'ERCOT real-time co-optimization approved', 'Regulators approved real-time co-optimization for the ERCOT market [2].', [2]),
+        ],
+        citations: [...baseline.citations, citation(2, 'https://www.ercot.com/rtc')],
+      }) as any);
+
+      await ResearchWatchService.collectFinishedRuns();
+
+      expect(notify).toHaveBeenCalledWith('user-123', expect.objectContaining({
+        type: 'watch_update',
+        body: expect.stringContaining('New: #2 ERCOT real-time co-optimization approved'),
+        data: expect.objectContaining({ watch_id: 'watch-1', message_id: 'msg_run', added: 1, new_citations: ['https://www.ercot.com/rtc'] }),
+      }));
+    });
+
+    it('should not notify when nothing is new', async () => {
+      mockedResearchWatchDao.findWithPendingRun.mockResolvedValue([
+        storedWatch({ pendingMessageId: 'msg_run', lastResult: baseline }),
+      ] as any);
+      mockedResearchJobDao.findByMessageId.mockResolvedValue(completedJob(baseline) as any);
+
+      await ResearchWatchService.collectFinishedRuns();
+
+      expect(mockedResearchWatchDao.finishRun).toHaveBeenCalled();
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('should not notify when only new sources turned up', async () => {
+      mockedResearchWatchDao.findWithPendingRun.mockResolvedValue([
+        storedWatch({ pendingMessageId: 'msg_run', lastResult: baseline }),
+      ] as any);
+      mockedResearchJobDao.findByMessageId.mockResolvedValue(completedJob({
+        ...baseline,
+        citations: [...baseline.citations, citation(2, 'https://www.ercot.com/rtc')],
+      }) as any);
+
+      await ResearchWatchService.collectFinishedRuns();
+
+      expect(mockedResearchWatchDao.finishRun).toHaveBeenCalled();
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('should leave runs that are still researching', async () => {
+      mockedResearchWatchDao.findWithPendingRun.mockResolvedValue([storedWatch({ pendingMessageId: 'msg_run' })] as any);
+      mockedResearchJobDao.findByMessageId.mockResolvedValue({ ...completedJob({}), status: 'running', completedAt: null } as any);
+
+      await expect(ResearchWatchService.collectFinishedRuns()).resolves.toBe(0);
+      expect(mockedResearchWatchDao.finishRun).not.toHaveBeenCalled();
+    });
+  });
+});
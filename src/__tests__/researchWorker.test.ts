@@ -0,0 +1,87 @@
+import { ResearchWorker } from '../services/researchWorker';
+import { ResearchCacheDao, ResearchJobDao } from '../dao';
+import { performResearch } from '../utils/researchHelper';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+jest.mock('../utils/researchHelper', () => ({
+  ...jest.requireActual('../utils/researchHelper'),
+  performResearch: jest.fn(),
+}));
+
+const mockedResearchJobDao = ResearchJobDao as jest.Mocked<typeof ResearchJobDao>;
+const mockedResearchCacheDao = ResearchCacheDao as jest.Mocked<typeof ResearchCacheDao>;
+const mockedPerformResearch = performResearch as jest.MockedFunction<typeof performResearch>;
+
+describe('ResearchWorker', () => {
+  const job = {
+    id: 'job-123',
+    messageId: 'msg_123',
+    status: 'running',
+    attempts: 1,
+    input: [{ role: 'user', content: 'What are the new ComEd rates?' }],
+    userLocation: 'IL',
+    location: { state: 'IL', region: 'midwest' },
+    userId: 'user-123',
+    conversationId: null,
+    parentMessageId: null,
+    parentDevelopment: null,
+    refreshOfMessageId: null,
+    watchId: null,
+    cacheKey: null,
+    errorHistory: null,
+  };
+
+  let worker: ResearchWorker;
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    mockedResearchJobDao.requeueExpired.mockResolvedValue(0);
+    mockedResearchJobDao.findCancelledIds.mockResolvedValue([]);
+    mockedResearchJobDao.claimPending.mockResolvedValue([]);
+    mockedResearchJobDao.renewLeases.mockResolvedValue(1);
+    mockedResearchJobDao.releaseByWorker.mockResolvedValue(0);
+    mockedResearchCacheDao.deleteExpired.mockResolvedValue(0);
+    worker = new ResearchWorker();
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    jest.useRealTimers();
+  });
+
+  it('should requeue jobs with expired leases on every poll, not only at start', async () => {
+    await worker.start();
+    await flush();
+    jest.advanceTimersByTime(2000);
+    await flush();
+
+    expect(mockedResearchJobDao.requeueExpired).toHaveBeenCalledTimes(2);
+  });
+
+  it('should renew the lease of a running job until it finishes', async () => {
+    let finish: () => void = () => undefined;
+    mockedPerformResearch.mockReturnValue(new Promise((_, reject) => {
+      finish = () => reject(new Error('Invalid request'));
+    }));
+    mockedResearchJobDao.claimPending.mockResolvedValueOnce([job as any]);
+    mockedResearchJobDao.updateIfLockedBy.mockResolvedValue(true);
+
+    await worker.start();
+    await flush();
+    jest.advanceTimersByTime(150000);
+    await flush();
+
+    expect(mockedResearchJobDao.renewLeases).toHaveBeenCalledWith(['job-123'], worker.workerId);
+
+    finish();
+    await flush();
+    mockedResearchJobDao.renewLeases.mockClear();
+    jest.advanceTimersByTime(150000);
+    await flush();
+
+    expect(mockedResearchJobDao.renewLeases).not.toHaveBeenCalled();
+  });
+});
@@ -4,6 +4,7 @@
 process.env.JWT_SECRET = 'test-jwt-secret';
 process.env.OPENAI_API_KEY = 'test-openai-key';
 process.env.DATABASE_URL = 'test-database-url';
+process.env.LLM_PROVIDER = 'stub';
 
 // Mock console methods to reduce noise in tests
 const originalConsole = global.console;
@@ -34,11 +35,16 @@ jest.mock('../db/config', () => ({
 jest.mock('../dao', () => ({
   MessageDao: {
     create: jest.fn(),
+    upsert: jest.fn(),
+    updateByMessageId: jest.fn(),
+    appendToMetadataList: jest.fn(),
     findByMessageId: jest.fn(),
     findBySessionId: jest.fn(),
     findByUserId: jest.fn(),
     findRecent: jest.fn(),
+    findByConversationId: jest.fn(),
     deleteById: jest.fn(),
+    deleteByConversationId: jest.fn(),
   },
   ApiCallDao: {
     create: jest.fn(),
@@ -53,6 +59,77 @@ jest.mock('../dao', () => ({
     findByEmail: jest.fn(),
     existsByEmail: jest.fn(),
   },
+  ResearchJobDao: {
+    create: jest.fn(),
+    update: jest.fn(),
+    updateIfLockedBy: jest.fn(),
+    findById: jest.fn(),
+    findByMessageId: jest.fn(),
+    claimPending: jest.fn(),
+    cancel: jest.fn(),
+    findCancelledIds: jest.fn(),
+    releaseByWorker: jest.fn(),
+    renewLeases: jest.fn(),
+    requeueExpired: jest.fn(),
+  },
+  ConversationDao: {
+    create: jest.fn(),
+    update: jest.fn(),
+    findById: jest.fn(),
+    findByIdForUser: jest.fn(),
+    findByUserId: jest.fn(),
+    deleteById: jest.fn(),
+  },
+  ResearchCacheDao: {
+    upsert: jest.fn(),
+    findValidByKey: jest.fn(),
+    incrementHits: jest.fn(),
+    deleteByKey: jest.fn(),
+    deleteByState: jest.fn(),
+    deleteExpired: jest.fn(),
+  },
+  UserPreferencesDao: {
+    findByUserId: jest.fn(),
+    upsert: jest.fn(),
+  },
+  IdempotencyKeyDao: {
+    reserve: jest.fn(),
+    findByKeyHash: jest.fn(),
+    complete: jest.fn(),
+    deleteByKeyHash: jest.fn(),
+    deleteExpired: jest.fn(),
+  },
+  CitationSnapshotDao: {
+    createMany: jest.fn(),
+    deleteByMessageId: jest.fn(),
+    findByMessageAndCitation: jest.fn(),
+    findByMessageId: jest.fn(),
+    findByResearchMessageId: jest.fn(),
+  },
+  ResearchWatchDao: {
+    create: jest.fn(),
+    update: jest.fn(),
+    findById: jest.fn(),
+    findByIdForUser: jest.fn(),
+    findByUserId: jest.fn(),
+    findDue: jest.fn(),
+    findWithPendingRun: jest.fn(),
+    claimRun: jest.fn(),
+    finishRun: jest.fn(),
+    deleteById: jest.fn(),
+  },
+  NotificationDao: {
+    create: jest.fn(),
+    findByUserId: jest.fn(),
+    findUndelivered: jest.fn(),
+    markDelivered: jest.fn(),
+    markRead: jest.fn(),
+  },
+  LlmUsageDao: {
+    create: jest.fn(),
+    sumForUser: jest.fn(),
+    summarize: jest.fn(),
+  },
 }));
 
 
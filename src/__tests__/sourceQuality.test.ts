@@ -0,0 +1,101 @@
+import { getDomainTier, getTrustScore, gradeSources } from '../utils/sourceQuality';
+import { formatResearchMessage } from '../utils/researchHelper';
+import type { Citation } from '../utils/researchSchemas';
+
+describe('sourceQuality', () => {
+  const citation = (id: number, url: string, relevance = 8): Citation => {
+    const domainTier = getDomainTier(url);
+    return {
+      id,
+      title: `Source ${id}`,
+      url,
+      relevance_score: relevance,
+      domain_tier: domainTier,
+      trust_score: getTrustScore(domainTier, relevance),
+    };
+  };
+
+  describe('getDomainTier', () => {
+    it('should classify registered regulators by kind', () => {
+      expect(getDomainTier('https://www.icc.illinois.gov/rates')).toBe('state_puc');
+      expect(getDomainTier('https://www.ferc.gov/news')).toBe('federal_agency');
+      expect(getDomainTier('https://www.pjm.com/markets')).toBe('iso_rto');
+    });
+
+    it('should recognize utilities and news sites', () => {
+      expect(getDomainTier('https://www.comed.com/my-account')).toBe('utility');
+      expect(getDomainTier('https://www.utilitydive.com/news/comed-rates/')).toBe('news');
+      expect(getDomainTier('https://someblog.example.com/post')).toBe('other');
+      expect(getDomainTier('')).toBe('other');
+    });
+  });
+
+  describe('getTrustScore', () => {
+    it('should blend the tier with the relevance score', () => {
+      expect(getTrustScore('state_puc', 10)).toBe(100);
+      expect(getTrustScore('other', 10)).toBe(58);
+      expect(getTrustScore('state_puc', 10)).toBeGreaterThan(getTrustScore('news', 10));
+    });
+
+    it('should penalize inaccessible sources', () => {
+      expect(getTrustScore('state_puc', 10, false)).toBe(50);
+    });
+  });
+
+  describe('gradeSources', () => {
+    it('should grade answers built on regulators highly', () => {
+      const quality = gradeSources([
+        citation(1, 'https://www.icc.illinois.gov/rates', 9),
+        citation(2, 'https://www.ferc.gov/news', 8),
+      ]);
+
+      expect(quality.grade).toBe('A');
+      expect(quality.authoritative_share).toBe(1);
+      expect(quality.low_authority).toBe(false);
+    });
+
+    it('should flag answers that rely mainly on low-tier sources', () => {
+      const citations = [
+        citation(1, 'https://www.icc.illinois.gov/rates', 9),
+        citation(2, 'https://someblog.example.com/post', 9),
+      ];
+      const keyDevelopments = [
+        { number: 1, title: 'Rates', description: 'Rates rose.', citations: [2] },
+        { number: 2, title: 'Plan', description: 'A plan was filed.', citations: [2] },
+      ];
+
+      const quality = gradeSources(citations, keyDevelopments);
+
+      expect(quality.authoritative_share).toBe(0.25);
+      expect(quality.low_authority).toBe(true);
+    });
+
+    it('should not count an authoritative citation that failed validation as authoritative', () => {
+      const unreachable = citation(1, 'https://www.icc.illinois.gov/rates', 9);
+      const citations = [
+        { ...unreachable, url: '', trust_score: getTrustScore('state_puc', 9, false) },
+        citation(2, 'https://www.utilitydive.com/news/comed-rates/', 8),
+      ];
+
+      const quality = gradeSources(citations);
+
+      expect(citations[0].domain_tier).toBe('state_puc');
+      expect(quality.authoritative_share).toBe(0);
+      expect(quality.low_authority).toBe(true);
+    });
+
+    it('should flag answers without citations', () => {
+      expect(gradeSources([])).toEqual({ grade: 'D', score: 0, authoritative_share: 0, low_authority: true });
+    });
+  });
+
+  describe('formatResearchMessage', () => {
+    it('should append a notice to low-authority answers only', () => {
+      const lowAuthority = gradeSources([citation(1, 'https://someblog.example.com/post')]);
+      const authoritative = gradeSources([citation(1, 'https://www.icc.illinois.gov/rates')]);
+
+      expect(formatResearchMessage('Summary', [], lowAuthority)).toMatch(/^Summary\n\nNote: Most of the sources/);
+      expect(formatResearchMessage('Summary', [], authoritative)).toBe('Summary');
+    });
+  });
+});
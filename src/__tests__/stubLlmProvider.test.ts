@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { StubLlmProvider, createLlmProvider, getLlmProvider } from '../llm';
+import { ResearchResponseSchema } from '../utils/researchSchemas';
+
+describe('StubLlmProvider', () => {
+  const fixtures = {
+    scope: {
+      in_scope: false,
+      topic_category: null,
+      state: null,
+      utility: null,
+      intent: null,
+      out_of_scope_reason: 'not_energy_related' as const,
+    },
+    research: {
+      research_results: 'Summary of Texas rates',
+      key_developments: [
+        { number: 1, title: 'PUCT order', description: 'The PUCT issued an order.', citations: [1] },
+      ],
+      citations: [
+        { id: 1, title: 'PUCT', url: 'https://www.puc.texas.gov', relevance_score: 9 },
+      ],
+    },
+    parse: {
+      answer: { response: 'Hello', confidence_score: 80 },
+    },
+  };
+
+  it('should be selected by the LLM_PROVIDER environment variable', () => {
+    expect(getLlmProvider().name).toBe('stub');
+    expect(createLlmProvider('stub')).toBeInstanceOf(StubLlmProvider);
+    expect(() => createLlmProvider('unknown')).toThrow('Unknown LLM provider: unknown');
+  });
+
+  it('should return a schema-valid research payload from the bundled fixtures', async () => {
+    const provider = new StubLlmProvider();
+
+    const result = await provider.research({ input: 'User: What are the new ComEd rates?' });
+
+    expect(() => ResearchResponseSchema.parse(result)).not.toThrow();
+    expect(result!.citations.length).toBeGreaterThan(0);
+  });
+
+  it('should return the canned scope classification', async () => {
+    const provider = new StubLlmProvider(fixtures);
+
+    await expect(provider.classifyScope('What is the weather?')).resolves.toEqual(fixtures.scope);
+  });
+
+  it('should stream the serialized research payload through onTextDelta', async () => {
+    const provider = new StubLlmProvider(fixtures);
+    const chunks: string[] = [];
+
+    const result = await provider.research({
+      input: 'Texas rates',
+      onTextDelta: chunk => chunks.push(chunk),
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(JSON.parse(chunks.join(''))).toEqual(result);
+  });
+
+  it('should stop streaming when the request is aborted', async () => {
+    const provider = new StubLlmProvider(fixtures);
+    const controller = new AbortController();
+
+    const research = provider.research({
+      input: 'Texas rates',
+      onTextDelta: () => controller.abort(),
+      signal: controller.signal,
+    });
+
+    await expect(research).rejects.toThrow('Request was aborted.');
+  });
+
+  it('should validate canned structured outputs against the requested schema', async () => {
+    const provider = new StubLlmProvider(fixtures);
+    const schema = z.object({ response: z.string(), confidence_score: z.number() });
+
+    const result = await provider.parse({ schema, name: 'answer', instructions: '', input: 'Hi' });
+
+    expect(result).toEqual({ response: 'Hello', confidence_score: 80 });
+  });
+
+  it('should throw when no fixture exists for a structured output', async () => {
+    const provider = new StubLlmProvider(fixtures);
+    const schema = z.object({ value: z.string() });
+
+    await expect(
+      provider.parse({ schema, name: 'missing', instructions: '', input: 'Hi' })
+    ).rejects.toThrow('No stub fixture found for structured output "missing"');
+  });
+});
@@ -0,0 +1,186 @@
+import { EventEmitter } from 'events';
+import { createServer, Server } from 'http';
+import WebSocket from 'ws';
+import { WebSocketService } from '../services/webSocketService';
+import { AuthService } from '../services/authService';
+import { NotificationService } from '../services/notificationService';
+import { researchStream } from '../utils/researchStream';
+import { MessageType } from '../utils/types';
+
+// Mock dependencies
+jest.mock('../dao');
+jest.mock('../utils/logger');
+
+type FakeSocket = EventEmitter & { readyState: number; send: jest.Mock; close: jest.Mock };
+
+describe('WebSocketService', () => {
+  let server: Server;
+  let service: WebSocketService;
+  let sockets: FakeSocket[];
+
+  const connect = async (sessionId: string): Promise<FakeSocket> => {
+    const socket = Object.assign(new EventEmitter(), {
+      readyState: WebSocket.OPEN,
+      send: jest.fn(),
+      close: jest.fn(),
+    });
+    jest.spyOn(AuthService, 'verifyToken').mockReturnValue({ userId: 'user-123', sessionId });
+
+    // ws is mocked, so connections are handed to the handler the service registered
+    const [, onConnection] = ((service as any).wss.on as jest.Mock).mock.calls.find(([event]) => event === 'connection');
+    onConnection(socket, {});
+    socket.emit('message', Buffer.from(JSON.stringify({ type: 'auth', token: 'token' })));
+    await new Promise(resolve => setImmediate(resolve));
+
+    // Only frames sent after every socket has joined are of interest
+    sockets.push(socket);
+    sockets.forEach(joined => joined.send.mockClear());
+    return socket;
+  };
+
+  const sent = (socket: FakeSocket) => socket.send.mock.calls.map(([data]) => JSON.parse(data));
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    sockets = [];
+    jest.spyOn(NotificationService, 'deliverPending').mockResolvedValue(0);
+    server = createServer();
+    service = new WebSocketService(server);
+  });
+
+  afterEach(() => {
+    service.close();
+    jest.useRealTimers();
+  });
+
+  it('should deliver a finished answer to every socket in the room as it completes', async () => {
+    const first = await connect('session-1');
+    const second = await connect('session-2');
+
+    researchStream.publish({
+      type: 'completed',
+      messageId: 'msg_user',
+      userId: 'user-123',
+      conversationId: 'conv-123',
+      result: {
+        id: 'msg_user',
+        status: 'completed',
+        bot_message_id: 'msg_user_answer',
+        research_results: 'Rates rise in January [1].',
+        key_developments: [],
+        citations: [],
+        timestamp: '2026-10-19T12:00:00.000Z',
+      },
+      timestamp: '2026-10-19T12:00:00.000Z',
+    });
+
+    [first, second].forEach(socket => {
+      expect(sent(socket)).toEqual([
+        expect.objectContaining({ type: 'research_update', message_id: 'msg_user', research_pending: false }),
+        expect.objectContaining({ type: MessageType.AI_TYPING }),
+        expect.objectContaining({
+          type: MessageType.BOT_MESSAGE,
+          content: 'Rates rise in January [1].',
+          message_id: 'msg_user_answer',
+          research_message_id: 'msg_user',
+          conversation_id: 'conv-123',
+        }),
+      ]);
+    });
+  });
+
+  it('should leave watch runs to their notification', async () => {
+    const socket = await connect('session-1');
+
+    researchStream.publish({
+      type: 'completed',
+      messageId: 'msg_run',
+      userId: 'user-123',
+      conversationId: 'conv-watch',
+      watchId: 'watch-1',
+      result: {
+        id: 'msg_run',
+        status: 'completed',
+        bot_message_id: 'msg_run_answer',
+        research_results: 'Nothing new on ERCOT market rules.',
+        key_developments: [],
+        citations: [],
+        timestamp: '2026-10-19T12:00:00.000Z',
+      },
+      timestamp: '2026-10-19T12:00:00.000Z',
+    });
+    researchStream.publish({
+      type: 'failed',
+      messageId: 'msg_run_2',
+      userId: 'user-123',
+      watchId: 'watch-1',
+      error: 'Request timed out',
+      timestamp: '2026-10-19T12:00:00.000Z',
+    });
+
+    expect(socket.send).not.toHaveBeenCalled();
+  });
+
+  it('should still deliver the answer after the socket that asked has closed', async () => {
+    const asking = await connect('session-1');
+    const other = await connect('session-2');
+    asking.readyState = WebSocket.CLOSED;
+    asking.emit('close');
+
+    researchStream.publish({
+      type: 'failed',
+      messageId: 'msg_user',
+      userId: 'user-123',
+      error: 'Request timed out',
+      timestamp: '2026-10-19T12:00:00.000Z',
+    });
+
+    expect(asking.send).not.toHaveBeenCalled();
+    expect(sent(other)).toEqual([
+      expect.objectContaining({
+        type: MessageType.BOT_MESSAGE,
+        content: 'Additional research could not be completed.',
+        message_id: 'msg_user',
+        error: 'Request timed out',
+      }),
+    ]);
+  });
+
+  it('should forward start and progress events as research updates', async () => {
+    const socket = await connect('session-1');
+
+    researchStream.publish({
+      type: 'started',
+      messageId: 'msg_user',
+      userId: 'user-123',
+      attempt: 1,
+      timestamp: '2026-10-19T12:00:00.000Z',
+    });
+    researchStream.publish({
+      type: 'progress',
+      messageId: 'msg_user',
+      userId: 'user-123',
+      stage: 'validating_citations',
+      completed: 2,
+      total: 5,
+      timestamp: '2026-10-19T12:00:01.000Z',
+    });
+    researchStream.publish({
+      type: 'progress',
+      messageId: 'msg_other',
+      userId: 'user-456',
+      stage: 'planning',
+      timestamp: '2026-10-19T12:00:01.000Z',
+    });
+
+    expect(sent(socket)).toEqual([
+      expect.objectContaining({ type: 'research_update', status: 'running', research_pending: true, attempt: 1 }),
+      expect.objectContaining({
+        type: 'research_update',
+        status: 'running',
+        stage: 'validating_citations',
+        progress: { completed: 2, total: 5 },
+      }),
+    ]);
+  });
+});
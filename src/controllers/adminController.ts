@@ -0,0 +1,102 @@
+import { Request, Response } from 'express';
+import { LlmUsageService, ResearchCacheService, USAGE_GROUP_BYS } from '../services';
+import type { UsageGroupBy } from '../dao';
+import { logger } from '../utils/logger';
+
+export class AdminController {
+  /**
+   * Purge a single research cache entry by key
+   */
+  static async purgeResearchCacheKey(req: Request, res: Response): Promise<void> {
+    try {
+      const purged = await ResearchCacheService.purgeByKey(req.params.key);
+
+      res.json({
+        success: true,
+        purged,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error purging research cache entry:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while purging the research cache.',
+      });
+    }
+  }
+
+  /**
+   * Purge the research cache entry for a question, or every entry for a state
+   */
+  static async purgeResearchCache(req: Request, res: Response): Promise<void> {
+    try {
+      const { question, state } = req.query;
+      const hasQuestion = typeof question === 'string' && question.trim().length > 0;
+      const hasState = typeof state === 'string' && state.trim().length > 0;
+      if (!hasQuestion && !hasState) {
+        res.status(400).json({
+          success: false,
+          error: 'question or state query parameter is required',
+        });
+        return;
+      }
+
+      const purged = hasQuestion
+        ? await ResearchCacheService.purgeByQuestion(question as string, hasState ? state as string : null)
+        : await ResearchCacheService.purgeByState(state as string);
+
+      res.json({
+        success: true,
+        purged,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error purging research cache by state:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while purging the research cache.',
+      });
+    }
+  }
+
+  /**
+   * Report LLM usage across users. Defaults to the current UTC month grouped by user.
+   */
+  static async getUsageReport(req: Request, res: Response): Promise<void> {
+    try {
+      const groupBy = (req.query.group_by || 'user') as UsageGroupBy;
+      if (!USAGE_GROUP_BYS.includes(groupBy)) {
+        res.status(400).json({
+          success: false,
+          error: `group_by must be one of: ${USAGE_GROUP_BYS.join(', ')}`,
+        });
+        return;
+      }
+
+      const now = new Date();
+      const from = typeof req.query.from === 'string' ? new Date(req.query.from) : LlmUsageService.periodStart('month', now);
+      const to = typeof req.query.to === 'string' ? new Date(req.query.to) : now;
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        res.status(400).json({
+          success: false,
+          error: 'from and to must be dates, with from before to',
+        });
+        return;
+      }
+
+      const report = await LlmUsageService.getUsageReport(from, to, groupBy);
+
+      res.json({
+        success: true,
+        report,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error building usage report:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while building the usage report.',
+      });
+    }
+  }
+}
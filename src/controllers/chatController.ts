@@ -1,26 +1,101 @@
 import { Request, Response } from 'express';
-import { ChatService, ChatRequest } from '../services';
-import { getResearchResult, cleanupResearchResult } from '../utils/researchHelper';
+import { ChatService, ChatRequest, ChatResponse, ResearchJobService, ConversationNotFoundError, IdempotencyService, CitationSnapshotService, KeyDevelopmentNotFoundError, ResearchAnswerNotFoundError, QuotaExceededError, ResearchExportService } from '../services';
+import { ResearchResult } from '../utils/researchHelper';
+import { isReportFormat, REPORT_FORMATS } from '../utils/researchReport';
+import { BIBLIOGRAPHY_FORMATS, isBibliographyFormat } from '../utils/bibliography';
+import { researchStream, ResearchStreamEvent } from '../utils/researchStream';
 import { extractRequestInfo } from '../utils/helpers';
 import { logger } from '../utils/logger';
 
+const SSE_HEARTBEAT_INTERVAL = 15000; // 15 seconds
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
 export class ChatController {
   /**
-   * Handle chat message requests
+   * Handle chat message requests.
+   * With an Idempotency-Key header, a retry with the same key and body gets the original
+   * response back instead of creating a new message and research run.
    */
   static async sendMessage(req: Request, res: Response): Promise<void> {
+    let idempotencyKeyHash: string | null = null;
+
     try {
       const requestInfo = extractRequestInfo(req);
       const chatRequest: ChatRequest = req.body;
 
+      const idempotencyKey = req.get('Idempotency-Key')?.trim();
+      if (idempotencyKey !== undefined) {
+        if (!idempotencyKey || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+          res.status(400).json({
+            success: false,
+            error: `Idempotency-Key must be between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+          });
+          return;
+        }
+
+        const scope = requestInfo.userId || `anonymous:${requestInfo.ipAddress || 'unknown'}`;
+        const check = await IdempotencyService.begin<ChatResponse>(idempotencyKey, scope, chatRequest);
+        if (check.status === 'mismatch') {
+          res.status(422).json({
+            success: false,
+            error: 'Idempotency-Key was already used with a different request body',
+          });
+          return;
+        }
+        if (check.status === 'in_progress') {
+          res.status(409).json({
+            success: false,
+            error: 'A request with this Idempotency-Key is still being processed',
+          });
+          return;
+        }
+        if (check.status === 'replay') {
+          res.setHeader('Idempotent-Replayed', 'true');
+          res.json(check.response);
+          return;
+        }
+        idempotencyKeyHash = check.keyHash;
+      }
+
       const response = await ChatService.processChatRequest(
         chatRequest,
         requestInfo.userId,
         requestInfo.sessionId
       );
 
+      // Only successful responses are replayed; after a failure the client may retry with the key
+      if (idempotencyKeyHash) {
+        if (response.success) {
+          await IdempotencyService.complete(idempotencyKeyHash, response.message_id, response);
+        } else {
+          await IdempotencyService.release(idempotencyKeyHash);
+        }
+      }
+
       res.json(response);
     } catch (error) {
+      // Nothing was stored for the key, so the client may retry with it
+      if (idempotencyKeyHash) {
+        await IdempotencyService.release(idempotencyKeyHash);
+      }
+
+      if (error instanceof QuotaExceededError) {
+        res.status(429).json({
+          success: false,
+          error: error.message,
+          quota: error.quota,
+        });
+        return;
+      }
+
+      if (error instanceof ConversationNotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Conversation not found',
+        });
+        return;
+      }
+
       logger.error('Error in chat controller:', error);
       
       let statusCode = 500;
@@ -50,7 +125,8 @@ export class ChatController {
   static async getResearchStatus(req: Request, res: Response): Promise<void> {
     try {
       const { messageId } = req.params;
-      const result = getResearchResult(messageId);
+      const { userId } = extractRequestInfo(req);
+      const result = await ResearchJobService.getResearchResultForUser(messageId, userId);
       
       if (!result) {
         res.status(404).json({
@@ -74,13 +150,204 @@ export class ChatController {
     }
   }
 
+  /**
+   * Cancel in-flight research for a message
+   */
+  static async cancelResearch(req: Request, res: Response): Promise<void> {
+    try {
+      const { messageId } = req.params;
+      const { userId } = extractRequestInfo(req);
+      const result = await ResearchJobService.cancel(messageId, userId);
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: 'Research result not found',
+        });
+        return;
+      }
+
+      if (result.status !== 'cancelled') {
+        res.status(409).json({
+          success: false,
+          error: `Research can no longer be cancelled (status: ${result.status})`,
+          result,
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error cancelling research:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while cancelling research.',
+      });
+    }
+  }
+
+  /**
+   * Stream research output for a message as Server-Sent Events.
+   * Emits `delta` events while the summary is generated, a `retrying` event when an
+   * attempt fails and will run again, and closes with a `completed` (full structured
+   * result), `failed` or `cancelled` event.
+   */
+  static async streamResearch(req: Request, res: Response): Promise<void> {
+    const { messageId } = req.params;
+    const { userId } = extractRequestInfo(req);
+    let unsubscribe: (() => void) | null = null;
+    let heartbeat: NodeJS.Timeout | null = null;
+    let closed = false;
+
+    const cleanup = () => {
+      if (unsubscribe) unsubscribe();
+      if (heartbeat) clearInterval(heartbeat);
+      unsubscribe = null;
+      heartbeat = null;
+    };
+
+    const writeEvent = (event: string, data: any) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const writeFinalEvent = (result: ResearchResult) => {
+      writeEvent(result.status === 'completed' || result.status === 'cancelled' ? result.status : 'failed', {
+        message_id: messageId,
+        result,
+        timestamp: new Date().toISOString(),
+      });
+      cleanup();
+      res.end();
+    };
+
+    const handleEvent = (event: ResearchStreamEvent) => {
+      if (res.writableEnded) return;
+
+      if (event.type === 'started') {
+        writeEvent('status', {
+          message_id: messageId,
+          status: 'running',
+          attempt: event.attempt,
+          timestamp: event.timestamp,
+        });
+      } else if (event.type === 'progress') {
+        writeEvent('progress', {
+          message_id: messageId,
+          stage: event.stage,
+          ...(event.total !== undefined && { progress: { completed: event.completed || 0, total: event.total } }),
+          timestamp: event.timestamp,
+        });
+      } else if (event.type === 'delta') {
+        writeEvent('delta', {
+          message_id: messageId,
+          content: event.delta,
+          timestamp: event.timestamp,
+        });
+      } else if (event.type === 'retrying') {
+        writeEvent('retrying', {
+          message_id: messageId,
+          attempt: event.attempt,
+          max_attempts: event.maxAttempts,
+          error: event.error,
+          next_attempt_at: event.nextAttemptAt,
+          timestamp: event.timestamp,
+        });
+      } else if (event.type === 'completed') {
+        writeFinalEvent(event.result);
+      } else if (event.type === 'cancelled') {
+        writeFinalEvent({
+          id: messageId,
+          status: 'cancelled',
+          timestamp: event.timestamp,
+        });
+      } else if (event.type === 'failed') {
+        writeFinalEvent({
+          id: messageId,
+          status: 'failed',
+          error: event.error,
+          timestamp: event.timestamp,
+        });
+      }
+    };
+
+    // Listen for the client leaving before anything is awaited, so a disconnect during the lookup still unsubscribes
+    req.on('close', () => {
+      closed = true;
+      cleanup();
+    });
+
+    try {
+      // Subscribe before reading the current state so no events are missed in between
+      const buffered: ResearchStreamEvent[] = [];
+      let ready = false;
+      unsubscribe = researchStream.subscribe(messageId, (event) => {
+        if (ready) {
+          handleEvent(event);
+        } else {
+          buffered.push(event);
+        }
+      });
+
+      const result = await ResearchJobService.getResearchResultForUser(messageId, userId);
+      if (closed) return;
+      if (!result) {
+        cleanup();
+        res.status(404).json({
+          success: false,
+          error: 'Research result not found',
+        });
+        return;
+      }
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      if (result.status === 'completed' || result.status === 'failed' || result.status === 'cancelled') {
+        writeFinalEvent(result);
+        return;
+      }
+
+      writeEvent('status', {
+        message_id: messageId,
+        status: result.status,
+        timestamp: new Date().toISOString(),
+      });
+
+      ready = true;
+      buffered.forEach(handleEvent);
+      if (res.writableEnded) return;
+
+      heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_INTERVAL);
+    } catch (error) {
+      cleanup();
+      logger.error('Error streaming research result:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: 'An error occurred while streaming research result.',
+        });
+      } else {
+        res.end();
+      }
+    }
+  }
+
   /**
    * Get combined message result (original response + research)
    */
   static async getMessageResult(req: Request, res: Response): Promise<void> {
     try {
       const { messageId } = req.params;
-      const result = getResearchResult(messageId);
+      const { userId } = extractRequestInfo(req);
+      const result = await ResearchJobService.getResearchResultForUser(messageId, userId);
       
       if (!result) {
         res.status(404).json({
@@ -92,9 +359,6 @@ export class ChatController {
       
       // If research is completed, return combined result
       if (result.status === 'completed') {
-        // Clean up after retrieving
-        cleanupResearchResult(messageId);
-        
         res.json({
           success: true,
           response: {
@@ -123,6 +387,204 @@ export class ChatController {
     }
   }
 
+  /**
+   * Queue follow-up research on one numbered key development of a research answer.
+   * Progress is reported under the returned message_id like any other research.
+   */
+  static async expandDevelopment(req: Request, res: Response): Promise<void> {
+    try {
+      const { messageId } = req.params;
+      const developmentNumber = Number(req.params.number);
+
+      if (!Number.isInteger(developmentNumber) || developmentNumber < 1) {
+        res.status(400).json({
+          success: false,
+          error: 'Development number must be a positive integer',
+        });
+        return;
+      }
+
+      const { userId, sessionId } = extractRequestInfo(req);
+      const response = await ChatService.expandDevelopment(messageId, developmentNumber, userId, sessionId);
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        res.status(429).json({
+          success: false,
+          error: error.message,
+          quota: error.quota,
+        });
+        return;
+      }
+
+      if (error instanceof KeyDevelopmentNotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Key development not found',
+        });
+        return;
+      }
+
+      logger.error('Error expanding key development:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while starting follow-up research.',
+      });
+    }
+  }
+
+  /**
+   * Re-run the research behind an answer. The new answer is saved with a diff against
+   * the earlier one and reported under the returned message_id like any other research.
+   */
+  static async refreshResearch(req: Request, res: Response): Promise<void> {
+    try {
+      const { messageId } = req.params;
+      const { userId, sessionId } = extractRequestInfo(req);
+      const response = await ChatService.refreshResearch(messageId, userId, sessionId);
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        res.status(429).json({
+          success: false,
+          error: error.message,
+          quota: error.quota,
+        });
+        return;
+      }
+
+      if (error instanceof ResearchAnswerNotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Research answer not found',
+        });
+        return;
+      }
+
+      logger.error('Error refreshing research:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while refreshing research.',
+      });
+    }
+  }
+
+  /**
+   * Get the copy of a cited page kept when the citation was validated
+   */
+  static async getCitationSnapshot(req: Request, res: Response): Promise<void> {
+    try {
+      const { messageId } = req.params;
+      const citationId = Number(req.params.citationId);
+
+      if (!Number.isInteger(citationId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Citation ID must be an integer',
+        });
+        return;
+      }
+
+      const { userId } = extractRequestInfo(req);
+      const snapshot = await CitationSnapshotService.getSnapshot(messageId, citationId, userId);
+      if (!snapshot) {
+        res.status(404).json({
+          success: false,
+          error: 'Citation snapshot not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        snapshot,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error fetching citation snapshot:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while fetching the citation snapshot.',
+      });
+    }
+  }
+
+  /**
+   * Download a research answer as a report in Markdown, HTML, CSV or JSON
+   */
+  static async exportResearch(req: Request, res: Response): Promise<void> {
+    try {
+      const { messageId } = req.params;
+      const format = req.query.format || 'md';
+      if (!isReportFormat(format)) {
+        res.status(400).json({
+          success: false,
+          error: `format must be one of: ${REPORT_FORMATS.join(', ')}`,
+        });
+        return;
+      }
+
+      const { userId } = extractRequestInfo(req);
+      const exported = await ResearchExportService.exportReport(messageId, format, userId);
+      if (!exported) {
+        res.status(404).json({
+          success: false,
+          error: 'Research answer not found',
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', exported.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.filename}"`);
+      res.send(exported.body);
+    } catch (error) {
+      logger.error('Error exporting research:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while exporting the research.',
+      });
+    }
+  }
+
+  /**
+   * Download the sources cited by a research answer as CSL-JSON or BibTeX
+   */
+  static async exportBibliography(req: Request, res: Response): Promise<void> {
+    try {
+      const { messageId } = req.params;
+      const format = req.query.format || 'csl-json';
+      if (!isBibliographyFormat(format)) {
+        res.status(400).json({
+          success: false,
+          error: `format must be one of: ${BIBLIOGRAPHY_FORMATS.join(', ')}`,
+        });
+        return;
+      }
+
+      const { userId } = extractRequestInfo(req);
+      const exported = await ResearchExportService.exportBibliography(messageId, format, userId);
+      if (!exported) {
+        res.status(404).json({
+          success: false,
+          error: 'Research answer not found',
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', exported.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.filename}"`);
+      res.send(exported.body);
+    } catch (error) {
+      logger.error('Error exporting bibliography:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while exporting the bibliography.',
+      });
+    }
+  }
+
   /**
    * Get message history for a session
    */
@@ -0,0 +1,195 @@
+import { Request, Response } from 'express';
+import { ConversationService, MessageService, ResearchExportService } from '../services';
+import { BIBLIOGRAPHY_FORMATS, isBibliographyFormat } from '../utils/bibliography';
+import { extractRequestInfo } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export class ConversationController {
+  /**
+   * Create a conversation
+   */
+  static async createConversation(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const conversation = await ConversationService.createConversation(userId, req.body.title);
+
+      if (!conversation) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to create conversation.',
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        conversation,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error creating conversation:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while creating the conversation.',
+      });
+    }
+  }
+
+  /**
+   * List the current user's conversations
+   */
+  static async listConversations(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const limit = parseInt(req.query.limit as string) || 50;
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const conversations = await ConversationService.listConversations(userId, limit, offset);
+
+      res.json({
+        success: true,
+        conversations,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error listing conversations:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while fetching conversations.',
+      });
+    }
+  }
+
+  /**
+   * Get a conversation with its messages
+   */
+  static async getConversation(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const { conversationId } = req.params;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      const conversation = await ConversationService.getConversation(conversationId, userId);
+      if (!conversation) {
+        res.status(404).json({
+          success: false,
+          error: 'Conversation not found',
+        });
+        return;
+      }
+
+      const messages = await MessageService.getMessagesByConversationId(conversationId, limit);
+
+      res.json({
+        success: true,
+        conversation,
+        messages,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error getting conversation:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while fetching the conversation.',
+      });
+    }
+  }
+
+  /**
+   * Rename a conversation
+   */
+  static async updateConversation(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const { conversationId } = req.params;
+
+      const conversation = await ConversationService.renameConversation(conversationId, userId, req.body.title);
+      if (!conversation) {
+        res.status(404).json({
+          success: false,
+          error: 'Conversation not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        conversation,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error updating conversation:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while updating the conversation.',
+      });
+    }
+  }
+
+  /**
+   * Delete a conversation and its messages
+   */
+  static async deleteConversation(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const { conversationId } = req.params;
+
+      const deleted = await ConversationService.deleteConversation(conversationId, userId);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Conversation not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error deleting conversation:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while deleting the conversation.',
+      });
+    }
+  }
+
+  /**
+   * Download the sources cited across a conversation's research answers as CSL-JSON or BibTeX
+   */
+  static async exportBibliography(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const { conversationId } = req.params;
+      const format = req.query.format || 'csl-json';
+      if (!isBibliographyFormat(format)) {
+        res.status(400).json({
+          success: false,
+          error: `format must be one of: ${BIBLIOGRAPHY_FORMATS.join(', ')}`,
+        });
+        return;
+      }
+
+      const exported = await ResearchExportService.exportConversationBibliography(conversationId, format, userId);
+      if (!exported) {
+        res.status(404).json({
+          success: false,
+          error: 'Conversation not found',
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', exported.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.filename}"`);
+      res.send(exported.body);
+    } catch (error) {
+      logger.error('Error exporting conversation bibliography:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while exporting the bibliography.',
+      });
+    }
+  }
+}
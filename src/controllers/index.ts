@@ -1,2 +1,9 @@
 // Controllers - HTTP request/response handling
-export { ChatController } from './chatController'; 
\ No newline at end of file
+export { ChatController } from './chatController';
+export { ConversationController } from './conversationController';
+export { PreferencesController } from './preferencesController';
+export { AdminController } from './adminController';
+export { RegulatorController } from './regulatorController';
+export { WatchController } from './watchController';
+export { NotificationController } from './notificationController';
+export { UsageController } from './usageController';
@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { NotificationService } from '../services';
+import { extractRequestInfo } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export class NotificationController {
+  /**
+   * List the current user's notifications, newest first
+   */
+  static async listNotifications(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const limit = parseInt(req.query.limit as string) || 50;
+      const notifications = await NotificationService.listNotifications(userId, limit);
+
+      res.json({
+        success: true,
+        notifications,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error listing notifications:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while fetching notifications.',
+      });
+    }
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  static async markRead(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const updated = await NotificationService.markRead(req.params.notificationId, userId);
+      if (!updated) {
+        res.status(404).json({
+          success: false,
+          error: 'Notification not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error marking notification read:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while updating the notification.',
+      });
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+import { UserPreferencesService } from '../services';
+import { extractRequestInfo } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export class PreferencesController {
+  /**
+   * Get the current user's chat preferences
+   */
+  static async getPreferences(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const preferences = await UserPreferencesService.getPreferences(userId);
+
+      res.json({
+        success: true,
+        preferences,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error getting preferences:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while fetching preferences.',
+      });
+    }
+  }
+
+  /**
+   * Update the current user's chat preferences
+   */
+  static async updatePreferences(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const preferences = await UserPreferencesService.updatePreferences(userId, {
+        answer_mode: req.body.answer_mode,
+        location: req.body.location,
+      });
+
+      if (!preferences) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to save preferences.',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        preferences,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error updating preferences:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while saving preferences.',
+      });
+    }
+  }
+}
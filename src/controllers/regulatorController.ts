@@ -0,0 +1,63 @@
+import { Request, Response } from 'express';
+import { REGIONS, REGULATORS, STATES, findState, getRegion, RegionSources } from '../utils/regulatorRegistry';
+import { logger } from '../utils/logger';
+
+// Expand regulator IDs to full registry entries
+const expandRegion = (region: RegionSources) => ({
+  ...region,
+  primary: region.primary.map(id => REGULATORS[id]),
+  secondary: region.secondary.map(id => REGULATORS[id]),
+});
+
+export class RegulatorController {
+  /**
+   * List every region with its states and prioritized sources
+   */
+  static async listRegulators(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        regions: REGIONS.map(expandRegion),
+        states: Object.values(STATES),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error listing regulators:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while listing regulators.',
+      });
+    }
+  }
+
+  /**
+   * Get the commissions and prioritized sources for a state (code or name)
+   */
+  static async getStateRegulators(req: Request, res: Response): Promise<void> {
+    try {
+      const state = findState(req.params.state);
+      if (!state) {
+        res.status(404).json({
+          success: false,
+          error: 'State not found',
+        });
+        return;
+      }
+
+      const region = expandRegion(getRegion(state.region));
+      res.json({
+        success: true,
+        state,
+        commissions: Object.values(REGULATORS).filter(regulator => regulator.state === state.code),
+        region,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error getting state regulators:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while fetching regulators.',
+      });
+    }
+  }
+}
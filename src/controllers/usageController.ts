@@ -0,0 +1,28 @@
+import { Request, Response } from 'express';
+import { LlmUsageService } from '../services';
+import { extractRequestInfo } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export class UsageController {
+  /**
+   * Get the current user's LLM usage and quotas for today and this month
+   */
+  static async getMyUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const usage = await LlmUsageService.getUserUsage(userId);
+
+      res.json({
+        success: true,
+        usage,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error fetching usage:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while fetching usage.',
+      });
+    }
+  }
+}
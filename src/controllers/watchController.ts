@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { ResearchWatchService, WatchLimitReachedError } from '../services';
+import { extractRequestInfo } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export class WatchController {
+  /**
+   * Create a watch that re-runs research on a topic
+   */
+  static async createWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const watch = await ResearchWatchService.createWatch(userId, {
+        query: req.body.query,
+        state: req.body.state,
+        cadence: req.body.cadence,
+      });
+
+      if (!watch) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to create watch.',
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        watch,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof WatchLimitReachedError) {
+        res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+
+      logger.error('Error creating watch:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while creating the watch.',
+      });
+    }
+  }
+
+  /**
+   * List the current user's watches
+   */
+  static async listWatches(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const watches = await ResearchWatchService.listWatches(userId);
+
+      res.json({
+        success: true,
+        watches,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error listing watches:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while fetching watches.',
+      });
+    }
+  }
+
+  /**
+   * Get a watch
+   */
+  static async getWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const watch = await ResearchWatchService.getWatch(req.params.watchId, userId);
+      if (!watch) {
+        res.status(404).json({
+          success: false,
+          error: 'Watch not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        watch,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error getting watch:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while fetching the watch.',
+      });
+    }
+  }
+
+  /**
+   * Change a watch's topic or cadence, or pause and resume it
+   */
+  static async updateWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const watch = await ResearchWatchService.updateWatch(req.params.watchId, userId, {
+        query: req.body.query,
+        state: req.body.state,
+        cadence: req.body.cadence,
+        active: req.body.active,
+      });
+      if (!watch) {
+        res.status(404).json({
+          success: false,
+          error: 'Watch not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        watch,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error updating watch:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while updating the watch.',
+      });
+    }
+  }
+
+  /**
+   * Delete a watch
+   */
+  static async deleteWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = extractRequestInfo(req);
+      const deleted = await ResearchWatchService.deleteWatch(req.params.watchId, userId);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Watch not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error deleting watch:', error);
+      res.status(500).json({
+        success: false,
+        error: 'An error occurred while deleting the watch.',
+      });
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '../db/config';
+import { citationSnapshots, CreateCitationSnapshot, SelectCitationSnapshot } from '../db/schema';
+import { logger } from '../utils/logger';
+import { randomUUID } from 'crypto';
+
+export class CitationSnapshotDao {
+  /**
+   * Store snapshots of the pages cited by a message
+   */
+  static async createMany(data: CreateCitationSnapshot[]): Promise<number> {
+    if (data.length === 0) return 0;
+
+    try {
+      const now = new Date();
+      await db
+        .insert(citationSnapshots)
+        .values(data.map(snapshot => ({ ...snapshot, id: randomUUID(), createdAt: now, updatedAt: now })));
+
+      return data.length;
+    } catch (error) {
+      logger.error('Failed to create citation snapshots:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Delete the snapshots stored for a message
+   */
+  static async deleteByMessageId(messageId: string): Promise<number> {
+    try {
+      const [result] = await db
+        .delete(citationSnapshots)
+        .where(eq(citationSnapshots.messageId, messageId)) as any;
+
+      return result.affectedRows || 0;
+    } catch (error) {
+      logger.error('Failed to delete citation snapshots:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Find the latest snapshot of a citation on a message
+   */
+  static async findByMessageAndCitation(messageId: string, citationId: number): Promise<SelectCitationSnapshot | null> {
+    try {
+      const result = await db
+        .select()
+        .from(citationSnapshots)
+        .where(and(eq(citationSnapshots.messageId, messageId), eq(citationSnapshots.citationId, citationId)))
+        .orderBy(desc(citationSnapshots.fetchedAt))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      logger.error('Failed to get citation snapshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find the snapshots of every citation on a message, newest first
+   */
+  static async findByMessageId(messageId: string): Promise<SelectCitationSnapshot[]> {
+    try {
+      return await db
+        .select()
+        .from(citationSnapshots)
+        .where(eq(citationSnapshots.messageId, messageId))
+        .orderBy(desc(citationSnapshots.fetchedAt));
+    } catch (error) {
+      logger.error('Failed to get citation snapshots by message:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find the snapshots taken while researching a message
+   */
+  static async findByResearchMessageId(researchMessageId: string): Promise<SelectCitationSnapshot[]> {
+    try {
+      return await db
+        .select()
+        .from(citationSnapshots)
+        .where(eq(citationSnapshots.researchMessageId, researchMessageId));
+    } catch (error) {
+      logger.error('Failed to get citation snapshots by research message:', error);
+      return [];
+    }
+  }
+}
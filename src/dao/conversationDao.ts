@@ -0,0 +1,120 @@
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { db } from '../db/config';
+import { conversations, CreateConversation, UpdateConversation, SelectConversation } from '../db/schema';
+import { logger } from '../utils/logger';
+import { randomUUID } from 'crypto';
+
+export class ConversationDao {
+  /**
+   * Create a new conversation
+   */
+  static async create(data: CreateConversation): Promise<SelectConversation | null> {
+    try {
+      const id = randomUUID();
+      const newConversation = {
+        title: 'New conversation',
+        lastMessageAt: null,
+        ...data,
+        id,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await db.insert(conversations).values(newConversation);
+      logger.info(`Conversation created: ${id}`);
+      return newConversation as SelectConversation;
+    } catch (error) {
+      logger.error('Failed to create conversation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a conversation
+   */
+  static async update(id: string, data: UpdateConversation): Promise<SelectConversation | null> {
+    try {
+      const updatedAt = new Date();
+      await db
+        .update(conversations)
+        .set({ ...data, updatedAt })
+        .where(eq(conversations.id, id));
+
+      const updatedConversation = await this.findById(id);
+      logger.info(`Conversation updated: ${id}`);
+      return updatedConversation;
+    } catch (error) {
+      logger.error('Failed to update conversation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find conversation by ID
+   */
+  static async findById(id: string): Promise<SelectConversation | null> {
+    try {
+      const result = await db
+        .select()
+        .from(conversations)
+        .where(eq(conversations.id, id))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      logger.error('Failed to get conversation by ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find conversation by ID, only if it belongs to the user
+   */
+  static async findByIdForUser(id: string, userId: string): Promise<SelectConversation | null> {
+    try {
+      const result = await db
+        .select()
+        .from(conversations)
+        .where(and(eq(conversations.id, id), eq(conversations.userId, userId)))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      logger.error('Failed to get conversation for user:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find a user's conversations, most recently active first
+   */
+  static async findByUserId(userId: string, limit: number = 50, offset: number = 0): Promise<SelectConversation[]> {
+    try {
+      return await db
+        .select()
+        .from(conversations)
+        .where(eq(conversations.userId, userId))
+        .orderBy(desc(sql`COALESCE(${conversations.lastMessageAt}, ${conversations.createdAt})`))
+        .limit(limit)
+        .offset(offset);
+    } catch (error) {
+      logger.error('Failed to get conversations by user ID:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete conversation by ID
+   */
+  static async deleteById(id: string): Promise<boolean> {
+    try {
+      const [result] = await db
+        .delete(conversations)
+        .where(eq(conversations.id, id)) as any;
+
+      return (result.affectedRows || 0) > 0;
+    } catch (error) {
+      logger.error('Failed to delete conversation:', error);
+      return false;
+    }
+  }
+}
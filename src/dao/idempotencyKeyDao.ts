@@ -0,0 +1,101 @@
+import { eq, lte } from 'drizzle-orm';
+import { db } from '../db/config';
+import { idempotencyKeys, CreateIdempotencyKey, SelectIdempotencyKey } from '../db/schema';
+import { logger } from '../utils/logger';
+import { randomUUID } from 'crypto';
+
+// drizzle wraps driver errors, so the MySQL code may be on the cause
+const isDuplicateKeyError = (error: unknown): boolean => {
+  const err = error as { code?: string; cause?: { code?: string } } | null;
+  return err?.code === 'ER_DUP_ENTRY' || err?.cause?.code === 'ER_DUP_ENTRY';
+};
+
+export class IdempotencyKeyDao {
+  /**
+   * Reserve a key for a request being processed. Returns false if the key is already taken.
+   */
+  static async reserve(data: CreateIdempotencyKey): Promise<boolean> {
+    try {
+      const now = new Date();
+      await db
+        .insert(idempotencyKeys)
+        .values({ ...data, id: randomUUID(), status: 'processing', createdAt: now, updatedAt: now });
+
+      return true;
+    } catch (error) {
+      // The unique key hash makes a concurrent reservation of the same key fail here
+      if (isDuplicateKeyError(error)) {
+        return false;
+      }
+      logger.error('Failed to reserve idempotency key:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Find a stored key by its hash
+   */
+  static async findByKeyHash(keyHash: string): Promise<SelectIdempotencyKey | null> {
+    try {
+      const result = await db
+        .select()
+        .from(idempotencyKeys)
+        .where(eq(idempotencyKeys.keyHash, keyHash))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      logger.error('Failed to get idempotency key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store the response for a reserved key
+   */
+  static async complete(keyHash: string, messageId: string | null, response: unknown): Promise<boolean> {
+    try {
+      const [result] = await db
+        .update(idempotencyKeys)
+        .set({ status: 'completed', messageId, response, updatedAt: new Date() })
+        .where(eq(idempotencyKeys.keyHash, keyHash)) as any;
+
+      return (result.affectedRows || 0) > 0;
+    } catch (error) {
+      logger.error('Failed to complete idempotency key:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a key so it can be used again
+   */
+  static async deleteByKeyHash(keyHash: string): Promise<boolean> {
+    try {
+      const [result] = await db
+        .delete(idempotencyKeys)
+        .where(eq(idempotencyKeys.keyHash, keyHash)) as any;
+
+      return (result.affectedRows || 0) > 0;
+    } catch (error) {
+      logger.error('Failed to delete idempotency key:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete keys past their replay window
+   */
+  static async deleteExpired(now: Date = new Date()): Promise<number> {
+    try {
+      const [result] = await db
+        .delete(idempotencyKeys)
+        .where(lte(idempotencyKeys.expiresAt, now)) as any;
+
+      return result.affectedRows || 0;
+    } catch (error) {
+      logger.error('Failed to delete expired idempotency keys:', error);
+      return 0;
+    }
+  }
+}
@@ -1,4 +1,14 @@
 // Data Access Objects - Direct database operations
 export { ApiCallDao } from './apiCallDao';
 export { MessageDao } from './messageDao';
-export { UserDao } from './userDao'; 
\ No newline at end of file
+export { UserDao } from './userDao';
+export { ResearchJobDao } from './researchJobDao';
+export { ConversationDao } from './conversationDao';
+export { UserPreferencesDao } from './userPreferencesDao';
+export { ResearchCacheDao } from './researchCacheDao';
+export { IdempotencyKeyDao } from './idempotencyKeyDao';
+export { CitationSnapshotDao } from './citationSnapshotDao';
+export { ResearchWatchDao } from './researchWatchDao';
+export { NotificationDao } from './notificationDao';
+export { LlmUsageDao } from './llmUsageDao';
+export type { UsageGroupBy, UsageTotals, UsageReportRow } from './llmUsageDao';
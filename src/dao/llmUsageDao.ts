@@ -0,0 +1,107 @@
+import { eq, and, gte, lt, sql, SQL } from 'drizzle-orm';
+import { db } from '../db/config';
+import { llmUsage, CreateLlmUsage, SelectLlmUsage } from '../db/schema';
+import { logger } from '../utils/logger';
+import { randomUUID } from 'crypto';
+
+export type UsageGroupBy = 'user' | 'model' | 'operation' | 'day';
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  estimatedCostUsd: number;
+}
+
+export interface UsageReportRow extends UsageTotals {
+  key: string | null; // User ID, model, operation or YYYY-MM-DD; null for anonymous usage
+}
+
+const EMPTY_TOTALS: UsageTotals = {
+  calls: 0,
+  inputTokens: 0,
+  cachedInputTokens: 0,
+  outputTokens: 0,
+  reasoningTokens: 0,
+  estimatedCostUsd: 0,
+};
+
+// MySQL returns SUM() as a decimal string
+const totalColumns = {
+  calls: sql<number>`count(*)`.mapWith(Number),
+  inputTokens: sql<number>`coalesce(sum(${llmUsage.inputTokens}), 0)`.mapWith(Number),
+  cachedInputTokens: sql<number>`coalesce(sum(${llmUsage.cachedInputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${llmUsage.outputTokens}), 0)`.mapWith(Number),
+  reasoningTokens: sql<number>`coalesce(sum(${llmUsage.reasoningTokens}), 0)`.mapWith(Number),
+  estimatedCostUsd: sql<number>`coalesce(sum(${llmUsage.estimatedCostUsd}), 0)`.mapWith(Number),
+};
+
+const groupColumns: Record<UsageGroupBy, SQL<string | null>> = {
+  user: sql<string | null>`${llmUsage.userId}`,
+  model: sql<string | null>`${llmUsage.model}`,
+  operation: sql<string | null>`${llmUsage.operation}`,
+  day: sql<string | null>`date_format(${llmUsage.createdAt}, '%Y-%m-%d')`,
+};
+
+export class LlmUsageDao {
+  /**
+   * Record one LLM call
+   */
+  static async create(data: CreateLlmUsage): Promise<SelectLlmUsage | null> {
+    try {
+      const now = new Date();
+      const usage = {
+        userId: null,
+        conversationId: null,
+        messageId: null,
+        estimatedCostUsd: null,
+        ...data,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await db.insert(llmUsage).values(usage);
+      return usage as SelectLlmUsage;
+    } catch (error) {
+      logger.error('Failed to record LLM usage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Total usage of a user since a point in time
+   */
+  static async sumForUser(userId: string, since: Date): Promise<UsageTotals> {
+    try {
+      const [totals] = await db
+        .select(totalColumns)
+        .from(llmUsage)
+        .where(and(eq(llmUsage.userId, userId), gte(llmUsage.createdAt, since)));
+
+      return totals || { ...EMPTY_TOTALS };
+    } catch (error) {
+      logger.error('Failed to sum LLM usage for user:', error);
+      return { ...EMPTY_TOTALS };
+    }
+  }
+
+  /**
+   * Usage between two points in time, grouped and ordered by cost, highest first
+   */
+  static async summarize(from: Date, to: Date, groupBy: UsageGroupBy): Promise<UsageReportRow[]> {
+    try {
+      const key = groupColumns[groupBy];
+      return await db
+        .select({ key, ...totalColumns })
+        .from(llmUsage)
+        .where(and(gte(llmUsage.createdAt, from), lt(llmUsage.createdAt, to)))
+        .groupBy(key)
+        .orderBy(sql`${totalColumns.estimatedCostUsd} desc`);
+    } catch (error) {
+      logger.error('Failed to summarize LLM usage:', error);
+      return [];
+    }
+  }
+}
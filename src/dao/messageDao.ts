@@ -1,4 +1,4 @@
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, sql } from 'drizzle-orm';
 import { db } from '../db/config';
 import { messages, CreateMessage, UpdateMessage, SelectMessage } from '../db/schema';
 import { logger } from '../utils/logger';
@@ -26,6 +26,31 @@ export class MessageDao {
     }
   }
 
+  /**
+   * Create a message, or overwrite the content and metadata of the message with the same messageId
+   */
+  static async upsert(data: CreateMessage): Promise<SelectMessage | null> {
+    try {
+      const now = new Date();
+      const newMessage = {
+        ...data,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await db
+        .insert(messages)
+        .values(newMessage)
+        .onDuplicateKeyUpdate({ set: { content: data.content, metadata: data.metadata, updatedAt: now } });
+
+      logger.info(`Message saved: ${data.messageId} (${data.type})`);
+      return await this.findByMessageId(data.messageId);
+    } catch (error) {
+      logger.error('Failed to upsert message:', error);
+      return null;
+    }
+  }
+
   /**
    * Update a message
    */
@@ -66,6 +91,32 @@ export class MessageDao {
     }
   }
 
+  /**
+   * Append an entry to a list in a message's metadata, creating the list when missing.
+   * The update happens in one statement, so concurrent appends do not overwrite each other.
+   */
+  static async appendToMetadataList(messageId: string, key: string, entry: object): Promise<boolean> {
+    try {
+      const path = `$.${key}`;
+      const [result] = await db
+        .update(messages)
+        .set({
+          metadata: sql`JSON_SET(
+            COALESCE(${messages.metadata}, JSON_OBJECT()),
+            ${path},
+            JSON_ARRAY_APPEND(COALESCE(JSON_EXTRACT(${messages.metadata}, ${path}), JSON_ARRAY()), '$', CAST(${JSON.stringify(entry)} AS JSON))
+          )`,
+          updatedAt: new Date(),
+        })
+        .where(eq(messages.messageId, messageId)) as any;
+
+      return result.affectedRows > 0;
+    } catch (error) {
+      logger.error('Failed to append to message metadata:', error);
+      return false;
+    }
+  }
+
   /**
    * Find message by ID
    */
@@ -119,6 +170,23 @@ export class MessageDao {
     }
   }
 
+  /**
+   * Find messages by conversation ID
+   */
+  static async findByConversationId(conversationId: string, limit: number = 50): Promise<SelectMessage[]> {
+    try {
+      return await db
+        .select()
+        .from(messages)
+        .where(eq(messages.conversationId, conversationId))
+        .orderBy(desc(messages.createdAt))
+        .limit(limit);
+    } catch (error) {
+      logger.error('Failed to get messages by conversation ID:', error);
+      return [];
+    }
+  }
+
   /**
    * Find messages by user ID
    */
@@ -168,4 +236,20 @@ export class MessageDao {
       return false;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Delete all messages in a conversation
+   */
+  static async deleteByConversationId(conversationId: string): Promise<number> {
+    try {
+      const [result] = await db
+        .delete(messages)
+        .where(eq(messages.conversationId, conversationId)) as any;
+
+      return result.affectedRows || 0;
+    } catch (error) {
+      logger.error('Failed to delete messages by conversation ID:', error);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { eq, and, asc, desc, inArray, isNull } from 'drizzle-orm';
+import { db } from '../db/config';
+import { notifications, CreateNotification, SelectNotification } from '../db/schema';
+import { logger } from '../utils/logger';
+import { randomUUID } from 'crypto';
+
+export class NotificationDao {
+  /**
+   * Create a new notification
+   */
+  static async create(data: CreateNotification): Promise<SelectNotification | null> {
+    try {
+      const now = new Date();
+      const notification = {
+        data: null,
+        ...data,
+        id: randomUUID(),
+        deliveredAt: null,
+        readAt: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await db.insert(notifications).values(notification);
+      return notification as SelectNotification;
+    } catch (error) {
+      logger.error('Failed to create notification:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find a user's notifications, newest first
+   */
+  static async findByUserId(userId: string, limit: number = 50): Promise<SelectNotification[]> {
+    try {
+      return await db
+        .select()
+        .from(notifications)
+        .where(eq(notifications.userId, userId))
+        .orderBy(desc(notifications.createdAt))
+        .limit(limit);
+    } catch (error) {
+      logger.error('Failed to get notifications by user ID:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find a user's notifications that have not reached any client yet, oldest first
+   */
+  static async findUndelivered(userId: string): Promise<SelectNotification[]> {
+    try {
+      return await db
+        .select()
+        .from(notifications)
+        .where(and(eq(notifications.userId, userId), isNull(notifications.deliveredAt)))
+        .orderBy(asc(notifications.createdAt));
+    } catch (error) {
+      logger.error('Failed to get undelivered notifications:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Mark notifications as delivered
+   */
+  static async markDelivered(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    try {
+      const now = new Date();
+      const [result] = await db
+        .update(notifications)
+        .set({ deliveredAt: now, updatedAt: now })
+        .where(and(inArray(notifications.id, ids), isNull(notifications.deliveredAt))) as any;
+
+      return result.affectedRows || 0;
+    } catch (error) {
+      logger.error('Failed to mark notifications delivered:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Mark a user's notification as read
+   */
+  static async markRead(id: string, userId: string): Promise<boolean> {
+    try {
+      const now = new Date();
+      const [result] = await db
+        .update(notifications)
+        .set({ readAt: now, updatedAt: now })
+        .where(and(eq(notifications.id, id), eq(notifications.userId, userId))) as any;
+
+      return (result.affectedRows || 0) > 0;
+    } catch (error) {
+      logger.error('Failed to mark notification read:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { eq, and, gt, lte, sql } from 'drizzle-orm';
+import { db } from '../db/config';
+import { researchCache, CreateResearchCacheEntry, SelectResearchCacheEntry } from '../db/schema';
+import { logger } from '../utils/logger';
+import { randomUUID } from 'crypto';
+
+export class ResearchCacheDao {
+  /**
+   * Store research under a cache key, replacing any existing entry
+   */
+  static async upsert(data: CreateResearchCacheEntry): Promise<boolean> {
+    try {
+      const now = new Date();
+      await db
+        .insert(researchCache)
+        .values({ ...data, id: randomUUID(), hitCount: 0, createdAt: now, updatedAt: now })
+        .onDuplicateKeyUpdate({
+          set: {
+            normalizedQuery: data.normalizedQuery,
+            state: data.state,
+            result: data.result,
+            sourceMessageId: data.sourceMessageId,
+            hitCount: 0,
+            researchedAt: data.researchedAt,
+            expiresAt: data.expiresAt,
+            updatedAt: now,
+          },
+        });
+
+      logger.info(`Research cached: ${data.cacheKey}`);
+      return true;
+    } catch (error) {
+      logger.error('Failed to cache research:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Find an unexpired cache entry by key
+   */
+  static async findValidByKey(cacheKey: string, now: Date = new Date()): Promise<SelectResearchCacheEntry | null> {
+    try {
+      const result = await db
+        .select()
+        .from(researchCache)
+        .where(and(eq(researchCache.cacheKey, cacheKey), gt(researchCache.expiresAt, now)))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      logger.error('Failed to get research cache entry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Count a cache hit
+   */
+  static async incrementHits(id: string): Promise<void> {
+    try {
+      await db
+        .update(researchCache)
+        .set({ hitCount: sql`${researchCache.hitCount} + 1` })
+        .where(eq(researchCache.id, id));
+    } catch (error) {
+      logger.error('Failed to record research cache hit:', error);
+    }
+  }
+
+  /**
+   * Delete the entry for a cache key
+   */
+  static async deleteByKey(cacheKey: string): Promise<number> {
+    try {
+      const [result] = await db
+        .delete(researchCache)
+        .where(eq(researchCache.cacheKey, cacheKey)) as any;
+
+      return result.affectedRows || 0;
+    } catch (error) {
+      logger.error('Failed to delete research cache entry:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Delete all entries for a state
+   */
+  static async deleteByState(state: string): Promise<number> {
+    try {
+      const [result] = await db
+        .delete(researchCache)
+        .where(eq(researchCache.state, state)) as any;
+
+      return result.affectedRows || 0;
+    } catch (error) {
+      logger.error('Failed to delete research cache entries by state:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Delete entries that expired before the given date
+   */
+  static async deleteExpired(before: Date = new Date()): Promise<number> {
+    try {
+      const [result] = await db
+        .delete(researchCache)
+        .where(lte(researchCache.expiresAt, before)) as any;
+
+      return result.affectedRows || 0;
+    } catch (error) {
+      logger.error('Failed to delete expired research cache entries:', error);
+      return 0;
+    }
+  }
+}
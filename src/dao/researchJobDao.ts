@@ -0,0 +1,244 @@
+import { eq, and, or, asc, lte, inArray, sql } from 'drizzle-orm';
+import { db } from '../db/config';
+import { researchJobs, CreateResearchJob, UpdateResearchJob, SelectResearchJob } from '../db/schema';
+import { logger } from '../utils/logger';
+import { randomUUID } from 'crypto';
+
+export class ResearchJobDao {
+  /**
+   * Create a new research job
+   */
+  static async create(data: CreateResearchJob): Promise<SelectResearchJob | null> {
+    try {
+      const id = randomUUID();
+      const newJob = {
+        status: 'pending',
+        attempts: 0,
+        ...data,
+        id,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await db.insert(researchJobs).values(newJob);
+      logger.info(`Research job queued: ${data.messageId}`);
+      return newJob as SelectResearchJob;
+    } catch (error) {
+      logger.error('Failed to create research job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a research job
+   */
+  static async update(id: string, data: UpdateResearchJob): Promise<SelectResearchJob | null> {
+    try {
+      const updatedAt = new Date();
+      await db
+        .update(researchJobs)
+        .set({ ...data, updatedAt })
+        .where(eq(researchJobs.id, id));
+
+      return await this.findById(id);
+    } catch (error) {
+      logger.error('Failed to update research job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a research job only while it is still leased by the given worker
+   */
+  static async updateIfLockedBy(id: string, workerId: string, data: UpdateResearchJob): Promise<boolean> {
+    try {
+      const updatedAt = new Date();
+      const [result] = await db
+        .update(researchJobs)
+        .set({ ...data, updatedAt })
+        .where(and(eq(researchJobs.id, id), eq(researchJobs.lockedBy, workerId))) as any;
+
+      return (result.affectedRows || 0) > 0;
+    } catch (error) {
+      logger.error('Failed to update leased research job:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Find research job by ID
+   */
+  static async findById(id: string): Promise<SelectResearchJob | null> {
+    try {
+      const result = await db
+        .select()
+        .from(researchJobs)
+        .where(eq(researchJobs.id, id))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      logger.error('Failed to get research job by ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find research job by the message ID that triggered it
+   */
+  static async findByMessageId(messageId: string): Promise<SelectResearchJob | null> {
+    try {
+      const result = await db
+        .select()
+        .from(researchJobs)
+        .where(eq(researchJobs.messageId, messageId))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      logger.error('Failed to get research job by messageId:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Claim up to `limit` pending jobs, or retrying jobs whose backoff has elapsed, for a worker, oldest first.
+   * Each claim is a conditional update so concurrent workers never run the same job.
+   */
+  static async claimPending(workerId: string, limit: number): Promise<SelectResearchJob[]> {
+    try {
+      const claimable = (now: Date) => or(
+        eq(researchJobs.status, 'pending'),
+        and(eq(researchJobs.status, 'retrying'), lte(researchJobs.nextAttemptAt, now))
+      );
+
+      const candidates = await db
+        .select({ id: researchJobs.id })
+        .from(researchJobs)
+        .where(claimable(new Date()))
+        .orderBy(asc(researchJobs.createdAt))
+        .limit(limit);
+
+      const claimed: SelectResearchJob[] = [];
+      for (const candidate of candidates) {
+        const now = new Date();
+        const [result] = await db
+          .update(researchJobs)
+          .set({
+            status: 'running',
+            attempts: sql`${researchJobs.attempts} + 1`,
+            lockedBy: workerId,
+            lockedAt: now,
+            startedAt: now,
+            nextAttemptAt: null,
+            updatedAt: now,
+          })
+          .where(and(eq(researchJobs.id, candidate.id), claimable(now))) as any;
+
+        if ((result.affectedRows || 0) > 0) {
+          const job = await this.findById(candidate.id);
+          if (job) claimed.push(job);
+        }
+      }
+
+      return claimed;
+    } catch (error) {
+      logger.error('Failed to claim pending research jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cancel a job that has not finished yet. Returns false if it already reached a final status.
+   */
+  static async cancel(id: string): Promise<boolean> {
+    try {
+      const now = new Date();
+      const [result] = await db
+        .update(researchJobs)
+        .set({ status: 'cancelled', lockedBy: null, lockedAt: null, completedAt: now, updatedAt: now })
+        .where(and(eq(researchJobs.id, id), inArray(researchJobs.status, ['pending', 'running', 'retrying']))) as any;
+
+      return (result.affectedRows || 0) > 0;
+    } catch (error) {
+      logger.error('Failed to cancel research job:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Find which of the given jobs have been cancelled
+   */
+  static async findCancelledIds(ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+
+    try {
+      const result = await db
+        .select({ id: researchJobs.id })
+        .from(researchJobs)
+        .where(and(inArray(researchJobs.id, ids), eq(researchJobs.status, 'cancelled')));
+
+      return result.map(row => row.id);
+    } catch (error) {
+      logger.error('Failed to check for cancelled research jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Extend the lease on jobs a worker is still running, so they are not requeued as abandoned
+   */
+  static async renewLeases(ids: string[], workerId: string): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    try {
+      const now = new Date();
+      const [result] = await db
+        .update(researchJobs)
+        .set({ lockedAt: now, updatedAt: now })
+        .where(and(
+          inArray(researchJobs.id, ids),
+          eq(researchJobs.status, 'running'),
+          eq(researchJobs.lockedBy, workerId)
+        )) as any;
+
+      return result.affectedRows || 0;
+    } catch (error) {
+      logger.error('Failed to renew research job leases:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Return running jobs leased by a worker to the queue (graceful shutdown)
+   */
+  static async releaseByWorker(workerId: string): Promise<number> {
+    try {
+      const [result] = await db
+        .update(researchJobs)
+        .set({ status: 'pending', lockedBy: null, lockedAt: null, updatedAt: new Date() })
+        .where(and(eq(researchJobs.status, 'running'), eq(researchJobs.lockedBy, workerId))) as any;
+
+      return result.affectedRows || 0;
+    } catch (error) {
+      logger.error('Failed to release research jobs:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Return running jobs whose lease has expired to the queue (worker crashed mid-research)
+   */
+  static async requeueExpired(leaseExpiredBefore: Date): Promise<number> {
+    try {
+      const [result] = await db
+        .update(researchJobs)
+        .set({ status: 'pending', lockedBy: null, lockedAt: null, updatedAt: new Date() })
+        .where(and(eq(researchJobs.status, 'running'), lte(researchJobs.lockedAt, leaseExpiredBefore))) as any;
+
+      return result.affectedRows || 0;
+    } catch (error) {
+      logger.error('Failed to requeue expired research jobs:', error);
+      return 0;
+    }
+  }
+}
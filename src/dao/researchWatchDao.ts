@@ -0,0 +1,184 @@
+import { eq, and, asc, desc, isNull, isNotNull, lte } from 'drizzle-orm';
+import { db } from '../db/config';
+import { researchWatches, CreateResearchWatch, UpdateResearchWatch, SelectResearchWatch } from '../db/schema';
+import { logger } from '../utils/logger';
+import { randomUUID } from 'crypto';
+
+export class ResearchWatchDao {
+  /**
+   * Create a new watch
+   */
+  static async create(data: CreateResearchWatch): Promise<SelectResearchWatch | null> {
+    try {
+      const id = randomUUID();
+      const now = new Date();
+      await db.insert(researchWatches).values({ ...data, id, createdAt: now, updatedAt: now });
+      logger.info(`Research watch created: ${id}`);
+      return await this.findById(id);
+    } catch (error) {
+      logger.error('Failed to create research watch:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a watch
+   */
+  static async update(id: string, data: UpdateResearchWatch): Promise<SelectResearchWatch | null> {
+    try {
+      await db
+        .update(researchWatches)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(researchWatches.id, id));
+
+      return await this.findById(id);
+    } catch (error) {
+      logger.error('Failed to update research watch:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find watch by ID
+   */
+  static async findById(id: string): Promise<SelectResearchWatch | null> {
+    try {
+      const result = await db
+        .select()
+        .from(researchWatches)
+        .where(eq(researchWatches.id, id))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      logger.error('Failed to get research watch by ID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find watch by ID, only if it belongs to the user
+   */
+  static async findByIdForUser(id: string, userId: string): Promise<SelectResearchWatch | null> {
+    try {
+      const result = await db
+        .select()
+        .from(researchWatches)
+        .where(and(eq(researchWatches.id, id), eq(researchWatches.userId, userId)))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      logger.error('Failed to get research watch for user:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find a user's watches, newest first
+   */
+  static async findByUserId(userId: string): Promise<SelectResearchWatch[]> {
+    try {
+      return await db
+        .select()
+        .from(researchWatches)
+        .where(eq(researchWatches.userId, userId))
+        .orderBy(desc(researchWatches.createdAt));
+    } catch (error) {
+      logger.error('Failed to get research watches by user ID:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find active watches that are due and have no run in progress, most overdue first
+   */
+  static async findDue(now: Date, limit: number): Promise<SelectResearchWatch[]> {
+    try {
+      return await db
+        .select()
+        .from(researchWatches)
+        .where(and(
+          eq(researchWatches.active, true),
+          lte(researchWatches.nextRunAt, now),
+          isNull(researchWatches.pendingMessageId)
+        ))
+        .orderBy(asc(researchWatches.nextRunAt))
+        .limit(limit);
+    } catch (error) {
+      logger.error('Failed to get due research watches:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find watches with a run in progress
+   */
+  static async findWithPendingRun(): Promise<SelectResearchWatch[]> {
+    try {
+      return await db
+        .select()
+        .from(researchWatches)
+        .where(isNotNull(researchWatches.pendingMessageId));
+    } catch (error) {
+      logger.error('Failed to get research watches with a pending run:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Start a run of a due watch. The claim is a conditional update, so when several
+   * servers see the same due watch only one of them runs it.
+   */
+  static async claimRun(id: string, pendingMessageId: string, nextRunAt: Date): Promise<boolean> {
+    try {
+      const now = new Date();
+      const [result] = await db
+        .update(researchWatches)
+        .set({ pendingMessageId, nextRunAt, lastRunAt: now, updatedAt: now })
+        .where(and(
+          eq(researchWatches.id, id),
+          lte(researchWatches.nextRunAt, now),
+          isNull(researchWatches.pendingMessageId)
+        )) as any;
+
+      return (result.affectedRows || 0) > 0;
+    } catch (error) {
+      logger.error('Failed to claim research watch run:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record the outcome of a run. Returns false if another server already recorded it.
+   */
+  static async finishRun(id: string, pendingMessageId: string, data: UpdateResearchWatch): Promise<boolean> {
+    try {
+      const [result] = await db
+        .update(researchWatches)
+        .set({ ...data, pendingMessageId: null, updatedAt: new Date() })
+        .where(and(eq(researchWatches.id, id), eq(researchWatches.pendingMessageId, pendingMessageId))) as any;
+
+      return (result.affectedRows || 0) > 0;
+    } catch (error) {
+      logger.error('Failed to finish research watch run:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete watch by ID
+   */
+  static async deleteById(id: string): Promise<boolean> {
+    try {
+      const [result] = await db
+        .delete(researchWatches)
+        .where(eq(researchWatches.id, id)) as any;
+
+      return (result.affectedRows || 0) > 0;
+    } catch (error) {
+      logger.error('Failed to delete research watch:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db/config';
+import { userPreferences, UpdateUserPreferences, SelectUserPreferences } from '../db/schema';
+import { logger } from '../utils/logger';
+
+export class UserPreferencesDao {
+  /**
+   * Find preferences by user ID
+   */
+  static async findByUserId(userId: string): Promise<SelectUserPreferences | null> {
+    try {
+      const result = await db
+        .select()
+        .from(userPreferences)
+        .where(eq(userPreferences.userId, userId))
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      logger.error('Failed to get user preferences:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create or update preferences for a user
+   */
+  static async upsert(userId: string, data: UpdateUserPreferences): Promise<SelectUserPreferences | null> {
+    try {
+      const now = new Date();
+      await db
+        .insert(userPreferences)
+        .values({ ...data, userId, createdAt: now, updatedAt: now })
+        .onDuplicateKeyUpdate({ set: { ...data, updatedAt: now } });
+
+      logger.info(`User preferences saved: ${userId}`);
+      return await this.findByUserId(userId);
+    } catch (error) {
+      logger.error('Failed to save user preferences:', error);
+      return null;
+    }
+  }
+}
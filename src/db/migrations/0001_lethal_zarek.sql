@@ -0,0 +1,20 @@
+CREATE TABLE `research_jobs` (
+	`id` varchar(36) NOT NULL DEFAULT (UUID()),
+	`message_id` varchar(255) NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'pending',
+	`attempts` int NOT NULL DEFAULT 0,
+	`input` json NOT NULL,
+	`user_location` varchar(255),
+	`result` json,
+	`error` text,
+	`session_id` varchar(255) DEFAULT '',
+	`user_id` varchar(255) DEFAULT '',
+	`locked_by` varchar(64),
+	`locked_at` datetime,
+	`started_at` datetime,
+	`completed_at` datetime,
+	`created_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `research_jobs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `research_jobs_message_id_unique` UNIQUE(`message_id`)
+);
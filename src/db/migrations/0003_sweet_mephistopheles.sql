@@ -0,0 +1,12 @@
+CREATE TABLE `conversations` (
+	`id` varchar(36) NOT NULL DEFAULT (UUID()),
+	`user_id` varchar(255) NOT NULL,
+	`title` varchar(255) NOT NULL DEFAULT 'New conversation',
+	`last_message_at` datetime,
+	`created_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `conversations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `conversation_id` varchar(36);--> statement-breakpoint
+ALTER TABLE `research_jobs` ADD `conversation_id` varchar(36);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE `user_preferences` (
+	`user_id` varchar(255) NOT NULL,
+	`answer_mode` varchar(20),
+	`created_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `user_preferences_user_id` PRIMARY KEY(`user_id`)
+);
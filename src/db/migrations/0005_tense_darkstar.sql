@@ -0,0 +1,17 @@
+CREATE TABLE `research_cache` (
+	`id` varchar(36) NOT NULL DEFAULT (UUID()),
+	`cache_key` varchar(64) NOT NULL,
+	`normalized_query` text NOT NULL,
+	`state` varchar(50),
+	`result` json NOT NULL,
+	`source_message_id` varchar(255),
+	`hit_count` int NOT NULL DEFAULT 0,
+	`researched_at` datetime NOT NULL,
+	`expires_at` datetime NOT NULL,
+	`created_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `research_cache_id` PRIMARY KEY(`id`),
+	CONSTRAINT `research_cache_cache_key_unique` UNIQUE(`cache_key`)
+);
+--> statement-breakpoint
+ALTER TABLE `research_jobs` ADD `cache_key` varchar(64);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `research_jobs` ADD `next_attempt_at` datetime;--> statement-breakpoint
+ALTER TABLE `research_jobs` ADD `error_history` json;
\ No newline at end of file
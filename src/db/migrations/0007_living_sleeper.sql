@@ -0,0 +1,15 @@
+CREATE TABLE `idempotency_keys` (
+	`id` varchar(36) NOT NULL DEFAULT (UUID()),
+	`key_hash` varchar(64) NOT NULL,
+	`idempotency_key` varchar(255) NOT NULL,
+	`scope` varchar(255) NOT NULL,
+	`request_hash` varchar(64) NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'processing',
+	`message_id` varchar(255),
+	`response` json,
+	`expires_at` datetime NOT NULL,
+	`created_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `idempotency_keys_id` PRIMARY KEY(`id`),
+	CONSTRAINT `idempotency_keys_key_hash_unique` UNIQUE(`key_hash`)
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `research_jobs` ADD `location` json;--> statement-breakpoint
+ALTER TABLE `user_preferences` ADD `location` varchar(255);
\ No newline at end of file
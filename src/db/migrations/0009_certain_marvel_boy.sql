@@ -0,0 +1,21 @@
+CREATE TABLE `citation_snapshots` (
+	`id` varchar(36) NOT NULL DEFAULT (UUID()),
+	`message_id` varchar(255) NOT NULL,
+	`research_message_id` varchar(255),
+	`citation_id` int NOT NULL,
+	`url` text NOT NULL,
+	`final_url` text,
+	`status_code` int,
+	`headers` json,
+	`content_type` varchar(255),
+	`content_text` mediumtext,
+	`content_hash` varchar(64),
+	`content_length` int,
+	`fetched_at` datetime NOT NULL,
+	`created_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `citation_snapshots_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `citation_snapshots_message_citation_idx` ON `citation_snapshots` (`message_id`,`citation_id`);--> statement-breakpoint
+CREATE INDEX `citation_snapshots_research_message_idx` ON `citation_snapshots` (`research_message_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `research_jobs` ADD `parent_message_id` varchar(255);--> statement-breakpoint
+ALTER TABLE `research_jobs` ADD `parent_development` int;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `research_jobs` ADD `refresh_of_message_id` varchar(255);
\ No newline at end of file
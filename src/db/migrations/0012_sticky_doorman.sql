@@ -0,0 +1,36 @@
+CREATE TABLE `notifications` (
+	`id` varchar(36) NOT NULL DEFAULT (UUID()),
+	`user_id` varchar(255) NOT NULL,
+	`type` varchar(50) NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`body` text NOT NULL,
+	`data` json,
+	`delivered_at` datetime,
+	`read_at` datetime,
+	`created_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `notifications_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `research_watches` (
+	`id` varchar(36) NOT NULL DEFAULT (UUID()),
+	`user_id` varchar(255) NOT NULL,
+	`query` text NOT NULL,
+	`state` varchar(2),
+	`cadence` varchar(20) NOT NULL,
+	`active` boolean NOT NULL DEFAULT true,
+	`conversation_id` varchar(36),
+	`next_run_at` datetime NOT NULL,
+	`last_run_at` datetime,
+	`pending_message_id` varchar(255),
+	`last_message_id` varchar(255),
+	`last_result` json,
+	`last_error` text,
+	`created_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `research_watches_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `notifications_user_delivered_idx` ON `notifications` (`user_id`,`delivered_at`);--> statement-breakpoint
+CREATE INDEX `research_watches_user_idx` ON `research_watches` (`user_id`);--> statement-breakpoint
+CREATE INDEX `research_watches_due_idx` ON `research_watches` (`active`,`next_run_at`);
\ No newline at end of file
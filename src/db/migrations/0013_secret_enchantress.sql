@@ -0,0 +1,20 @@
+CREATE TABLE `llm_usage` (
+	`id` varchar(36) NOT NULL DEFAULT (UUID()),
+	`user_id` varchar(255),
+	`conversation_id` varchar(36),
+	`message_id` varchar(255),
+	`provider` varchar(50) NOT NULL,
+	`model` varchar(100) NOT NULL,
+	`operation` varchar(100) NOT NULL,
+	`input_tokens` int NOT NULL,
+	`cached_input_tokens` int NOT NULL,
+	`output_tokens` int NOT NULL,
+	`reasoning_tokens` int NOT NULL,
+	`estimated_cost_usd` double,
+	`created_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `llm_usage_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `llm_usage_user_created_idx` ON `llm_usage` (`user_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `llm_usage_created_idx` ON `llm_usage` (`created_at`);
\ No newline at end of file
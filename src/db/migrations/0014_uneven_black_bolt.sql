@@ -0,0 +1 @@
+ALTER TABLE `research_jobs` ADD `watch_id` varchar(36);
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { mysqlTable, varchar, text, int, json, boolean, datetime } from 'drizzle-orm/mysql-core';
+import { mysqlTable, varchar, text, mediumtext, int, double, json, boolean, datetime, index } from 'drizzle-orm/mysql-core';
 import { sql } from 'drizzle-orm';
 
 // API calls table to track all API interactions
@@ -31,6 +31,22 @@ export const apiCalls = mysqlTable('api_calls', {
   updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
 });
 
+// Conversations table - named chat threads owned by a user
+export const conversations = mysqlTable('conversations', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull().default(sql`(UUID())`),
+
+  // Ownership and display
+  userId: varchar('user_id', { length: 255 }).notNull(),
+  title: varchar('title', { length: 255 }).notNull().default('New conversation'),
+
+  // Activity
+  lastMessageAt: datetime('last_message_at'),
+
+  // Metadata
+  createdAt: datetime('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
+});
+
 // Messages table to store user and bot messages
 export const messages = mysqlTable('messages', {
   id: varchar('id', { length: 36 }).primaryKey().notNull().default(sql`(UUID())`),
@@ -47,19 +63,268 @@ export const messages = mysqlTable('messages', {
   // User context
   sessionId: varchar('session_id', { length: 255 }).default(''),
   userId: varchar('user_id', { length: 255 }).default(''),
+  conversationId: varchar('conversation_id', { length: 36 }),
   
   // Metadata
   createdAt: datetime('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
   updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
 });
 
+// Research jobs table - durable queue for asynchronous research runs
+export const researchJobs = mysqlTable('research_jobs', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull().default(sql`(UUID())`),
+
+  // Job identification - the user message that triggered the research
+  messageId: varchar('message_id', { length: 255 }).notNull().unique(),
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // 'pending', 'running', 'retrying', 'completed', 'failed' or 'cancelled'
+  attempts: int('attempts').notNull().default(0),
+  nextAttemptAt: datetime('next_attempt_at'), // When a 'retrying' job may be claimed again
+
+  // Research input and output
+  input: json('input').notNull(), // Conversation messages sent to the research model
+  userLocation: varchar('user_location', { length: 255 }), // State code of the resolved location
+  location: json('location'), // Resolved { state, region, zip? }
+  result: json('result'), // research_results, key_developments, citations
+  error: text('error'),
+  errorHistory: json('error_history'), // One entry per failed attempt
+  cacheKey: varchar('cache_key', { length: 64 }), // Set when the result can be shared through the research cache
+
+  // Follow-up research on one key development of an earlier answer
+  parentMessageId: varchar('parent_message_id', { length: 255 }), // The bot message holding the development
+  parentDevelopment: int('parent_development'), // The development's number
+
+  // Re-run of an earlier answer, diffed against it
+  refreshOfMessageId: varchar('refresh_of_message_id', { length: 255 }), // The bot message being refreshed
+
+  // Scheduled run of a research watch, reported through a notification instead of the chat room
+  watchId: varchar('watch_id', { length: 36 }),
+
+  // User context
+  sessionId: varchar('session_id', { length: 255 }).default(''),
+  userId: varchar('user_id', { length: 255 }).default(''),
+  conversationId: varchar('conversation_id', { length: 36 }),
+
+  // Worker lease
+  lockedBy: varchar('locked_by', { length: 64 }),
+  lockedAt: datetime('locked_at'),
+
+  // Timing
+  startedAt: datetime('started_at'),
+  completedAt: datetime('completed_at'),
+
+  // Metadata
+  createdAt: datetime('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Completed research shared between identical first-turn questions
+export const researchCache = mysqlTable('research_cache', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull().default(sql`(UUID())`),
+
+  // Lookup - sha256 of the normalized query and state
+  cacheKey: varchar('cache_key', { length: 64 }).notNull().unique(),
+  normalizedQuery: text('normalized_query').notNull(),
+  state: varchar('state', { length: 50 }),
+
+  // Cached research
+  result: json('result').notNull(), // research_results, key_developments, citations
+  sourceMessageId: varchar('source_message_id', { length: 255 }),
+  hitCount: int('hit_count').notNull().default(0),
+
+  // Timing
+  researchedAt: datetime('researched_at').notNull(),
+  expiresAt: datetime('expires_at').notNull(),
+
+  // Metadata
+  createdAt: datetime('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Responses to POST /api/chat remembered by Idempotency-Key, so client retries are not reprocessed
+export const idempotencyKeys = mysqlTable('idempotency_keys', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull().default(sql`(UUID())`),
+
+  // Lookup - sha256 of the caller scope and the client's key
+  keyHash: varchar('key_hash', { length: 64 }).notNull().unique(),
+  idempotencyKey: varchar('idempotency_key', { length: 255 }).notNull(),
+  scope: varchar('scope', { length: 255 }).notNull(), // User ID, or the client IP for anonymous requests
+  requestHash: varchar('request_hash', { length: 64 }).notNull(), // sha256 of the request body
+
+  // Stored outcome
+  status: varchar('status', { length: 20 }).notNull().default('processing'), // 'processing' or 'completed'
+  messageId: varchar('message_id', { length: 255 }),
+  response: json('response'), // The original ChatResponse
+
+  // Timing
+  expiresAt: datetime('expires_at').notNull(),
+
+  // Metadata
+  createdAt: datetime('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Copies of cited pages as fetched during citation validation, kept for audit
+export const citationSnapshots = mysqlTable('citation_snapshots', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull().default(sql`(UUID())`),
+
+  // Links
+  messageId: varchar('message_id', { length: 255 }).notNull(), // The bot message that cites the page
+  researchMessageId: varchar('research_message_id', { length: 255 }), // The user message that triggered the research
+  citationId: int('citation_id').notNull(),
+
+  // Fetch
+  url: text('url').notNull(), // The URL as cited
+  finalUrl: text('final_url'), // Where redirects ended up
+  statusCode: int('status_code'),
+  headers: json('headers'), // Response headers
+  contentType: varchar('content_type', { length: 255 }),
+
+  // Content
+  contentText: mediumtext('content_text'), // Extracted text of HTML, XML and plain text pages
+  contentHash: varchar('content_hash', { length: 64 }), // sha256 of the raw response body
+  contentLength: int('content_length'), // Raw response body size in bytes
+  fetchedAt: datetime('fetched_at').notNull(),
+
+  // Metadata
+  createdAt: datetime('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
+}, (table) => ({
+  messageCitationIdx: index('citation_snapshots_message_citation_idx').on(table.messageId, table.citationId),
+  researchMessageIdx: index('citation_snapshots_research_message_idx').on(table.researchMessageId),
+}));
+
+// Per-user chat settings (the users table itself is managed externally)
+export const userPreferences = mysqlTable('user_preferences', {
+  userId: varchar('user_id', { length: 255 }).primaryKey().notNull(),
+
+  // How questions are answered: 'direct', 'evaluate' or 'research' (null = deployment default)
+  answerMode: varchar('answer_mode', { length: 20 }),
+
+  // Default location for research: a ZIP, "City, ST", state code or state name (null = not set)
+  location: varchar('location', { length: 255 }),
+
+  // Metadata
+  createdAt: datetime('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Topics a user asked to be kept up to date on; research is re-run on each watch's cadence
+export const researchWatches = mysqlTable('research_watches', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull().default(sql`(UUID())`),
+
+  // Ownership and topic
+  userId: varchar('user_id', { length: 255 }).notNull(),
+  query: text('query').notNull(),
+  state: varchar('state', { length: 2 }), // Two-letter state code the research focuses on
+  cadence: varchar('cadence', { length: 20 }).notNull(), // 'daily' or 'weekly'
+  active: boolean('active').notNull().default(true),
+  conversationId: varchar('conversation_id', { length: 36 }), // Where each run's question and answer are saved
+
+  // Scheduling
+  nextRunAt: datetime('next_run_at').notNull(),
+  lastRunAt: datetime('last_run_at'),
+  pendingMessageId: varchar('pending_message_id', { length: 255 }), // Research of the run in progress
+
+  // Last completed run, compared with the next one
+  lastMessageId: varchar('last_message_id', { length: 255 }),
+  lastResult: json('last_result'), // key_developments and citations
+  lastError: text('last_error'),
+
+  // Metadata
+  createdAt: datetime('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
+}, (table) => ({
+  userIdx: index('research_watches_user_idx').on(table.userId),
+  dueIdx: index('research_watches_due_idx').on(table.active, table.nextRunAt),
+}));
+
+// Notifications for a user, kept until they are delivered to a connected client
+export const notifications = mysqlTable('notifications', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull().default(sql`(UUID())`),
+
+  userId: varchar('user_id', { length: 255 }).notNull(),
+  type: varchar('type', { length: 50 }).notNull(), // e.g. 'watch_update'
+  title: varchar('title', { length: 255 }).notNull(),
+  body: text('body').notNull(),
+  data: json('data'), // Type-specific details, e.g. the watch and the research message
+
+  // Delivery
+  deliveredAt: datetime('delivered_at'), // Sent to one of the user's WebSocket sessions
+  readAt: datetime('read_at'),
+
+  // Metadata
+  createdAt: datetime('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
+}, (table) => ({
+  userDeliveredIdx: index('notifications_user_delivered_idx').on(table.userId, table.deliveredAt),
+}));
+
+// LLM usage table - token counts and estimated cost of every model call
+export const llmUsage = mysqlTable('llm_usage', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull().default(sql`(UUID())`),
+
+  // Who the call was made for; null for anonymous chat
+  userId: varchar('user_id', { length: 255 }),
+  conversationId: varchar('conversation_id', { length: 36 }),
+  messageId: varchar('message_id', { length: 255 }), // The user message being answered or researched
+
+  // Call
+  provider: varchar('provider', { length: 50 }).notNull(),
+  model: varchar('model', { length: 100 }).notNull(),
+  operation: varchar('operation', { length: 100 }).notNull(), // 'research' or the structured output name, e.g. 'scope_classification'
+
+  // Usage
+  inputTokens: int('input_tokens').notNull(),
+  cachedInputTokens: int('cached_input_tokens').notNull(),
+  outputTokens: int('output_tokens').notNull(),
+  reasoningTokens: int('reasoning_tokens').notNull(),
+  estimatedCostUsd: double('estimated_cost_usd'), // Null when the model has no known price
+
+  // Metadata
+  createdAt: datetime('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: datetime('updated_at').default(sql`CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP`).notNull(),
+}, (table) => ({
+  userCreatedIdx: index('llm_usage_user_created_idx').on(table.userId, table.createdAt),
+  createdIdx: index('llm_usage_created_idx').on(table.createdAt),
+}));
+
 export type SelectApiCall = typeof apiCalls.$inferSelect;
 export type InsertApiCall = typeof apiCalls.$inferInsert;
+export type SelectConversation = typeof conversations.$inferSelect;
+export type InsertConversation = typeof conversations.$inferInsert;
 export type SelectMessage = typeof messages.$inferSelect;
 export type InsertMessage = typeof messages.$inferInsert;
+export type SelectResearchJob = typeof researchJobs.$inferSelect;
+export type InsertResearchJob = typeof researchJobs.$inferInsert;
+export type SelectResearchCacheEntry = typeof researchCache.$inferSelect;
+export type InsertResearchCacheEntry = typeof researchCache.$inferInsert;
+export type SelectIdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type InsertIdempotencyKey = typeof idempotencyKeys.$inferInsert;
+export type SelectCitationSnapshot = typeof citationSnapshots.$inferSelect;
+export type InsertCitationSnapshot = typeof citationSnapshots.$inferInsert;
+export type SelectUserPreferences = typeof userPreferences.$inferSelect;
+export type InsertUserPreferences = typeof userPreferences.$inferInsert;
+export type SelectResearchWatch = typeof researchWatches.$inferSelect;
+export type InsertResearchWatch = typeof researchWatches.$inferInsert;
+export type SelectNotification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type SelectLlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = typeof llmUsage.$inferInsert;
 
 // Utility types for API operations
 export type CreateApiCall = Omit<InsertApiCall, 'id' | 'createdAt' | 'updatedAt'>;
 export type UpdateApiCall = Partial<Omit<InsertApiCall, 'id' | 'createdAt'>>;
+export type CreateConversation = Omit<InsertConversation, 'id' | 'createdAt' | 'updatedAt'>;
+export type UpdateConversation = Partial<Omit<InsertConversation, 'id' | 'userId' | 'createdAt'>>;
 export type CreateMessage = Omit<InsertMessage, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateMessage = Partial<Omit<InsertMessage, 'id' | 'createdAt'>>;
\ No newline at end of file
+export type UpdateMessage = Partial<Omit<InsertMessage, 'id' | 'createdAt'>>;
+export type CreateResearchJob = Omit<InsertResearchJob, 'id' | 'createdAt' | 'updatedAt'>;
+export type UpdateResearchJob = Partial<Omit<InsertResearchJob, 'id' | 'createdAt'>>;
+export type CreateResearchCacheEntry = Omit<InsertResearchCacheEntry, 'id' | 'hitCount' | 'createdAt' | 'updatedAt'>;
+export type CreateIdempotencyKey = Omit<InsertIdempotencyKey, 'id' | 'status' | 'messageId' | 'response' | 'createdAt' | 'updatedAt'>;
+export type UpdateUserPreferences = Partial<Omit<InsertUserPreferences, 'userId' | 'createdAt' | 'updatedAt'>>;
+export type CreateCitationSnapshot = Omit<InsertCitationSnapshot, 'id' | 'createdAt' | 'updatedAt'>;
+export type CreateResearchWatch = Omit<InsertResearchWatch, 'id' | 'createdAt' | 'updatedAt'>;
+export type UpdateResearchWatch = Partial<Omit<InsertResearchWatch, 'id' | 'userId' | 'createdAt'>>;
+export type CreateNotification = Omit<InsertNotification, 'id' | 'deliveredAt' | 'readAt' | 'createdAt' | 'updatedAt'>;
+export type CreateLlmUsage = Omit<InsertLlmUsage, 'id' | 'createdAt' | 'updatedAt'>;
@@ -0,0 +1,45 @@
+// LLM providers - model access behind a swappable adapter
+import { LlmProvider } from './types';
+import { OpenAiProvider } from './openAiProvider';
+import { StubLlmProvider } from './stubProvider';
+import { logger } from '../utils/logger';
+
+export type { LlmProvider, ResearchRequest, ParseRequest, LlmUsage, UsageContext } from './types';
+export { setUsageRecorder } from './usage';
+export { estimateCost } from './pricing';
+export { OpenAiProvider } from './openAiProvider';
+export { StubLlmProvider } from './stubProvider';
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Create a provider by name ('openai' or 'stub')
+ */
+export const createLlmProvider = (name: string = 'openai'): LlmProvider => {
+  switch (name) {
+    case 'openai':
+      return new OpenAiProvider();
+    case 'stub':
+      return new StubLlmProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+};
+
+/**
+ * Get the provider selected by the LLM_PROVIDER environment variable
+ */
+export const getLlmProvider = (): LlmProvider => {
+  if (!provider) {
+    provider = createLlmProvider(process.env.LLM_PROVIDER || 'openai');
+    logger.info(`Using LLM provider: ${provider.name}`);
+  }
+  return provider;
+};
+
+/**
+ * Override the active provider (tests and tooling)
+ */
+export const setLlmProvider = (override: LlmProvider | null): void => {
+  provider = override;
+};
@@ -0,0 +1,114 @@
+import OpenAI from 'openai';
+import { zodTextFormat } from 'openai/helpers/zod';
+import type { Response } from 'openai/resources/responses/responses';
+import { z } from 'zod';
+import { LlmProvider, ParseRequest, ResearchRequest, UsageContext } from './types';
+import { readResponseUsage, reportUsage } from './usage';
+import {
+  ResearchResponse,
+  ResearchResponseSchema,
+  ScopeClassification,
+  ScopeClassificationSchema,
+} from '../utils/researchSchemas';
+import { ResearchSourcesInstructions, ScopeClassificationPrompt } from '../utils/prompts';
+
+const DEFAULT_MODEL = 'gpt-4o';
+const RESEARCH_MAX_OUTPUT_TOKENS = 90000;
+
+export class OpenAiProvider implements LlmProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(apiKey: string | undefined = process.env.OPENAI_API_KEY) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  /**
+   * Classify whether the question is in scope and extract its topic, state and utility
+   */
+  async classifyScope(input: string, usage?: UsageContext): Promise<ScopeClassification> {
+    const classification = await this.parse({
+      schema: ScopeClassificationSchema,
+      name: 'scope_classification',
+      instructions: ScopeClassificationPrompt,
+      input,
+      usage,
+    });
+
+    if (!classification) {
+      throw new Error('Scope classifier returned no result');
+    }
+    return classification;
+  }
+
+  /**
+   * Run the research prompt, streaming raw output through onTextDelta
+   */
+  async research(request: ResearchRequest): Promise<ResearchResponse | null> {
+    // Using OpenAI Structured Outputs with Zod schemas to ensure properly formatted response
+    // This guarantees the response will conform to our defined schema structure
+    const stream = this.client.responses.stream({
+      prompt: {
+        id: process.env.RESEARCH_PROMPT_ID!,
+      },
+      instructions: ResearchSourcesInstructions,
+      input: request.input,
+      text: {
+        format: zodTextFormat(ResearchResponseSchema, 'research_response'),
+      },
+      max_output_tokens: RESEARCH_MAX_OUTPUT_TOKENS,
+    }, { signal: request.signal });
+
+    if (request.onTextDelta) {
+      const onTextDelta = request.onTextDelta;
+      stream.on('response.output_text.delta', (event) => onTextDelta(event.delta));
+    }
+
+    // Keep the latest response snapshot so usage is recorded even when the call fails or is aborted
+    let response: Response | undefined;
+    stream.on('event', (event) => {
+      if ('response' in event) {
+        response = event.response;
+      }
+    });
+
+    try {
+      const parsed = await stream.finalResponse();
+      response = parsed;
+      return parsed.output_parsed;
+    } finally {
+      this.reportUsage(response, 'research', request.usage);
+    }
+  }
+
+  /**
+   * Generic structured output call validated against a Zod schema
+   */
+  async parse<S extends z.ZodTypeAny>(request: ParseRequest<S>): Promise<z.infer<S> | null> {
+    let response: Response | undefined;
+    try {
+      response = await this.client.responses.create({
+        model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
+        instructions: request.instructions,
+        input: request.input,
+        text: {
+          format: zodTextFormat(request.schema, request.name),
+        },
+      });
+
+      // Parsed here rather than by the SDK so a response that fails validation still has its usage recorded
+      return response.output_text ? request.schema.parse(JSON.parse(response.output_text)) : null;
+    } finally {
+      this.reportUsage(response, request.name, request.usage);
+    }
+  }
+
+  private reportUsage(response: Response | undefined, operation: string, context?: UsageContext) {
+    if (!response) return;
+
+    const usage = readResponseUsage(response, this.name, operation, context);
+    if (usage) {
+      reportUsage(usage);
+    }
+  }
+}
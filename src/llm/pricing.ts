@@ -0,0 +1,76 @@
+import { logger } from '../utils/logger';
+
+// USD per million tokens. Reasoning tokens are billed as output tokens.
+export interface ModelPrice {
+  input: number;
+  cached_input: number;
+  output: number;
+}
+
+export interface TokenCounts {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+}
+
+// List prices; LLM_PRICES overrides or extends them, e.g. {"gpt-4o":{"input":2.5,"cached_input":1.25,"output":10}}
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, cached_input: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, cached_input: 0.075, output: 0.6 },
+  'gpt-4.1': { input: 2, cached_input: 0.5, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, cached_input: 0.1, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, cached_input: 0.025, output: 0.4 },
+  'gpt-5': { input: 1.25, cached_input: 0.125, output: 10 },
+  'gpt-5-mini': { input: 0.25, cached_input: 0.025, output: 2 },
+  'o3': { input: 2, cached_input: 0.5, output: 8 },
+  'o3-deep-research': { input: 10, cached_input: 2.5, output: 40 },
+  'o4-mini': { input: 1.1, cached_input: 0.275, output: 4.4 },
+  'o4-mini-deep-research': { input: 2, cached_input: 0.5, output: 8 },
+};
+
+let prices: Record<string, ModelPrice> | null = null;
+
+const getPrices = (): Record<string, ModelPrice> => {
+  if (!prices) {
+    let overrides: Record<string, ModelPrice> = {};
+    try {
+      overrides = process.env.LLM_PRICES ? JSON.parse(process.env.LLM_PRICES) : {};
+    } catch (error) {
+      logger.error('Ignoring LLM_PRICES, it is not valid JSON:', error);
+    }
+    prices = { ...DEFAULT_PRICES, ...overrides };
+  }
+  return prices;
+};
+
+/**
+ * Price of a model. Responses name dated snapshots such as gpt-4o-2024-08-06,
+ * so the longest listed name the model starts with is used.
+ */
+export const findModelPrice = (model: string): ModelPrice | null => {
+  const listed = getPrices();
+  const name = Object.keys(listed)
+    .filter(candidate => model === candidate || model.startsWith(`${candidate}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return name ? listed[name] : null;
+};
+
+/**
+ * Estimated cost of a call in USD, or null for a model without a price
+ */
+export const estimateCost = (model: string, tokens: TokenCounts): number | null => {
+  const price = findModelPrice(model);
+  if (!price) return null;
+
+  const uncachedInput = Math.max(tokens.inputTokens - tokens.cachedInputTokens, 0);
+  return (uncachedInput * price.input
+    + tokens.cachedInputTokens * price.cached_input
+    + tokens.outputTokens * price.output) / 1_000_000;
+};
+
+/**
+ * Forget parsed LLM_PRICES (tests)
+ */
+export const resetPrices = (): void => {
+  prices = null;
+};
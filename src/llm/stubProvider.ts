@@ -0,0 +1,82 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { LlmProvider, ParseRequest, ResearchRequest } from './types';
+import {
+  ResearchResponse,
+  ResearchResponseSchema,
+  ScopeClassification,
+  ScopeClassificationSchema,
+} from '../utils/researchSchemas';
+import { logger } from '../utils/logger';
+import defaultFixtures from './fixtures/stubResponses.json';
+
+const STREAM_CHUNK_SIZE = 40; // characters per simulated delta
+
+export interface StubFixtures {
+  scope: ScopeClassification;
+  research: ResearchResponse;
+  // Canned structured outputs keyed by ParseRequest.name
+  parse: Record<string, unknown>;
+}
+
+/**
+ * Deterministic offline provider that serves canned responses from a JSON fixture file.
+ * Used for local development without an API key and in tests.
+ */
+export class StubLlmProvider implements LlmProvider {
+  readonly name = 'stub';
+  private fixtures: StubFixtures;
+
+  constructor(fixtures?: StubFixtures) {
+    this.fixtures = fixtures || StubLlmProvider.loadFixtures(process.env.LLM_STUB_FIXTURES_PATH);
+  }
+
+  /**
+   * Load fixtures from a file, falling back to the bundled defaults
+   */
+  static loadFixtures(filePath?: string): StubFixtures {
+    if (!filePath) {
+      return defaultFixtures as StubFixtures;
+    }
+
+    logger.info(`Loading LLM stub fixtures from ${filePath}`);
+    const fixtures = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return {
+      scope: fixtures.scope ?? defaultFixtures.scope,
+      research: fixtures.research ?? defaultFixtures.research,
+      parse: fixtures.parse ?? {},
+    };
+  }
+
+  async classifyScope(_input: string): Promise<ScopeClassification> {
+    return ScopeClassificationSchema.parse(this.fixtures.scope);
+  }
+
+  async research(request: ResearchRequest): Promise<ResearchResponse | null> {
+    const research = ResearchResponseSchema.parse(this.fixtures.research);
+    if (request.signal?.aborted) {
+      throw new Error('Request was aborted.');
+    }
+
+    if (request.onTextDelta) {
+      // Replay the serialized payload in chunks so streaming consumers behave as with a live model
+      const serialized = JSON.stringify(research);
+      for (let i = 0; i < serialized.length; i += STREAM_CHUNK_SIZE) {
+        await new Promise(resolve => setImmediate(resolve));
+        if (request.signal?.aborted) {
+          throw new Error('Request was aborted.');
+        }
+        request.onTextDelta(serialized.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+    }
+
+    return research;
+  }
+
+  async parse<S extends z.ZodTypeAny>(request: ParseRequest<S>): Promise<z.infer<S> | null> {
+    if (!(request.name in this.fixtures.parse)) {
+      throw new Error(`No stub fixture found for structured output "${request.name}"`);
+    }
+    return request.schema.parse(this.fixtures.parse[request.name]);
+  }
+}
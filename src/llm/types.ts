@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { ResearchResponse, ScopeClassification } from '../utils/researchSchemas';
+
+// Who an LLM call is made for, recorded with its token usage
+export interface UsageContext {
+  userId?: string;
+  conversationId?: string;
+  messageId?: string; // The user message being answered or researched
+}
+
+// Token usage reported by a provider for one call
+export interface LlmUsage {
+  provider: string;
+  model: string;
+  operation: string; // 'research' or the ParseRequest name
+  inputTokens: number;
+  cachedInputTokens: number; // Part of inputTokens served from the prompt cache
+  outputTokens: number;
+  reasoningTokens: number; // Part of outputTokens spent on reasoning
+  context: UsageContext;
+}
+
+export interface ResearchRequest {
+  // Conversation transcript sent to the research model
+  input: string;
+  // Called with each raw chunk of model output as it is generated
+  onTextDelta?: (chunk: string) => void;
+  // Aborts the request when the research is cancelled
+  signal?: AbortSignal;
+  usage?: UsageContext;
+}
+
+export interface ParseRequest<S extends z.ZodTypeAny> {
+  schema: S;
+  // Name of the structured output format, also used to look up stub fixtures
+  name: string;
+  instructions: string;
+  input: string;
+  usage?: UsageContext;
+}
+
+/**
+ * Adapter interface for the language model backing chat and research.
+ * Implementations: OpenAI (production) and a file-backed stub (offline/tests).
+ */
+export interface LlmProvider {
+  readonly name: string;
+  classifyScope(input: string, usage?: UsageContext): Promise<ScopeClassification>;
+  research(request: ResearchRequest): Promise<ResearchResponse | null>;
+  parse<S extends z.ZodTypeAny>(request: ParseRequest<S>): Promise<z.infer<S> | null>;
+}
@@ -0,0 +1,51 @@
+import type { ResponseUsage } from 'openai/resources/responses/responses';
+import { LlmUsage, UsageContext } from './types';
+import { logger } from '../utils/logger';
+
+export type UsageRecorder = (usage: LlmUsage) => void;
+
+let recorder: UsageRecorder | null = null;
+
+/**
+ * Set where providers report token usage. Without a recorder usage is discarded.
+ */
+export const setUsageRecorder = (override: UsageRecorder | null): void => {
+  recorder = override;
+};
+
+/**
+ * Report one call's token usage. Recording never fails the call it describes.
+ */
+export const reportUsage = (usage: LlmUsage): void => {
+  if (!recorder) return;
+
+  try {
+    recorder(usage);
+  } catch (error) {
+    logger.error('Failed to record LLM usage:', error);
+  }
+};
+
+/**
+ * Read the usage block of an OpenAI Responses API response
+ * @returns Null when the response carries no usage.
+ */
+export const readResponseUsage = (
+  response: { model: string; usage?: ResponseUsage | null },
+  provider: string,
+  operation: string,
+  context: UsageContext = {}
+): LlmUsage | null => {
+  if (!response.usage) return null;
+
+  return {
+    provider,
+    model: response.model,
+    operation,
+    inputTokens: response.usage.input_tokens || 0,
+    cachedInputTokens: response.usage.input_tokens_details?.cached_tokens || 0,
+    outputTokens: response.usage.output_tokens || 0,
+    reasoningTokens: response.usage.output_tokens_details?.reasoning_tokens || 0,
+    context,
+  };
+};
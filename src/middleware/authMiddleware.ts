@@ -104,4 +104,24 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
     // Silently continue without auth if token is invalid
     next();
   }
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Admin-only middleware - use after authenticateToken.
+ * Admins are listed by email in the comma-separated ADMIN_EMAILS variable.
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!req.user || !adminEmails.includes(req.user.email.toLowerCase())) {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin access required'
+    });
+  }
+
+  return next();
+};
@@ -1,95 +1,286 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { ANSWER_MODES, WATCH_CADENCES, isAnswerMode, isWatchCadence } from '../utils/types';
+import { resolveLocation } from '../utils/locationResolver';
 
 export const validateChatRequest = (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { messages } = req.body;
+    const { message, messages } = req.body;
     
-    // Check if messages exist
-    if (!messages) {
+    // Clients send only the new user turn; context is rebuilt from the conversation
+    if (message !== undefined) {
+      const error = validateMessageContent(message, 'Message');
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error,
+        });
+      }
+    } else {
+      // Legacy clients post the whole history; only its last user turn is used
+      if (!messages) {
+        return res.status(400).json({
+          success: false,
+          error: 'Message is required',
+        });
+      }
+      
+      // Check if messages is an array
+      if (!Array.isArray(messages)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Messages must be an array',
+        });
+      }
+      
+      // Check if array is not empty
+      if (messages.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Messages array cannot be empty',
+        });
+      }
+      
+      // Check if array is not too long
+      if (messages.length > 50) {
+        return res.status(400).json({
+          success: false,
+          error: 'Too many messages. Maximum 50 messages allowed.',
+        });
+      }
+      
+      // Validate each message
+      for (let i = 0; i < messages.length; i++) {
+        const item = messages[i];
+        
+        // Check if message has required fields
+        if (!item || !item.role || item.content === undefined) {
+          return res.status(400).json({
+            success: false,
+            error: `Message at index ${i} must have 'role' and 'content' fields`,
+          });
+        }
+        
+        // System instructions are set by the server only
+        if (!['user', 'assistant'].includes(item.role)) {
+          return res.status(400).json({
+            success: false,
+            error: `Message at index ${i} has invalid role. Must be 'user' or 'assistant'`,
+          });
+        }
+        
+        const error = validateMessageContent(item.content, `Message at index ${i} content`);
+        if (error) {
+          return res.status(400).json({
+            success: false,
+            error,
+          });
+        }
+      }
+      
+      if (!messages.some((item: { role: string }) => item.role === 'user')) {
+        return res.status(400).json({
+          success: false,
+          error: 'Messages must include a user message',
+        });
+      }
+    }
+    
+    // Check conversation ID if provided
+    const { conversation_id } = req.body;
+    if (conversation_id !== undefined && (typeof conversation_id !== 'string' || conversation_id.trim().length === 0)) {
       return res.status(400).json({
         success: false,
-        error: 'Messages are required',
+        error: 'conversation_id must be a non-empty string',
       });
     }
     
-    // Check if messages is an array
-    if (!Array.isArray(messages)) {
+    // Check answer mode if provided
+    const { answer_mode } = req.body;
+    if (answer_mode !== undefined && !isAnswerMode(answer_mode)) {
       return res.status(400).json({
         success: false,
-        error: 'Messages must be an array',
+        error: `answer_mode must be one of: ${ANSWER_MODES.join(', ')}`,
       });
     }
     
-    // Check if array is not empty
-    if (messages.length === 0) {
+    logger.info('Validated chat request');
+    return next();
+    
+  } catch (error) {
+    logger.error('Error in validation middleware:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error during validation',
+    });
+  }
+};
+
+/**
+ * Check a single chat turn, returning an error message if it is invalid
+ */
+const validateMessageContent = (content: unknown, label: string): string | null => {
+  if (typeof content !== 'string') {
+    return `${label} must be a string`;
+  }
+  
+  if (content.length > 10000) {
+    return `${label} is too long. Maximum 10,000 characters allowed.`;
+  }
+  
+  if (content.trim().length === 0) {
+    return `${label} cannot be empty`;
+  }
+  
+  return null;
+};
+
+export const validateConversationRequest = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { title } = req.body;
+    const titleRequired = req.method === 'PATCH';
+
+    if (title === undefined) {
+      if (titleRequired) {
+        return res.status(400).json({
+          success: false,
+          error: 'Title is required',
+        });
+      }
+      return next();
+    }
+
+    if (typeof title !== 'string' || title.trim().length === 0) {
       return res.status(400).json({
         success: false,
-        error: 'Messages array cannot be empty',
+        error: 'Title must be a non-empty string',
       });
     }
-    
-    // Check if array is not too long
-    if (messages.length > 50) {
+
+    if (title.length > 255) {
       return res.status(400).json({
         success: false,
-        error: 'Too many messages. Maximum 50 messages allowed.',
+        error: 'Title is too long. Maximum 255 characters allowed.',
       });
     }
-    
-    // Validate each message
-    for (let i = 0; i < messages.length; i++) {
-      const message = messages[i];
-      
-      // Check if message has required fields
-      if (!message.role || !message.content) {
+
+    return next();
+  } catch (error) {
+    logger.error('Error in conversation validation middleware:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error during validation',
+    });
+  }
+};
+
+export const validatePreferencesRequest = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { answer_mode, location } = req.body;
+
+    if (answer_mode === undefined && location === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'answer_mode or location is required',
+      });
+    }
+
+    // null clears the preference so the deployment default applies
+    if (answer_mode !== undefined && answer_mode !== null && !isAnswerMode(answer_mode)) {
+      return res.status(400).json({
+        success: false,
+        error: `answer_mode must be one of: ${ANSWER_MODES.join(', ')}, or null`,
+      });
+    }
+
+    if (location !== undefined && location !== null) {
+      if (typeof location !== 'string' || location.length > 255) {
         return res.status(400).json({
           success: false,
-          error: `Message at index ${i} must have 'role' and 'content' fields`,
+          error: 'location must be a string of at most 255 characters, or null',
         });
       }
-      
-      // Check if role is valid
-      if (!['user', 'assistant', 'system'].includes(message.role)) {
+
+      if (!resolveLocation(location)) {
         return res.status(400).json({
           success: false,
-          error: `Message at index ${i} has invalid role. Must be 'user', 'assistant', or 'system'`,
+          error: 'location must be a US ZIP code, state, or city and state',
         });
       }
-      
-      // Check if content is a string
-      if (typeof message.content !== 'string') {
+    }
+
+    return next();
+  } catch (error) {
+    logger.error('Error in preferences validation middleware:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error during validation',
+    });
+  }
+};
+
+export const validateWatchRequest = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { query, state, cadence, active } = req.body;
+    const isCreate = req.method === 'POST';
+
+    if (!isCreate && query === undefined && state === undefined && cadence === undefined && active === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'query, state, cadence or active is required',
+      });
+    }
+
+    if (isCreate || query !== undefined) {
+      if (typeof query !== 'string' || query.trim().length === 0) {
         return res.status(400).json({
           success: false,
-          error: `Message at index ${i} content must be a string`,
+          error: 'Query must be a non-empty string',
         });
       }
-      
-      // Check content length
-      if (message.content.length > 10000) {
+
+      if (query.length > 1000) {
         return res.status(400).json({
           success: false,
-          error: `Message at index ${i} content is too long. Maximum 10,000 characters allowed.`,
+          error: 'Query is too long. Maximum 1,000 characters allowed.',
         });
       }
-      
-      // Check if content is not empty
-      if (message.content.trim().length === 0) {
+    }
+
+    if (isCreate || cadence !== undefined) {
+      if (!isWatchCadence(cadence)) {
         return res.status(400).json({
           success: false,
-          error: `Message at index ${i} content cannot be empty`,
+          error: `cadence must be one of: ${WATCH_CADENCES.join(', ')}`,
         });
       }
     }
-    
-    logger.info(`Validated chat request with ${messages.length} messages`);
+
+    // Watches are researched for a whole state; null clears it
+    if (state !== undefined && state !== null) {
+      const location = typeof state === 'string' && state.length <= 255 ? resolveLocation(state) : null;
+      if (!location) {
+        return res.status(400).json({
+          success: false,
+          error: 'state must be a US state code or name, or null',
+        });
+      }
+      req.body.state = location.state;
+    }
+
+    if (active !== undefined && typeof active !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'active must be a boolean',
+      });
+    }
+
     return next();
-    
   } catch (error) {
-    logger.error('Error in validation middleware:', error);
+    logger.error('Error in watch validation middleware:', error);
     res.status(500).json({
       success: false,
       error: 'Internal server error during validation',
     });
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/adminController';
+import { authenticateToken, requireAdmin } from '../middleware/authMiddleware';
+
+const router = Router();
+
+router.use(authenticateToken, requireAdmin);
+
+/**
+ * DELETE /admin/research-cache?state=IL
+ * DELETE /admin/research-cache?question=Are%20ComEd%20rates%20going%20up%3F&state=IL
+ * Purge every cached research result for a state, or the result for one question
+ */
+router.delete('/research-cache', AdminController.purgeResearchCache);
+
+/**
+ * DELETE /admin/research-cache/:key
+ * Purge a single cached research result
+ */
+router.delete('/research-cache/:key', AdminController.purgeResearchCacheKey);
+
+/**
+ * GET /admin/usage?from=2026-10-01&to=2026-11-01&group_by=user
+ * LLM token usage and estimated cost, grouped by user, model, operation or day
+ */
+router.get('/usage', AdminController.getUsageReport);
+
+export default router;
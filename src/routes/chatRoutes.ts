@@ -1,15 +1,46 @@
 import express from 'express';
-import { ChatController } from '../controllers';
-import { validateChatRequest } from '../middleware/validation';
+import { ChatController, ConversationController, NotificationController, PreferencesController, WatchController } from '../controllers';
+import { validateChatRequest, validateConversationRequest, validatePreferencesRequest, validateWatchRequest } from '../middleware/validation';
+import { authenticateToken, optionalAuth } from '../middleware/authMiddleware';
 
 const router = express.Router();
 
 // Chat endpoints
-router.post('/', validateChatRequest, ChatController.sendMessage);
-router.get('/research/:messageId', ChatController.getResearchStatus);
-router.get('/message/:messageId', ChatController.getMessageResult);
+router.post('/', optionalAuth, validateChatRequest, ChatController.sendMessage);
+router.get('/research/:messageId', optionalAuth, ChatController.getResearchStatus);
+router.delete('/research/:messageId', optionalAuth, ChatController.cancelResearch);
+router.get('/research/:messageId/stream', optionalAuth, ChatController.streamResearch);
+router.get('/message/:messageId', optionalAuth, ChatController.getMessageResult);
+router.get('/message/:messageId/citations/:citationId/snapshot', optionalAuth, ChatController.getCitationSnapshot);
+router.post('/message/:messageId/developments/:number/expand', optionalAuth, ChatController.expandDevelopment);
+router.post('/message/:messageId/refresh', optionalAuth, ChatController.refreshResearch);
+router.get('/message/:messageId/export', optionalAuth, ChatController.exportResearch);
+router.get('/message/:messageId/bibliography', optionalAuth, ChatController.exportBibliography);
 router.get('/session/:sessionId/history', ChatController.getSessionHistory);
 router.get('/user/:userId/history', ChatController.getUserHistory);
 router.get('/health', ChatController.healthCheck);
 
+// Conversation endpoints
+router.post('/conversations', authenticateToken, validateConversationRequest, ConversationController.createConversation);
+router.get('/conversations', authenticateToken, ConversationController.listConversations);
+router.get('/conversations/:conversationId', authenticateToken, ConversationController.getConversation);
+router.patch('/conversations/:conversationId', authenticateToken, validateConversationRequest, ConversationController.updateConversation);
+router.delete('/conversations/:conversationId', authenticateToken, ConversationController.deleteConversation);
+router.get('/conversations/:conversationId/bibliography', authenticateToken, ConversationController.exportBibliography);
+
+// Preference endpoints
+router.get('/preferences', authenticateToken, PreferencesController.getPreferences);
+router.put('/preferences', authenticateToken, validatePreferencesRequest, PreferencesController.updatePreferences);
+
+// Watch endpoints
+router.post('/watches', authenticateToken, validateWatchRequest, WatchController.createWatch);
+router.get('/watches', authenticateToken, WatchController.listWatches);
+router.get('/watches/:watchId', authenticateToken, WatchController.getWatch);
+router.patch('/watches/:watchId', authenticateToken, validateWatchRequest, WatchController.updateWatch);
+router.delete('/watches/:watchId', authenticateToken, WatchController.deleteWatch);
+
+// Notification endpoints
+router.get('/notifications', authenticateToken, NotificationController.listNotifications);
+router.post('/notifications/:notificationId/read', authenticateToken, NotificationController.markRead);
+
 export default router; 
\ No newline at end of file
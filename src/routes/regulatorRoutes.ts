@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { RegulatorController } from '../controllers/regulatorController';
+
+const router = Router();
+
+/**
+ * GET /regulators
+ * Regions, states and prioritized regulator sources
+ */
+router.get('/', RegulatorController.listRegulators);
+
+/**
+ * GET /regulators/:state
+ * Commissions and prioritized sources for a state code or name
+ */
+router.get('/:state', RegulatorController.getStateRegulators);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { UsageController } from '../controllers/usageController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+
+/**
+ * GET /usage/me
+ * Current user's token usage and estimated cost for today and this month, with their quotas
+ */
+router.get('/me', authenticateToken, UsageController.getMyUsage);
+
+export default router;
@@ -10,9 +10,13 @@ import path from 'path';
 import { createServer } from 'http';
 import { chatRoutes } from './routes';
 import authRoutes from './routes/authRoutes';
+import adminRoutes from './routes/adminRoutes';
+import regulatorRoutes from './routes/regulatorRoutes';
+import usageRoutes from './routes/usageRoutes';
 import { logger } from './utils/logger';
 import { apiCallLogger } from './middleware/apiCallLogger';
-import { WebSocketService } from './services';
+import { WebSocketService, ResearchWorker, IdempotencyService, NotificationService, WatchScheduler, LlmUsageService } from './services';
+import { setUsageRecorder } from './llm';
 import { AuthService } from './services/authService';
 
 const app = express();
@@ -119,6 +123,9 @@ app.get('/api/status', (req, res) => {
 // API routes
 app.use('/api/chat', chatRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/regulators', regulatorRoutes);
+app.use('/api/usage', usageRoutes);
 
 // Serve static files from frontend build
 const frontendDistPath = path.join(__dirname, '../../frontend/dist');
@@ -136,6 +143,12 @@ app.get('*', (req, res) => {
 // Initialize WebSocket service
 let webSocketService: WebSocketService;
 
+// Background worker that runs queued research jobs
+const researchWorker = new ResearchWorker();
+
+// Re-runs research for topic watches on their schedule
+const watchScheduler = new WatchScheduler();
+
 // Initialize database and start server
 async function startServer() {
   try {
@@ -150,11 +163,34 @@ async function startServer() {
       AuthService.setWebSocketService(webSocketService);
       
       logger.info('WebSocket service initialized and connected to AuthService');
+
+      // Watch notifications go to the user's room when they are connected
+      NotificationService.setWebSocketService(webSocketService);
+
+      // Token usage of every model call is stored for per-user accounting and quotas
+      setUsageRecorder(usage => {
+        LlmUsageService.record(usage);
+      });
+
+      // Start processing research jobs, resuming any interrupted by the last shutdown
+      researchWorker.start().catch(error => {
+        logger.error('Failed to start research worker:', error);
+      });
+      watchScheduler.start();
+
+      // Expired keys are also ignored on lookup; this just keeps the table small
+      IdempotencyService.purgeExpired().then(purged => {
+        if (purged > 0) {
+          logger.info(`Removed ${purged} expired idempotency keys`);
+        }
+      });
     });
     
     // Graceful shutdown
     const gracefulShutdown = async () => {
       logger.info('Shutting down gracefully...');
+      watchScheduler.stop();
+      await researchWorker.stop();
       if (webSocketService) {
         webSocketService.close();
       }
@@ -1,14 +1,29 @@
 import OpenAI from 'openai';
 import { MessageService } from './messageService';
-import { AssistantPrompt, decideResearchPrompt, EvaluationPrompt } from '../utils/prompts';
-import { performResearchAsync } from '../utils/researchHelper';
+import { AssistantPrompt, EvaluationPrompt } from '../utils/prompts';
+import { ResearchJobService } from './researchJobService';
+import { ResearchCacheService } from './researchCacheService';
+import { CitationSnapshotService } from './citationSnapshotService';
+import { ConversationService } from './conversationService';
 import { logger } from '../utils/logger';
-import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getLlmProvider, UsageContext } from '../llm';
+import {
+  AssistantAnswer,
+  AssistantAnswerSchema,
+  Citation,
+  KeyDevelopment,
+  OutOfScopeReason,
+  ResponseEvaluation,
+  ResponseEvaluationSchema,
+  ScopeClassification,
+} from '../utils/researchSchemas';
+import { AnswerMode, isAnswerMode } from '../utils/types';
+import { formatResearchMessage, ResearchExpansion } from '../utils/researchHelper';
+import type { SourceQuality } from '../utils/sourceQuality';
+import { getWeaklyGroundedDevelopments } from '../utils/groundingCheck';
+import { LocationSource, ResolvedLocation, findLocationInText, resolveLocation } from '../utils/locationResolver';
+import { UserPreferencesService } from './userPreferencesService';
+import { LlmUsageService } from './llmUsageService';
 
 const fallbackResponse = {
   response: 'Sorry, I cannot answer that question. I can only answer questions related to utilities and billing.',
@@ -16,6 +31,40 @@ const fallbackResponse = {
   citations: []
 };
 
+// Replies tailored to why a question was classified out of scope
+const outOfScopeResponses: Record<OutOfScopeReason, string> = {
+  not_energy_related: "I can help with questions about utility rates, energy bills and energy regulation in the United States, but that question is outside what I cover. Is there anything about your utility service I can look into?",
+  outside_us: "I only cover U.S. utilities and regulators, so I can't reliably answer questions about other countries. If you have a question about a U.S. state or utility, I'm happy to help.",
+  account_specific: "I can't access your utility account, so I can't see your balance, payments or usage. Your utility's customer service or online account can help with that, and I can explain the rates, charges and programs that apply to you.",
+  unsafe_or_abusive: "Sorry, I can't help with that request. I can answer questions about utility rates, billing and energy regulation.",
+  unclear: "I'm not sure what you're asking. Could you tell me more about the utility, bill or rate question you have in mind?",
+};
+
+const researchPendingResponse = {
+  response: "To provide you with the most accurate and up-to-date information on your query, I'm now accessing the latest sources. This will allow me to give you a more comprehensive and reliable answer",
+  confidence_score: 0,
+  citations: []
+};
+
+// Scope for location lookups that have no classified question
+const NO_SCOPE: ScopeClassification = {
+  in_scope: true,
+  topic_category: null,
+  state: null,
+  utility: null,
+  intent: null,
+  out_of_scope_reason: null,
+};
+
+// Number of stored messages replayed as context for a new turn
+const CONTEXT_MESSAGE_LIMIT = 20;
+
+// Recent turns given to the scope classifier so follow-ups keep their topic and state
+const SCOPE_CONTEXT_MESSAGES = 5;
+
+// Deep research on every in-scope question unless ANSWER_MODE or the user says otherwise
+const DEFAULT_ANSWER_MODE: AnswerMode = 'research';
+
 export type MessageRole = 'user' | 'assistant' | 'system';
 
 export type Message = {
@@ -24,22 +73,68 @@ export type Message = {
 }
 
 export interface ChatRequest {
-  messages: Array<Message>;
-  userLocation?: string;
+  message?: string; // The new user turn; earlier turns are loaded from the conversation
+  messages?: Array<Message>; // Deprecated: only the last user turn is used
+  userLocation?: string; // ZIP, "City, ST", state code or state name
+  conversation_id?: string; // Continue an existing conversation; a new one is started when omitted
+  answer_mode?: AnswerMode; // Overrides the user's and the deployment's answer mode
 }
 
 export interface ChatResponse {
   success: boolean;
   response: {
     response: string;
-    confidence_score: number;
+    confidence_score?: number;
     citations: any[];
+    key_developments?: any[];
   };
   message_id: string;
+  research_message_id?: string; // The question's message when message_id is a stored answer
+  conversation_id?: string;
+  answer_mode?: AnswerMode;
   research_pending: boolean;
+  source_quality?: SourceQuality; // Set when the answer is built from research
+  cached?: boolean; // Answered from the research cache
+  researched_at?: string; // When cached research was originally run
+  expansion?: ResearchExpansion; // Set for follow-up research on a key development
+  refresh_of?: string; // Set when the research re-runs an earlier answer
   timestamp: string;
 }
 
+// Follow-up research recorded on the answer it expands
+export interface DevelopmentExpansion {
+  development: number;
+  message_id: string; // The research request, for GET /api/chat/research/:messageId
+  requested_at: string;
+}
+
+// Refresh recorded on the answer it re-runs
+export interface ResearchRefreshRequest {
+  message_id: string; // The research request, for GET /api/chat/research/:messageId
+  requested_at: string;
+}
+
+export class ConversationNotFoundError extends Error {
+  constructor(conversationId: string) {
+    super(`Conversation not found: ${conversationId}`);
+    this.name = 'ConversationNotFoundError';
+  }
+}
+
+export class KeyDevelopmentNotFoundError extends Error {
+  constructor(messageId: string, development: number) {
+    super(`Key development ${development} not found on message ${messageId}`);
+    this.name = 'KeyDevelopmentNotFoundError';
+  }
+}
+
+export class ResearchAnswerNotFoundError extends Error {
+  constructor(messageId: string) {
+    super(`Research answer not found: ${messageId}`);
+    this.name = 'ResearchAnswerNotFoundError';
+  }
+}
+
 export class ChatService {
   /**
    * Process a chat request
@@ -49,117 +144,143 @@ export class ChatService {
     userId: string,
     sessionId?: string,
   ): Promise<ChatResponse> {
-    const { messages, userLocation } = request;
-    const userLastMessage = messages[messages.length - 1].content;
+    const { userLocation } = request;
+    const userLastMessage = this.getUserTurn(request);
+    if (!userLastMessage) {
+      throw new Error('Chat request does not contain a user message');
+    }
     const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+    // Continuing a conversation requires that it belongs to the user
+    let conversationId = request.conversation_id;
+    if (conversationId) {
+      const conversation = userId ? await ConversationService.getConversation(conversationId, userId) : null;
+      if (!conversation) {
+        throw new ConversationNotFoundError(conversationId);
+      }
+    }
+    await LlmUsageService.assertWithinQuota(userId);
+
     try {
+      // Start a new conversation when the client did not continue an existing one
+      if (!conversationId && userId) {
+        const conversation = await ConversationService.createConversationFromMessage(userId, userLastMessage);
+        conversationId = conversation?.id;
+      }
+
+      // Context comes from persisted history, never from client-supplied turns
+      const history = conversationId ? await this.getConversationContext(conversationId) : [];
+      const messages: Message[] = [...history, { role: 'user', content: userLastMessage }];
+      const usage: UsageContext = { userId, conversationId, messageId };
+
       // Save user message to database
       await MessageService.createUserMessage(
         messageId,
         userLastMessage,
         sessionId,
-        userId
+        userId,
+        conversationId
       );
+      if (conversationId) {
+        await ConversationService.touchConversation(conversationId);
+      }
 
-      logger.info(`Processing chat request with ${messages.length} messages`);
+      const answerMode = await this.resolveAnswerMode(request.answer_mode, userId);
+      logger.info(`Processing chat request with ${messages.length} messages (answer mode: ${answerMode})`);
       let responseJson: any = null;
       let needsResearch = false;
+      let assistantAnswer: AssistantAnswer | null = null;
+      let evaluation: ResponseEvaluation['evaluation'] | null = null;
 
-      // Get initial assistant response
-      // const response = await openai.chat.completions.create({
-      //   model: "gpt-4o",
-      //   messages: [
-      //     {
-      //       role: "system",
-      //       content: AssistantPrompt,
-      //     },
-      //     ...messages,
-      //   ],
-      //   response_format: { type: "json_object" },
-      // });
-
-      // const responseText = response.choices[0].message.content;
-
-      // if (!responseText) {
-      //   // No answer, so research it
-      //   needsResearch = true;
-      //   responseJson = {
-      //     response: "I'm looking into that for you. Let me search for the most current information",
-      //     confidence_score: 0,
-      //     citations: []
-      //   };
-      // } else {
-      //   // Parse the response text to json
-      //   const parsedResponse = JSON.parse(responseText);
-      //   responseJson = parsedResponse;
-      //   logger.info(`Received OpenAI response with confidence: ${parsedResponse.confidence_score}`);
-        
-      //   // Evaluate the response quality
-      //   const messagesToEvaluate: ChatCompletionMessageParam = {
-      //     role: "user",
-      //     content: `Response: ${responseText}\nQuery: ${userLastMessage}`,
-      //   };
-        
-      //   const evaluationResponse = await openai.chat.completions.create({
-      //     model: "gpt-4o",
-      //     messages: [
-      //       {
-      //         role: "system",
-      //         content: EvaluationPrompt,
-      //       },
-      //       messagesToEvaluate,
-      //     ],
-      //     response_format: { type: "json_object" },
-      //   });
-        
-      //   const evaluationResponseText = evaluationResponse.choices[0].message.content;
-      //   if (evaluationResponseText) {
-      //     logger.info(`Received OpenAI evaluation response: ${evaluationResponseText}`);
-      //     const evaluationResponseJson = JSON.parse(evaluationResponseText);
-      //     logger.info(`Received OpenAI evaluation response: ${evaluationResponseJson.evaluation.needs_research}`);
-          
-      //     if (evaluationResponseJson.evaluation.needs_research) {
-      //       needsResearch = true;
-      //       // Enhance the response to indicate research is starting
-      //       responseJson.response = "To provide you with the most accurate and up-to-date information on your query, I'm now accessing the latest sources. This will allow me to give you a more comprehensive and reliable answer";
-      //     }
-      //   }
-      // }
-
-      // deep searching always, this part above is just in case you guys want to have a assistant 
-      // that does not do research, so it can answer about common questions without doing research
-
-      const response = await openai.responses.create({
-        prompt: {
-          id: process.env.ASSISTANT_PROMPT_ID!,
-        },
-        input: userLastMessage,
-      });
-      
-
-      //logger.info(JSON.stringify(response, null, 2));
-      const responseText = response.output_text;
-
-      responseJson = JSON.parse(responseText || '{"research": false}');
-      needsResearch = responseJson.research;
-      if (!needsResearch) {
-        responseJson = fallbackResponse;
+      // Questions outside utilities and billing get a reply tailored to the reason in every mode
+      const scope = await this.classifyScope(messages, usage);
+      const location = await this.resolveUserLocation(userLastMessage, scope, userLocation, userId);
+      await MessageService.updateMessageMetadata(messageId, { scope, location });
+      if (!scope.in_scope) {
         return {
           success: true,
-          response: fallbackResponse,
+          response: this.getOutOfScopeResponse(scope),
           message_id: messageId,
-          research_pending: needsResearch,
+          conversation_id: conversationId,
+          answer_mode: answerMode,
+          research_pending: false,
           timestamp: new Date().toISOString(),
         };
+      }
+
+      if (answerMode === 'research') {
+        needsResearch = true;
       } else {
-        responseJson = {
-          response: "To provide you with the most accurate and up-to-date information on your query, I'm now accessing the latest sources. This will allow me to give you a more comprehensive and reliable answer",
-          confidence_score: 0,
-          citations: []
+        // Quick answer from the assistant prompt
+        assistantAnswer = await this.getAssistantAnswer(messages, usage);
+        if (!assistantAnswer && answerMode === 'direct') {
+          throw new Error('Assistant returned no answer');
+        }
+
+        if (assistantAnswer && answerMode === 'evaluate') {
+          evaluation = await this.evaluateAnswer(assistantAnswer.response, userLastMessage, usage);
+        }
+
+        // Escalate to research when the evaluator asks for it (or could not give a verdict)
+        needsResearch = answerMode === 'evaluate' && (!assistantAnswer || !evaluation || evaluation.needs_research);
+      }
+
+      responseJson = needsResearch
+        ? researchPendingResponse
+        : { ...assistantAnswer, citations: [] };
+
+      const researchLocation = location?.state;
+
+      // First-turn questions do not depend on earlier context, so their research can be shared
+      const cacheKey = needsResearch && history.length === 0 && ResearchCacheService.isEnabled()
+        ? ResearchCacheService.buildKey(userLastMessage, researchLocation)
+        : undefined;
+      const cached = cacheKey ? await ResearchCacheService.lookup(cacheKey) : null;
+      if (cached) {
+        const { research_results, key_developments, citations, source_quality } = cached.result;
+        const researchedAt = cached.researchedAt.toISOString();
+
+        const cachedBotMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        await MessageService.createBotMessage(
+          cachedBotMessageId,
+          formatResearchMessage(research_results, key_developments, source_quality),
+          {
+            research_results,
+            key_developments,
+            citations,
+            ...(source_quality && { source_quality }),
+            weakly_grounded: getWeaklyGroundedDevelopments(key_developments),
+            answer_mode: answerMode,
+            ...(evaluation && { evaluation }),
+            cached: true,
+            cache: { key: cached.key, researched_at: researchedAt },
+            research_message_id: messageId,
+          },
+          sessionId,
+          userId,
+          conversationId
+        );
+        // The reused citations point at the pages fetched for the original research
+        if (cached.sourceMessageId) {
+          await CitationSnapshotService.copySnapshots(cached.sourceMessageId, cachedBotMessageId);
+        }
+
+        return {
+          success: true,
+          response: { response: research_results, citations, key_developments },
+          message_id: cachedBotMessageId,
+          research_message_id: messageId,
+          conversation_id: conversationId,
+          answer_mode: answerMode,
+          research_pending: false,
+          source_quality,
+          cached: true,
+          researched_at: researchedAt,
+          timestamp: new Date().toISOString(),
         };
       }
        
+
       // Save bot message to database
       const botMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       await MessageService.createBotMessage(
@@ -168,20 +289,31 @@ export class ChatService {
         {
           confidence_score: responseJson.confidence_score,
           citations: [],
-          original_response: responseJson
+          original_response: assistantAnswer || responseJson,
+          answer_mode: answerMode,
+          ...(evaluation && { evaluation }),
         },
         sessionId,
-        userId
+        userId,
+        conversationId
       );
 
-      // If research is needed, start it asynchronously
+      // If research is needed, queue it for the research worker
       if (needsResearch) {
         //get all the messages in the conversation
         const allMessages: Message[] = [...messages, { role: 'assistant', content: responseJson.response }];
-        // Don't await this - let it run in the background
-        performResearchAsync(messageId, allMessages, userId, userLocation).catch(error => {
-          logger.error(`Background research failed for ${messageId}:`, error);
+        const job = await ResearchJobService.enqueue({
+          messageId,
+          messages: allMessages,
+          userId,
+          sessionId,
+          conversationId,
+          location: location || undefined,
+          cacheKey,
         });
+        if (!job) {
+          throw new Error(`Failed to queue research for message ${messageId}`);
+        }
       }
 
       // Return the immediate response
@@ -189,6 +321,8 @@ export class ChatService {
         success: true,
         response: responseJson,
         message_id: messageId,
+        conversation_id: conversationId,
+        answer_mode: answerMode,
         research_pending: needsResearch,
         timestamp: new Date().toISOString(),
       };
@@ -209,12 +343,328 @@ export class ChatService {
         success: false,
         response: fallbackResponse,
         message_id: messageId,
+        conversation_id: conversationId,
         research_pending: false,
         timestamp: new Date().toISOString(),
       };
     }
   }
 
+  /**
+   * Queue follow-up research on one key development of an earlier research answer.
+   * The research covers only that development and the sources it cites, not the conversation,
+   * and the answer is linked back to the parent message.
+   */
+  static async expandDevelopment(
+    parentMessageId: string,
+    developmentNumber: number,
+    userId: string,
+    sessionId?: string
+  ): Promise<ChatResponse> {
+    const parent = await MessageService.getMessageByMessageId(parentMessageId);
+    const metadata = (parent?.metadata || {}) as {
+      key_developments?: KeyDevelopment[];
+      citations?: Citation[];
+      location?: ResolvedLocation;
+      research_message_id?: string;
+    };
+    const development = parent && parent.type === 'bot' && MessageService.isAccessibleBy(parent, userId)
+      ? metadata.key_developments?.find(keyDevelopment => keyDevelopment.number === developmentNumber)
+      : undefined;
+    if (!parent || !development) {
+      throw new KeyDevelopmentNotFoundError(parentMessageId, developmentNumber);
+    }
+    await LlmUsageService.assertWithinQuota(userId);
+
+    const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const conversationId = parent.conversationId || undefined;
+    const expansion: ResearchExpansion = { parent_message_id: parentMessageId, development: development.number };
+
+    await MessageService.createUserMessage(
+      messageId,
+      `Tell me more about #${development.number}: ${development.title}`,
+      sessionId,
+      userId,
+      conversationId
+    );
+    if (conversationId) {
+      await ConversationService.touchConversation(conversationId);
+    }
+
+    // Researched where the parent answer was. Generated development text is full of docket numbers
+    // and figures, so it is not searched for a location.
+    const location = metadata.location
+      || (await this.findResearchInput(metadata.research_message_id || parent.sessionId || ''))?.location
+      || await this.resolveUserLocation('', NO_SCOPE, undefined, userId);
+    await MessageService.updateMessageMetadata(messageId, { expansion, location });
+
+    const sources = (metadata.citations || []).filter(citation => development.citations.includes(citation.id));
+    const job = await ResearchJobService.enqueue({
+      messageId,
+      messages: [{ role: 'user', content: this.buildExpansionQuery(development, sources) }],
+      userId,
+      sessionId,
+      conversationId,
+      location: location || undefined,
+      expansion,
+    });
+    if (!job) {
+      throw new Error(`Failed to queue research for message ${messageId}`);
+    }
+
+    // The parent lists its follow-ups so clients can show them under the development
+    const requested: DevelopmentExpansion = { development: development.number, message_id: messageId, requested_at: new Date().toISOString() };
+    await MessageService.appendToMetadataList(parentMessageId, 'expansions', requested);
+    logger.info(`Queued follow-up research ${messageId} on development ${development.number} of message ${parentMessageId}`);
+
+    return {
+      success: true,
+      response: researchPendingResponse,
+      message_id: messageId,
+      conversation_id: conversationId,
+      answer_mode: 'research',
+      research_pending: true,
+      expansion,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Re-run the research behind an earlier answer, with its original query and location.
+   * The new answer is diffed against the earlier one when the research completes.
+   */
+  static async refreshResearch(previousMessageId: string, userId: string, sessionId?: string): Promise<ChatResponse> {
+    const previous = await MessageService.getMessageByMessageId(previousMessageId);
+    const metadata = (previous?.metadata || {}) as {
+      key_developments?: KeyDevelopment[];
+      research_message_id?: string;
+    };
+    if (!previous || previous.type !== 'bot' || !MessageService.isAccessibleBy(previous, userId) || !metadata.key_developments) {
+      throw new ResearchAnswerNotFoundError(previousMessageId);
+    }
+
+    // Research answers stored before research_message_id was recorded keep the ID in sessionId
+    const researchMessageId = metadata.research_message_id || previous.sessionId || '';
+    const original = await this.findResearchInput(researchMessageId);
+    if (!original) {
+      throw new ResearchAnswerNotFoundError(previousMessageId);
+    }
+    await LlmUsageService.assertWithinQuota(userId);
+
+    const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const conversationId = previous.conversationId || undefined;
+
+    await MessageService.createUserMessage(messageId, "What's changed since this answer?", sessionId, userId, conversationId);
+    if (conversationId) {
+      await ConversationService.touchConversation(conversationId);
+    }
+    await MessageService.updateMessageMetadata(messageId, {
+      refresh_of: previousMessageId,
+      ...(original.location && { location: original.location }),
+    });
+
+    const job = await ResearchJobService.enqueue({
+      messageId,
+      messages: original.messages,
+      userId,
+      sessionId,
+      conversationId,
+      location: original.location || undefined,
+      refreshOf: previousMessageId,
+    });
+    if (!job) {
+      throw new Error(`Failed to queue research for message ${messageId}`);
+    }
+
+    const requested: ResearchRefreshRequest = { message_id: messageId, requested_at: new Date().toISOString() };
+    await MessageService.appendToMetadataList(previousMessageId, 'refreshes', requested);
+    logger.info(`Queued refresh ${messageId} of message ${previousMessageId}`);
+
+    return {
+      success: true,
+      response: researchPendingResponse,
+      message_id: messageId,
+      conversation_id: conversationId,
+      answer_mode: 'research',
+      research_pending: true,
+      refresh_of: previousMessageId,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * The messages and location research was run with. Answers served from the research
+   * cache have no job of their own, so the question is read from the user message.
+   */
+  private static async findResearchInput(
+    researchMessageId: string
+  ): Promise<{ messages: Message[]; location: ResolvedLocation | null } | null> {
+    if (!researchMessageId) return null;
+
+    const job = await ResearchJobService.getJobByMessageId(researchMessageId);
+    if (job) {
+      return {
+        messages: job.input as Message[],
+        location: (job.location as ResolvedLocation | null) || resolveLocation(job.userLocation),
+      };
+    }
+
+    const question = await MessageService.getMessageByMessageId(researchMessageId);
+    if (!question || question.type !== 'user') return null;
+    return {
+      messages: [{ role: 'user', content: question.content }],
+      location: ((question.metadata || {}) as { location?: ResolvedLocation }).location || null,
+    };
+  }
+
+  /**
+   * Research request for a single key development, starting from the sources it cites
+   */
+  static buildExpansionQuery(development: KeyDevelopment, sources: Citation[]): string {
+    const sourceList = sources
+      .filter(source => source.url)
+      .map(source => `- ${source.title}: ${source.url}`)
+      .join('\n');
+
+    return [
+      'Research this development from an earlier answer in more depth.',
+      `Development: ${development.title}\n${development.description}`,
+      sourceList ? `Sources cited for it:\n${sourceList}` : '',
+      'Explain its current status, key dates, docket or case numbers, rate figures and what it means for customers. '
+        + 'Start from the cited sources and add newer or more authoritative ones.',
+    ].filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * Pick the answer mode: per request, then the user's preference, then the deployment default
+   */
+  static async resolveAnswerMode(requested: AnswerMode | undefined, userId?: string): Promise<AnswerMode> {
+    if (isAnswerMode(requested)) {
+      return requested;
+    }
+
+    if (userId) {
+      const preferred = await UserPreferencesService.getAnswerMode(userId);
+      if (preferred) return preferred;
+    }
+
+    return isAnswerMode(process.env.ANSWER_MODE) ? process.env.ANSWER_MODE : DEFAULT_ANSWER_MODE;
+  }
+
+  /**
+   * Resolve where the user is asking about. A location in the question wins over the
+   * one the client reported, which wins over the user's profile.
+   */
+  static async resolveUserLocation(
+    text: string,
+    scope: ScopeClassification,
+    requestLocation?: string,
+    userId?: string
+  ): Promise<(ResolvedLocation & { source: LocationSource }) | null> {
+    const fromMessage = findLocationInText(text) || resolveLocation(scope.state);
+    if (fromMessage) return { ...fromMessage, source: 'message' };
+
+    const fromRequest = resolveLocation(requestLocation);
+    if (fromRequest) return { ...fromRequest, source: 'request' };
+
+    const fromProfile = userId ? await UserPreferencesService.getLocation(userId) : null;
+    if (fromProfile) return { ...fromProfile, source: 'profile' };
+
+    return null;
+  }
+
+  /**
+   * Classify the latest question, using recent turns for context
+   */
+  private static async classifyScope(messages: Message[], usage: UsageContext): Promise<ScopeClassification> {
+    const scope = await getLlmProvider().classifyScope(this.toTranscript(messages.slice(-SCOPE_CONTEXT_MESSAGES)), usage);
+    const state = scope.state?.trim();
+    logger.info(`Scope classification: in scope ${scope.in_scope}, topic ${scope.topic_category}, state ${state}`);
+
+    return {
+      ...scope,
+      state: state ? (state.length === 2 ? state.toUpperCase() : state) : null,
+    };
+  }
+
+  /**
+   * Build the reply for an out-of-scope question
+   */
+  static getOutOfScopeResponse(scope: ScopeClassification): typeof fallbackResponse {
+    if (!scope.out_of_scope_reason) {
+      return fallbackResponse;
+    }
+    return { ...fallbackResponse, response: outOfScopeResponses[scope.out_of_scope_reason] };
+  }
+
+  /**
+   * Get a quick answer from the assistant prompt without research
+   */
+  private static async getAssistantAnswer(messages: Message[], usage: UsageContext): Promise<AssistantAnswer | null> {
+    const answer = await getLlmProvider().parse({
+      schema: AssistantAnswerSchema,
+      name: 'assistant_answer',
+      instructions: AssistantPrompt,
+      input: this.toTranscript(messages),
+      usage,
+    });
+
+    if (answer) {
+      logger.info(`Received assistant answer with confidence: ${answer.confidence_score}`);
+    }
+    return answer;
+  }
+
+  /**
+   * Ask the evaluation prompt whether a quick answer is good enough or needs research
+   */
+  private static async evaluateAnswer(answer: string, query: string, usage: UsageContext): Promise<ResponseEvaluation['evaluation'] | null> {
+    const result = await getLlmProvider().parse({
+      schema: ResponseEvaluationSchema,
+      name: 'response_evaluation',
+      instructions: EvaluationPrompt,
+      input: `Response: ${answer}\nQuery: ${query}`,
+      usage,
+    });
+
+    if (result) {
+      logger.info(`Received evaluation: quality ${result.evaluation.response_quality}, needs research: ${result.evaluation.needs_research}`);
+    }
+    return result?.evaluation ?? null;
+  }
+
+  /**
+   * Format chat turns as a plain-text transcript for the model
+   */
+  private static toTranscript(messages: Message[]): string {
+    return messages
+      .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n');
+  }
+
+  /**
+   * Get the new user turn from a request, accepting the legacy messages array
+   */
+  static getUserTurn(request: ChatRequest): string | undefined {
+    if (typeof request.message === 'string') {
+      return request.message;
+    }
+    return request.messages?.filter(message => message.role === 'user').pop()?.content;
+  }
+
+  /**
+   * Rebuild the conversation context from stored messages, oldest first
+   */
+  static async getConversationContext(conversationId: string, limit: number = CONTEXT_MESSAGE_LIMIT): Promise<Message[]> {
+    const history = await MessageService.getMessagesByConversationId(conversationId, limit);
+    return history
+      .reverse()
+      .map(message => ({
+        role: message.type === 'user' ? 'user' as const : 'assistant' as const,
+        content: message.content,
+      }));
+  }
+
   /**
    * Get message history for a session
    */
@@ -0,0 +1,138 @@
+import { CitationSnapshotDao, MessageDao } from '../dao';
+import { MessageService } from './messageService';
+import { SelectCitationSnapshot } from '../db/schema';
+import { logger } from '../utils/logger';
+import type { CitationValidationResult } from '../utils/researchHelper';
+
+export interface CitationSnapshot {
+  message_id: string;
+  citation_id: number;
+  url: string;
+  final_url: string | null;
+  status_code: number | null;
+  headers: Record<string, string>;
+  content_type: string | null;
+  content_text: string | null;
+  content_hash: string | null; // sha256 of the raw response body
+  content_length: number | null;
+  fetched_at: string;
+}
+
+export class CitationSnapshotService {
+  /**
+   * Store the pages fetched while validating a message's citations.
+   * Citations whose URL never responded have nothing to keep and are skipped.
+   * Snapshots from an earlier attempt at the same message are replaced.
+   */
+  static async saveSnapshots(
+    messageId: string,
+    researchMessageId: string | null,
+    validationResults: CitationValidationResult[]
+  ): Promise<number> {
+    try {
+      const snapshots = validationResults
+        .filter(validation => validation.snapshot)
+        .map(({ id, url, snapshot }) => ({
+          messageId,
+          researchMessageId,
+          citationId: id,
+          url,
+          finalUrl: snapshot!.finalUrl,
+          statusCode: snapshot!.statusCode,
+          headers: snapshot!.headers,
+          contentType: snapshot!.contentType,
+          contentText: snapshot!.text,
+          contentHash: snapshot!.contentHash,
+          contentLength: snapshot!.contentLength,
+          fetchedAt: snapshot!.fetchedAt,
+        }));
+
+      await CitationSnapshotDao.deleteByMessageId(messageId);
+      const saved = await CitationSnapshotDao.createMany(snapshots);
+      if (saved > 0) {
+        logger.info(`Saved ${saved} citation snapshots for message ${messageId}`);
+      }
+      return saved;
+    } catch (error) {
+      logger.error('Service error saving citation snapshots:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Link the snapshots taken for earlier research to another message that reuses its citations
+   */
+  static async copySnapshots(researchMessageId: string, messageId: string): Promise<number> {
+    try {
+      const existing = await CitationSnapshotDao.findByResearchMessageId(researchMessageId);
+
+      // Earlier copies share the research message, so keep one snapshot per citation
+      const byCitation = new Map<number, SelectCitationSnapshot>();
+      existing.forEach(snapshot => {
+        if (!byCitation.has(snapshot.citationId)) {
+          byCitation.set(snapshot.citationId, snapshot);
+        }
+      });
+
+      return await CitationSnapshotDao.createMany(
+        [...byCitation.values()].map(({ id, createdAt, updatedAt, ...snapshot }) => ({ ...snapshot, messageId }))
+      );
+    } catch (error) {
+      logger.error('Service error copying citation snapshots:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the snapshot of one citation on a message
+   */
+  static async getSnapshot(messageId: string, citationId: number, userId?: string): Promise<CitationSnapshot | null> {
+    try {
+      const message = await MessageDao.findByMessageId(messageId);
+      if (!message || !MessageService.isAccessibleBy(message, userId)) {
+        return null;
+      }
+
+      const snapshot = await CitationSnapshotDao.findByMessageAndCitation(messageId, citationId);
+      return snapshot ? this.toCitationSnapshot(snapshot) : null;
+    } catch (error) {
+      logger.error('Service error getting citation snapshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the latest snapshot of each citation on a message
+   */
+  static async getSnapshots(messageId: string): Promise<CitationSnapshot[]> {
+    try {
+      const snapshots = await CitationSnapshotDao.findByMessageId(messageId);
+      const byCitation = new Map<number, SelectCitationSnapshot>();
+      snapshots.forEach(snapshot => {
+        if (!byCitation.has(snapshot.citationId)) {
+          byCitation.set(snapshot.citationId, snapshot);
+        }
+      });
+      return [...byCitation.values()].map(snapshot => this.toCitationSnapshot(snapshot));
+    } catch (error) {
+      logger.error('Service error getting citation snapshots:', error);
+      return [];
+    }
+  }
+
+  private static toCitationSnapshot(snapshot: SelectCitationSnapshot): CitationSnapshot {
+    return {
+      message_id: snapshot.messageId,
+      citation_id: snapshot.citationId,
+      url: snapshot.url,
+      final_url: snapshot.finalUrl,
+      status_code: snapshot.statusCode,
+      headers: (snapshot.headers as Record<string, string> | null) || {},
+      content_type: snapshot.contentType,
+      content_text: snapshot.contentText,
+      content_hash: snapshot.contentHash,
+      content_length: snapshot.contentLength,
+      fetched_at: snapshot.fetchedAt.toISOString(),
+    };
+  }
+}
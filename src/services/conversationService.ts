@@ -0,0 +1,108 @@
+import { ConversationDao, MessageDao } from '../dao';
+import { SelectConversation } from '../db/schema';
+import { logger } from '../utils/logger';
+
+const MAX_TITLE_LENGTH = 255;
+const DERIVED_TITLE_LENGTH = 60;
+
+export class ConversationService {
+  /**
+   * Create a conversation for a user
+   */
+  static async createConversation(userId: string, title?: string): Promise<SelectConversation | null> {
+    try {
+      return await ConversationDao.create({
+        userId,
+        title: title?.trim() || 'New conversation',
+      });
+    } catch (error) {
+      logger.error('Service error creating conversation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create a conversation titled after the first message sent in it
+   */
+  static async createConversationFromMessage(userId: string, content: string): Promise<SelectConversation | null> {
+    return this.createConversation(userId, this.deriveTitle(content));
+  }
+
+  /**
+   * Get a conversation if it belongs to the user
+   */
+  static async getConversation(id: string, userId: string): Promise<SelectConversation | null> {
+    try {
+      return await ConversationDao.findByIdForUser(id, userId);
+    } catch (error) {
+      logger.error('Service error getting conversation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List a user's conversations, most recently active first
+   */
+  static async listConversations(userId: string, limit: number = 50, offset: number = 0): Promise<SelectConversation[]> {
+    try {
+      return await ConversationDao.findByUserId(userId, limit, offset);
+    } catch (error) {
+      logger.error('Service error listing conversations:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Rename a conversation owned by the user
+   */
+  static async renameConversation(id: string, userId: string, title: string): Promise<SelectConversation | null> {
+    try {
+      const conversation = await ConversationDao.findByIdForUser(id, userId);
+      if (!conversation) return null;
+
+      return await ConversationDao.update(id, { title: title.trim().slice(0, MAX_TITLE_LENGTH) });
+    } catch (error) {
+      logger.error('Service error renaming conversation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a conversation owned by the user, along with its messages
+   */
+  static async deleteConversation(id: string, userId: string): Promise<boolean> {
+    try {
+      const conversation = await ConversationDao.findByIdForUser(id, userId);
+      if (!conversation) return false;
+
+      const deletedMessages = await MessageDao.deleteByConversationId(id);
+      logger.info(`Deleted ${deletedMessages} messages from conversation ${id}`);
+      return await ConversationDao.deleteById(id);
+    } catch (error) {
+      logger.error('Service error deleting conversation:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record activity on a conversation
+   */
+  static async touchConversation(id: string): Promise<void> {
+    try {
+      await ConversationDao.update(id, { lastMessageAt: new Date() });
+    } catch (error) {
+      logger.error('Service error updating conversation activity:', error);
+    }
+  }
+
+  /**
+   * Build a conversation title from message text
+   */
+  static deriveTitle(content: string): string {
+    const normalized = content.replace(/\s+/g, ' ').trim();
+    if (normalized.length <= DERIVED_TITLE_LENGTH) {
+      return normalized || 'New conversation';
+    }
+    return `${normalized.slice(0, DERIVED_TITLE_LENGTH - 1).trimEnd()}…`;
+  }
+}
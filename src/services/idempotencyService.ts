@@ -0,0 +1,133 @@
+import { createHash } from 'crypto';
+import { IdempotencyKeyDao } from '../dao';
+import { logger } from '../utils/logger';
+
+const DEFAULT_TTL_HOURS = 24;
+
+export type IdempotencyCheck<T> =
+  | { status: 'new'; keyHash: string } // Process the request, then call complete()
+  | { status: 'replay'; response: T } // Same key and body: return the stored response
+  | { status: 'in_progress' } // The original request has not finished yet
+  | { status: 'mismatch' }; // Same key reused with a different body
+
+export class IdempotencyService {
+  /**
+   * Replay window from IDEMPOTENCY_KEY_TTL_HOURS
+   */
+  static getTtlMs(): number {
+    const hours = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+    return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : DEFAULT_TTL_HOURS * 60 * 60 * 1000;
+  }
+
+  /**
+   * Keys are scoped to the caller so one client cannot replay another's response
+   */
+  static buildKeyHash(key: string, scope: string): string {
+    return createHash('sha256').update(`${scope}|${key}`).digest('hex');
+  }
+
+  /**
+   * Hash of a request body that ignores key order
+   */
+  static hashRequest(body: unknown): string {
+    return createHash('sha256').update(stableStringify(body)).digest('hex');
+  }
+
+  /**
+   * Reserve a key for a request, or report how an earlier request with the same key went
+   */
+  static async begin<T>(key: string, scope: string, body: unknown): Promise<IdempotencyCheck<T>> {
+    const keyHash = this.buildKeyHash(key, scope);
+    const requestHash = this.hashRequest(body);
+
+    try {
+      let existing = await IdempotencyKeyDao.findByKeyHash(keyHash);
+      if (existing && existing.expiresAt <= new Date()) {
+        await IdempotencyKeyDao.deleteByKeyHash(keyHash);
+        existing = null;
+      }
+
+      if (!existing) {
+        const reserved = await IdempotencyKeyDao.reserve({
+          keyHash,
+          idempotencyKey: key,
+          scope,
+          requestHash,
+          expiresAt: new Date(Date.now() + this.getTtlMs()),
+        });
+        if (reserved) {
+          return { status: 'new', keyHash };
+        }
+
+        // Lost a race with a concurrent request using the same key
+        existing = await IdempotencyKeyDao.findByKeyHash(keyHash);
+        if (!existing) {
+          logger.warn(`Idempotency key could not be reserved, processing without it: ${key}`);
+          return { status: 'new', keyHash };
+        }
+      }
+
+      if (existing.requestHash !== requestHash) {
+        return { status: 'mismatch' };
+      }
+
+      if (existing.status === 'completed' && existing.response) {
+        logger.info(`Replaying response for idempotency key: ${key}`);
+        return { status: 'replay', response: existing.response as T };
+      }
+
+      return { status: 'in_progress' };
+    } catch (error) {
+      logger.error('Service error checking idempotency key:', error);
+      return { status: 'new', keyHash };
+    }
+  }
+
+  /**
+   * Store the response for a reserved key so retries get it back
+   */
+  static async complete(keyHash: string, messageId: string | null, response: unknown): Promise<void> {
+    try {
+      await IdempotencyKeyDao.complete(keyHash, messageId, response);
+    } catch (error) {
+      logger.error('Service error storing idempotent response:', error);
+    }
+  }
+
+  /**
+   * Free a reserved key after the request failed, so the client can retry it
+   */
+  static async release(keyHash: string): Promise<void> {
+    try {
+      await IdempotencyKeyDao.deleteByKeyHash(keyHash);
+    } catch (error) {
+      logger.error('Service error releasing idempotency key:', error);
+    }
+  }
+
+  /**
+   * Delete keys past their replay window
+   */
+  static async purgeExpired(): Promise<number> {
+    try {
+      return await IdempotencyKeyDao.deleteExpired();
+    } catch (error) {
+      logger.error('Service error purging idempotency keys:', error);
+      return 0;
+    }
+  }
+}
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
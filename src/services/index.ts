@@ -1,7 +1,24 @@
 // Services - Business logic layer
 export { ApiCallService } from './apiCallService';
 export { MessageService } from './messageService';
-export { ChatService } from './chatService';
+export { ChatService, ConversationNotFoundError, KeyDevelopmentNotFoundError, ResearchAnswerNotFoundError } from './chatService';
 export { WebSocketService } from './webSocketService';
 export { UserService } from './userService';
-export type { ChatRequest, ChatResponse } from './chatService'; 
\ No newline at end of file
+export { ConversationService } from './conversationService';
+export { UserPreferencesService } from './userPreferencesService';
+export { ResearchJobService } from './researchJobService';
+export { ResearchCacheService } from './researchCacheService';
+export { ResearchWorker } from './researchWorker';
+export { IdempotencyService } from './idempotencyService';
+export { CitationSnapshotService } from './citationSnapshotService';
+export { NotificationService } from './notificationService';
+export { ResearchWatchService, WatchLimitReachedError } from './researchWatchService';
+export { WatchScheduler } from './watchScheduler';
+export { LlmUsageService, QuotaExceededError, USAGE_GROUP_BYS } from './llmUsageService';
+export { ResearchExportService } from './researchExportService';
+export type { ChatRequest, ChatResponse } from './chatService';
+export type { UserPreferences } from './userPreferencesService';
+export type { CitationSnapshot } from './citationSnapshotService';
+export type { Notification } from './notificationService';
+export type { ResearchWatch } from './researchWatchService';
+export type { UserUsage, UsageReport } from './llmUsageService';
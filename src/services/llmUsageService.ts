@@ -0,0 +1,192 @@
+import { LlmUsageDao, UsageGroupBy, UsageTotals } from '../dao';
+import { SelectLlmUsage } from '../db/schema';
+import { estimateCost, LlmUsage } from '../llm';
+import { logger } from '../utils/logger';
+
+export type UsagePeriod = 'day' | 'month';
+
+export const USAGE_GROUP_BYS: UsageGroupBy[] = ['user', 'model', 'operation', 'day'];
+
+export interface UsageSummary {
+  period: UsagePeriod;
+  starts_at: string;
+  resets_at: string;
+  calls: number;
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  total_tokens: number;
+  estimated_cost_usd: number;
+  token_limit: number | null; // Null when the period has no token quota
+  cost_limit_usd: number | null; // Null when the period has no cost quota
+}
+
+export interface UserUsage {
+  day: UsageSummary;
+  month: UsageSummary;
+}
+
+export interface QuotaExceeded {
+  period: UsagePeriod;
+  limit_type: 'tokens' | 'cost';
+  limit: number;
+  used: number;
+  resets_at: string;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  group_by: UsageGroupBy;
+  rows: Array<Omit<UsageSummary, 'period' | 'starts_at' | 'resets_at' | 'token_limit' | 'cost_limit_usd'> & { key: string | null }>;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(readonly quota: QuotaExceeded) {
+    const used = quota.limit_type === 'cost'
+      ? `$${quota.used.toFixed(2)} of $${quota.limit.toFixed(2)}`
+      : `${quota.used} of ${quota.limit} tokens`;
+    super(`${quota.period === 'day' ? 'Daily' : 'Monthly'} usage quota reached (${used}). It resets at ${quota.resets_at}.`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// Unset or 0 means no quota
+const readLimit = (name: string): number | null => {
+  const limit = Number(process.env[name]);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+};
+
+const QUOTA_LIMITS: Record<UsagePeriod, { tokens: string; cost: string }> = {
+  day: { tokens: 'USAGE_DAILY_TOKEN_LIMIT', cost: 'USAGE_DAILY_COST_LIMIT_USD' },
+  month: { tokens: 'USAGE_MONTHLY_TOKEN_LIMIT', cost: 'USAGE_MONTHLY_COST_LIMIT_USD' },
+};
+
+export class LlmUsageService {
+  /**
+   * Record one LLM call with its estimated cost
+   */
+  static async record(usage: LlmUsage): Promise<SelectLlmUsage | null> {
+    try {
+      const estimatedCostUsd = estimateCost(usage.model, usage);
+      if (estimatedCostUsd === null) {
+        logger.warn(`No price known for model ${usage.model}, recording its usage without a cost`);
+      }
+
+      return await LlmUsageDao.create({
+        userId: usage.context.userId || null,
+        conversationId: usage.context.conversationId || null,
+        messageId: usage.context.messageId || null,
+        provider: usage.provider,
+        model: usage.model,
+        operation: usage.operation,
+        inputTokens: usage.inputTokens,
+        cachedInputTokens: usage.cachedInputTokens,
+        outputTokens: usage.outputTokens,
+        reasoningTokens: usage.reasoningTokens,
+        estimatedCostUsd,
+      });
+    } catch (error) {
+      logger.error('Service error recording LLM usage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * A user's usage for the current UTC day and month, with the quotas that apply
+   */
+  static async getUserUsage(userId: string, now: Date = new Date()): Promise<UserUsage> {
+    const [day, month] = await Promise.all(
+      (['day', 'month'] as UsagePeriod[]).map(period => this.getPeriodUsage(userId, period, now))
+    );
+    return { day, month };
+  }
+
+  /**
+   * The first quota the user has used up, or null when they are within all of them.
+   * Quotas are checked before a request starts, so a request that begins under
+   * quota may end over it.
+   */
+  static async findExceededQuota(userId: string, now: Date = new Date()): Promise<QuotaExceeded | null> {
+    const configured = (['day', 'month'] as UsagePeriod[]).some(period =>
+      readLimit(QUOTA_LIMITS[period].tokens) !== null || readLimit(QUOTA_LIMITS[period].cost) !== null);
+    if (!configured) return null;
+
+    const usage = await this.getUserUsage(userId, now);
+    for (const summary of [usage.day, usage.month]) {
+      if (summary.token_limit !== null && summary.total_tokens >= summary.token_limit) {
+        return { period: summary.period, limit_type: 'tokens', limit: summary.token_limit, used: summary.total_tokens, resets_at: summary.resets_at };
+      }
+      if (summary.cost_limit_usd !== null && summary.estimated_cost_usd >= summary.cost_limit_usd) {
+        return { period: summary.period, limit_type: 'cost', limit: summary.cost_limit_usd, used: summary.estimated_cost_usd, resets_at: summary.resets_at };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Throw QuotaExceededError when the user has used up a quota. Anonymous requests
+   * are not metered per user.
+   */
+  static async assertWithinQuota(userId: string | undefined): Promise<void> {
+    if (!userId) return;
+
+    const exceeded = await this.findExceededQuota(userId);
+    if (exceeded) {
+      logger.warn(`User ${userId} is over their ${exceeded.period} ${exceeded.limit_type} quota`);
+      throw new QuotaExceededError(exceeded);
+    }
+  }
+
+  /**
+   * Usage of all users between two points in time, grouped by user, model, operation or day
+   */
+  static async getUsageReport(from: Date, to: Date, groupBy: UsageGroupBy): Promise<UsageReport> {
+    const rows = await LlmUsageDao.summarize(from, to, groupBy);
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      group_by: groupBy,
+      rows: rows.map(({ key, ...totals }) => ({ key, ...this.toTotals(totals) })),
+    };
+  }
+
+  /**
+   * Start of the UTC day or month containing a point in time
+   */
+  static periodStart(period: UsagePeriod, now: Date): Date {
+    return period === 'day'
+      ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+
+  private static async getPeriodUsage(userId: string, period: UsagePeriod, now: Date): Promise<UsageSummary> {
+    const start = this.periodStart(period, now);
+    const reset = period === 'day'
+      ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 1))
+      : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+    const totals = await LlmUsageDao.sumForUser(userId, start);
+
+    return {
+      period,
+      starts_at: start.toISOString(),
+      resets_at: reset.toISOString(),
+      ...this.toTotals(totals),
+      token_limit: readLimit(QUOTA_LIMITS[period].tokens),
+      cost_limit_usd: readLimit(QUOTA_LIMITS[period].cost),
+    };
+  }
+
+  private static toTotals(totals: UsageTotals) {
+    return {
+      calls: totals.calls,
+      input_tokens: totals.inputTokens,
+      cached_input_tokens: totals.cachedInputTokens,
+      output_tokens: totals.outputTokens,
+      reasoning_tokens: totals.reasoningTokens,
+      total_tokens: totals.inputTokens + totals.outputTokens,
+      estimated_cost_usd: Math.round(totals.estimatedCostUsd * 1_000_000) / 1_000_000,
+    };
+  }
+}
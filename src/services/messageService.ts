@@ -10,7 +10,8 @@ export class MessageService {
     messageId: string,
     content: string,
     sessionId?: string,
-    userId?: string
+    userId?: string,
+    conversationId?: string
   ): Promise<SelectMessage | null> {
     try {
       const messageData: CreateMessage = {
@@ -19,6 +20,7 @@ export class MessageService {
         content,
         sessionId,
         userId,
+        conversationId,
       };
 
       return await MessageDao.create(messageData);
@@ -36,7 +38,8 @@ export class MessageService {
     content: string,
     metadata?: any,
     sessionId?: string,
-    userId?: string
+    userId?: string,
+    conversationId?: string
   ): Promise<SelectMessage | null> {
     try {
       const messageData: CreateMessage = {
@@ -46,6 +49,7 @@ export class MessageService {
         metadata,
         sessionId,
         userId,
+        conversationId,
       };
 
       return await MessageDao.create(messageData);
@@ -55,6 +59,34 @@ export class MessageService {
     }
   }
 
+  /**
+   * Save a bot message under a fixed messageId. Saving it again overwrites it instead of
+   * adding a second message.
+   */
+  static async saveBotMessage(
+    messageId: string,
+    content: string,
+    metadata?: any,
+    sessionId?: string,
+    userId?: string,
+    conversationId?: string
+  ): Promise<SelectMessage | null> {
+    try {
+      return await MessageDao.upsert({
+        messageId,
+        type: 'bot',
+        content,
+        metadata,
+        sessionId,
+        userId,
+        conversationId,
+      });
+    } catch (error) {
+      logger.error('Service error saving bot message:', error);
+      return null;
+    }
+  }
+
 //   /**
 //    * Update bot message with research results
 //    */
@@ -70,6 +102,42 @@ export class MessageService {
 //     }
 //   }
 
+  /**
+   * Replace the metadata stored on a message
+   */
+  static async updateMessageMetadata(messageId: string, metadata: any): Promise<SelectMessage | null> {
+    try {
+      return await MessageDao.updateByMessageId(messageId, { metadata });
+    } catch (error) {
+      logger.error('Service error updating message metadata:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record a follow-up or refresh on the message it was requested from
+   */
+  static async appendToMetadataList(
+    messageId: string,
+    key: 'expansions' | 'refreshes',
+    entry: object
+  ): Promise<boolean> {
+    try {
+      return await MessageDao.appendToMetadataList(messageId, key, entry);
+    } catch (error) {
+      logger.error('Service error appending to message metadata:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Whether a user may read a message. Messages without an owner are readable by anyone.
+   * Callers report another user's message as missing, like a conversation the user does not own.
+   */
+  static isAccessibleBy(message: SelectMessage, userId?: string): boolean {
+    return !message.userId || message.userId === userId;
+  }
+
   /**
    * Get message by message ID
    */
@@ -94,6 +162,18 @@ export class MessageService {
     }
   }
 
+  /**
+   * Get messages by conversation ID
+   */
+  static async getMessagesByConversationId(conversationId: string, limit: number = 50): Promise<SelectMessage[]> {
+    try {
+      return await MessageDao.findByConversationId(conversationId, limit);
+    } catch (error) {
+      logger.error('Service error getting messages by conversationId:', error);
+      return [];
+    }
+  }
+
   /**
    * Get messages by user ID
    */
@@ -0,0 +1,121 @@
+import { NotificationDao } from '../dao';
+import { SelectNotification } from '../db/schema';
+import { logger } from '../utils/logger';
+import { MessageType } from '../utils/types';
+import type { WebSocketService } from './webSocketService';
+
+export interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  delivered_at: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotifyUser {
+  type: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export class NotificationService {
+  // Set once the server starts; without it notifications are only stored
+  private static webSocketService: Pick<WebSocketService, 'isUserConnected' | 'sendToUserRoom'> | null = null;
+
+  /**
+   * Set WebSocket service reference for live delivery
+   */
+  static setWebSocketService(wsService: Pick<WebSocketService, 'isUserConnected' | 'sendToUserRoom'> | null) {
+    this.webSocketService = wsService;
+  }
+
+  /**
+   * Notify a user. The notification is sent to their WebSocket room when they are connected,
+   * and otherwise kept until their next connection.
+   */
+  static async notify(userId: string, notification: NotifyUser): Promise<Notification | null> {
+    try {
+      const created = await NotificationDao.create({ userId, ...notification });
+      if (!created) return null;
+
+      if (this.webSocketService?.isUserConnected(userId)) {
+        this.send(userId, created);
+        await NotificationDao.markDelivered([created.id]);
+        created.deliveredAt = new Date();
+      } else {
+        logger.info(`User ${userId} is offline, notification ${created.id} kept for later`);
+      }
+
+      return this.toNotification(created);
+    } catch (error) {
+      logger.error('Service error notifying user:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Send the notifications a user missed while offline
+   */
+  static async deliverPending(userId: string): Promise<number> {
+    try {
+      if (!this.webSocketService?.isUserConnected(userId)) return 0;
+
+      const pending = await NotificationDao.findUndelivered(userId);
+      pending.forEach(notification => this.send(userId, notification));
+      return await NotificationDao.markDelivered(pending.map(notification => notification.id));
+    } catch (error) {
+      logger.error('Service error delivering pending notifications:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * List a user's notifications, newest first
+   */
+  static async listNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+    try {
+      const notifications = await NotificationDao.findByUserId(userId, limit);
+      return notifications.map(notification => this.toNotification(notification));
+    } catch (error) {
+      logger.error('Service error listing notifications:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Mark a user's notification as read
+   */
+  static async markRead(id: string, userId: string): Promise<boolean> {
+    try {
+      return await NotificationDao.markRead(id, userId);
+    } catch (error) {
+      logger.error('Service error marking notification read:', error);
+      return false;
+    }
+  }
+
+  private static send(userId: string, notification: SelectNotification) {
+    this.webSocketService!.sendToUserRoom(userId, {
+      type: MessageType.NOTIFICATION,
+      notification: this.toNotification(notification),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private static toNotification(notification: SelectNotification): Notification {
+    return {
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      data: (notification.data as Record<string, unknown> | null) || null,
+      delivered_at: notification.deliveredAt ? notification.deliveredAt.toISOString() : null,
+      read_at: notification.readAt ? notification.readAt.toISOString() : null,
+      created_at: notification.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { ResearchCacheDao } from '../dao';
+import { logger } from '../utils/logger';
+import type { ResearchResponse } from '../utils/researchSchemas';
+import type { SourceQuality } from '../utils/sourceQuality';
+
+const DEFAULT_TTL_HOURS = 24;
+
+export type CachedResearchResult = ResearchResponse & { source_quality?: SourceQuality };
+
+export interface CachedResearch {
+  key: string;
+  result: CachedResearchResult;
+  sourceMessageId: string | null; // The message whose research filled the cache
+  researchedAt: Date;
+}
+
+export interface StoreCachedResearch {
+  key: string;
+  query: string;
+  state?: string | null;
+  result: CachedResearchResult;
+  messageId: string;
+  researchedAt?: Date;
+}
+
+export class ResearchCacheService {
+  /**
+   * Cache lifetime from RESEARCH_CACHE_TTL_HOURS; 0 disables the cache
+   */
+  static getTtlMs(): number {
+    const hours = Number(process.env.RESEARCH_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+    return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+  }
+
+  static isEnabled(): boolean {
+    return this.getTtlMs() > 0;
+  }
+
+  /**
+   * Reduce a question to a canonical form so trivially different wordings share an entry
+   */
+  static normalizeQuery(query: string): string {
+    return query
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  static normalizeState(state?: string | null): string | null {
+    const normalized = state?.trim().toUpperCase();
+    return normalized || null;
+  }
+
+  /**
+   * Cache key for a question asked about a location
+   */
+  static buildKey(query: string, state?: string | null): string {
+    return createHash('sha256')
+      .update(`${this.normalizeState(state) || ''}|${this.normalizeQuery(query)}`)
+      .digest('hex');
+  }
+
+  /**
+   * Get unexpired research for a cache key
+   */
+  static async lookup(key: string): Promise<CachedResearch | null> {
+    try {
+      const entry = await ResearchCacheDao.findValidByKey(key);
+      if (!entry) return null;
+
+      await ResearchCacheDao.incrementHits(entry.id);
+      logger.info(`Research cache hit: ${key}`);
+      return {
+        key,
+        result: entry.result as CachedResearchResult,
+        sourceMessageId: entry.sourceMessageId,
+        researchedAt: entry.researchedAt,
+      };
+    } catch (error) {
+      logger.error('Service error reading research cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store completed research for reuse until the TTL passes
+   */
+  static async store(data: StoreCachedResearch): Promise<boolean> {
+    try {
+      const ttl = this.getTtlMs();
+      if (ttl === 0) return false;
+
+      const researchedAt = data.researchedAt || new Date();
+      return await ResearchCacheDao.upsert({
+        cacheKey: data.key,
+        normalizedQuery: this.normalizeQuery(data.query),
+        state: this.normalizeState(data.state),
+        result: data.result,
+        sourceMessageId: data.messageId,
+        researchedAt,
+        expiresAt: new Date(researchedAt.getTime() + ttl),
+      });
+    } catch (error) {
+      logger.error('Service error writing research cache:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Invalidate a single cache entry
+   */
+  static async purgeByKey(key: string): Promise<number> {
+    const purged = await ResearchCacheDao.deleteByKey(key);
+    logger.info(`Purged ${purged} research cache entries for key ${key}`);
+    return purged;
+  }
+
+  /**
+   * Invalidate the cache entry for a question as it was asked, hashed the same way as on lookup
+   */
+  static async purgeByQuestion(question: string, state?: string | null): Promise<number> {
+    return this.purgeByKey(this.buildKey(question, state));
+  }
+
+  /**
+   * Invalidate every cache entry for a state
+   */
+  static async purgeByState(state: string): Promise<number> {
+    const normalized = this.normalizeState(state)!;
+    const purged = await ResearchCacheDao.deleteByState(normalized);
+    logger.info(`Purged ${purged} research cache entries for state ${normalized}`);
+    return purged;
+  }
+
+  /**
+   * Remove entries past their TTL
+   */
+  static async purgeExpired(): Promise<number> {
+    return ResearchCacheDao.deleteExpired(new Date());
+  }
+}
@@ -0,0 +1,131 @@
+import { MessageService } from './messageService';
+import { CitationSnapshotService } from './citationSnapshotService';
+import { ConversationService } from './conversationService';
+import { logger } from '../utils/logger';
+import type { Citation, KeyDevelopment } from '../utils/researchSchemas';
+import type { SourceQuality } from '../utils/sourceQuality';
+import { describeLocation, ResolvedLocation } from '../utils/locationResolver';
+import { buildResearchReport, REPORT_RENDERERS, ReportFormat, ReportSource, ResearchReport, SourceCheck } from '../utils/researchReport';
+import { BIBLIOGRAPHY_RENDERERS, BibliographyFormat, buildBibliography } from '../utils/bibliography';
+
+// Most messages of a conversation searched for research answers
+const CONVERSATION_MESSAGE_LIMIT = 500;
+
+export interface ResearchExport {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+export class ResearchExportService {
+  /**
+   * Build the report for a research answer. Returns null when the message is not a
+   * research answer, or belongs to another user.
+   */
+  static async getReport(messageId: string, userId?: string): Promise<ResearchReport | null> {
+    try {
+      const message = await MessageService.getMessageByMessageId(messageId);
+      const metadata = (message?.metadata || {}) as {
+        research_results?: string;
+        key_developments?: KeyDevelopment[];
+        citations?: Citation[];
+        source_quality?: SourceQuality;
+        weakly_grounded?: number[];
+        research_message_id?: string;
+        location?: ResolvedLocation;
+      };
+      if (!message || message.type !== 'bot' || !MessageService.isAccessibleBy(message, userId) || !metadata.key_developments) {
+        return null;
+      }
+
+      // Research answers stored before research_message_id was recorded keep the ID in sessionId
+      const researchMessageId = metadata.research_message_id || message.sessionId;
+      const question = researchMessageId ? await MessageService.getMessageByMessageId(researchMessageId) : null;
+      const location = metadata.location
+        || ((question?.metadata || {}) as { location?: ResolvedLocation }).location;
+
+      const snapshots = await CitationSnapshotService.getSnapshots(messageId);
+      const checks = new Map<number, SourceCheck>(snapshots.map(snapshot => [snapshot.citation_id, {
+        url: snapshot.url,
+        statusCode: snapshot.status_code,
+        fetchedAt: new Date(snapshot.fetched_at),
+      }]));
+
+      return buildResearchReport({
+        messageId,
+        question: question?.type === 'user' ? question.content : null,
+        location: location ? describeLocation(location) : null,
+        generatedAt: message.createdAt,
+        summary: metadata.research_results || message.content,
+        keyDevelopments: metadata.key_developments,
+        citations: metadata.citations || [],
+        sourceQuality: metadata.source_quality || null,
+        weaklyGrounded: metadata.weakly_grounded || [],
+        checks,
+        checked: snapshots.length > 0,
+      });
+    } catch (error) {
+      logger.error('Service error building research report:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Render a research answer's report as a downloadable file
+   */
+  static async exportReport(messageId: string, format: ReportFormat, userId?: string): Promise<ResearchExport | null> {
+    const report = await this.getReport(messageId, userId);
+    if (!report) return null;
+
+    const { contentType, render } = REPORT_RENDERERS[format];
+    return {
+      filename: `research-report-${messageId}.${format}`,
+      contentType,
+      body: render(report),
+    };
+  }
+
+  /**
+   * Export the sources cited by a research answer as a bibliography
+   */
+  static async exportBibliography(messageId: string, format: BibliographyFormat, userId?: string): Promise<ResearchExport | null> {
+    const report = await this.getReport(messageId, userId);
+    if (!report) return null;
+
+    return this.renderBibliography(report.sources, format, `bibliography-${messageId}`);
+  }
+
+  /**
+   * Export the sources cited by every research answer in a conversation, oldest first.
+   * A source cited by several answers appears once.
+   */
+  static async exportConversationBibliography(
+    conversationId: string,
+    format: BibliographyFormat,
+    userId: string
+  ): Promise<ResearchExport | null> {
+    const conversation = await ConversationService.getConversation(conversationId, userId);
+    if (!conversation) return null;
+
+    const messages = await MessageService.getMessagesByConversationId(conversationId, CONVERSATION_MESSAGE_LIMIT);
+    const answers = messages
+      .filter(message => message.type === 'bot' && (message.metadata as { key_developments?: unknown } | null)?.key_developments)
+      .reverse();
+    const reports = await Promise.all(answers.map(answer => this.getReport(answer.messageId, userId)));
+
+    return this.renderBibliography(
+      reports.flatMap(report => report?.sources || []),
+      format,
+      `bibliography-${conversationId}`
+    );
+  }
+
+  private static renderBibliography(sources: ReportSource[], format: BibliographyFormat, name: string): ResearchExport {
+    const { contentType, extension, render } = BIBLIOGRAPHY_RENDERERS[format];
+    return {
+      filename: `${name}.${extension}`,
+      contentType,
+      body: render(buildBibliography(sources)),
+    };
+  }
+}
@@ -0,0 +1,136 @@
+import { ResearchJobDao } from '../dao';
+import { SelectResearchJob } from '../db/schema';
+import { logger } from '../utils/logger';
+import type { Message } from './chatService';
+import { researchStream } from '../utils/researchStream';
+import type { ResearchExpansion, ResearchResult } from '../utils/researchHelper';
+import type { ResearchAttemptError } from '../utils/researchRetry';
+import type { ResolvedLocation } from '../utils/locationResolver';
+
+export interface EnqueueResearchJob {
+  messageId: string;
+  messages: Message[];
+  userId?: string;
+  sessionId?: string;
+  conversationId?: string;
+  location?: ResolvedLocation;
+  cacheKey?: string; // Share the result through the research cache under this key
+  expansion?: ResearchExpansion; // Follow-up research on a development of an earlier answer
+  refreshOf?: string; // Bot message the research re-runs
+  watchId?: string; // Research watch the run belongs to
+}
+
+export class ResearchJobService {
+  /**
+   * Queue research for a message; the research worker picks it up
+   */
+  static async enqueue(data: EnqueueResearchJob): Promise<SelectResearchJob | null> {
+    try {
+      return await ResearchJobDao.create({
+        messageId: data.messageId,
+        input: data.messages,
+        userLocation: data.location?.state,
+        location: data.location,
+        sessionId: data.sessionId,
+        userId: data.userId,
+        conversationId: data.conversationId,
+        cacheKey: data.cacheKey,
+        parentMessageId: data.expansion?.parent_message_id,
+        parentDevelopment: data.expansion?.development,
+        refreshOfMessageId: data.refreshOf,
+        watchId: data.watchId,
+      });
+    } catch (error) {
+      logger.error('Service error queueing research job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the research job for a message
+   */
+  static async getJobByMessageId(messageId: string): Promise<SelectResearchJob | null> {
+    try {
+      return await ResearchJobDao.findByMessageId(messageId);
+    } catch (error) {
+      logger.error('Service error getting research job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the research result for a message in API shape
+   */
+  static async getResearchResult(messageId: string): Promise<ResearchResult | null> {
+    const job = await this.getJobByMessageId(messageId);
+    return job ? this.toResearchResult(job) : null;
+  }
+
+  /**
+   * Get the research result for a message on behalf of a requester.
+   * Returns null when the job does not exist or belongs to another user.
+   */
+  static async getResearchResultForUser(messageId: string, userId?: string): Promise<ResearchResult | null> {
+    const job = await this.getJobByMessageId(messageId);
+    if (!job || (job.userId && job.userId !== userId)) {
+      return null;
+    }
+    return this.toResearchResult(job);
+  }
+
+  /**
+   * Cancel research for a message. The worker running it aborts the model request
+   * and citation fetches, and the user's room is notified.
+   * Returns null when the job does not exist or belongs to another user; a job that had
+   * already finished is returned unchanged with its final status.
+   */
+  static async cancel(messageId: string, userId?: string): Promise<ResearchResult | null> {
+    try {
+      const job = await ResearchJobDao.findByMessageId(messageId);
+      if (!job || (job.userId && job.userId !== userId)) {
+        return null;
+      }
+
+      const cancelled = await ResearchJobDao.cancel(job.id);
+      if (!cancelled) {
+        const current = await ResearchJobDao.findById(job.id);
+        return current ? this.toResearchResult(current) : null;
+      }
+
+      logger.info(`Research cancelled for message ${messageId}`);
+      const timestamp = new Date().toISOString();
+      researchStream.publish({
+        type: 'cancelled',
+        messageId,
+        userId: job.userId || '',
+        timestamp,
+      });
+
+      return {
+        id: messageId,
+        status: 'cancelled',
+        timestamp,
+      };
+    } catch (error) {
+      logger.error('Service error cancelling research:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Map a research job row to the public research result
+   */
+  static toResearchResult(job: SelectResearchJob): ResearchResult {
+    const result = (job.result || {}) as Partial<ResearchResult>;
+    return {
+      ...result,
+      id: job.messageId,
+      status: job.status as ResearchResult['status'],
+      error: job.error || undefined,
+      attempts: job.attempts,
+      next_attempt_at: job.status === 'retrying' && job.nextAttemptAt ? job.nextAttemptAt.toISOString() : undefined,
+      error_history: (job.errorHistory as ResearchAttemptError[] | null) || undefined,
+      timestamp: (job.completedAt || job.updatedAt).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,311 @@
+import { ResearchWatchDao } from '../dao';
+import { SelectResearchWatch } from '../db/schema';
+import { logger } from '../utils/logger';
+import { WatchCadence } from '../utils/types';
+import { resolveLocation } from '../utils/locationResolver';
+import { diffResearch, formatResearchDiff, ResearchDiff, ResearchSnapshot } from '../utils/researchDiff';
+import { ConversationService } from './conversationService';
+import { MessageService } from './messageService';
+import { ResearchJobService } from './researchJobService';
+import { NotificationService } from './notificationService';
+import { LlmUsageService, QuotaExceededError } from './llmUsageService';
+
+const CADENCE_INTERVALS: Record<WatchCadence, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+const MAX_WATCHES_PER_USER = Number(process.env.WATCH_MAX_PER_USER) || 10;
+
+export interface ResearchWatch {
+  id: string;
+  query: string;
+  state: string | null;
+  cadence: WatchCadence;
+  active: boolean;
+  conversation_id: string | null; // Each run's question and answer are saved here
+  next_run_at: string;
+  last_run_at: string | null;
+  last_message_id: string | null; // Research of the last completed run, for GET /api/chat/research/:messageId
+  last_error: string | null;
+  running: boolean;
+  created_at: string;
+}
+
+export interface CreateWatchRequest {
+  query: string;
+  state?: string | null; // Two-letter state code
+  cadence: WatchCadence;
+}
+
+export interface UpdateWatchRequest {
+  query?: string;
+  state?: string | null;
+  cadence?: WatchCadence;
+  active?: boolean;
+}
+
+export class WatchLimitReachedError extends Error {
+  constructor(limit: number) {
+    super(`A user can have at most ${limit} watches`);
+    this.name = 'WatchLimitReachedError';
+  }
+}
+
+export class ResearchWatchService {
+  /**
+   * Create a watch for a user. Its first run starts straight away and sets the baseline
+   * that later runs are compared with.
+   */
+  static async createWatch(userId: string, request: CreateWatchRequest): Promise<ResearchWatch | null> {
+    const existing = await ResearchWatchDao.findByUserId(userId);
+    if (existing.length >= MAX_WATCHES_PER_USER) {
+      throw new WatchLimitReachedError(MAX_WATCHES_PER_USER);
+    }
+
+    try {
+      const query = request.query.trim();
+      const conversation = await ConversationService.createConversation(userId, `Watch: ${ConversationService.deriveTitle(query)}`);
+      const watch = await ResearchWatchDao.create({
+        userId,
+        query,
+        state: request.state || null,
+        cadence: request.cadence,
+        conversationId: conversation?.id || null,
+        nextRunAt: new Date(),
+      });
+
+      return watch ? this.toResearchWatch(watch) : null;
+    } catch (error) {
+      logger.error('Service error creating research watch:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List a user's watches, newest first
+   */
+  static async listWatches(userId: string): Promise<ResearchWatch[]> {
+    try {
+      const watches = await ResearchWatchDao.findByUserId(userId);
+      return watches.map(watch => this.toResearchWatch(watch));
+    } catch (error) {
+      logger.error('Service error listing research watches:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a watch if it belongs to the user
+   */
+  static async getWatch(id: string, userId: string): Promise<ResearchWatch | null> {
+    try {
+      const watch = await ResearchWatchDao.findByIdForUser(id, userId);
+      return watch ? this.toResearchWatch(watch) : null;
+    } catch (error) {
+      logger.error('Service error getting research watch:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a watch owned by the user. A new query or state starts a new baseline on the
+   * next scheduler tick; a new cadence reschedules the next run from the last one.
+   */
+  static async updateWatch(id: string, userId: string, request: UpdateWatchRequest): Promise<ResearchWatch | null> {
+    try {
+      const watch = await ResearchWatchDao.findByIdForUser(id, userId);
+      if (!watch) return null;
+
+      const query = request.query?.trim();
+      const topicChanged = (query !== undefined && query !== watch.query)
+        || (request.state !== undefined && (request.state || null) !== watch.state);
+      const cadence = request.cadence || (watch.cadence as WatchCadence);
+
+      const updated = await ResearchWatchDao.update(id, {
+        ...(query !== undefined && { query }),
+        ...(request.state !== undefined && { state: request.state || null }),
+        ...(request.active !== undefined && { active: request.active }),
+        cadence,
+        ...(topicChanged
+          // A run in progress researched the old topic, so its result is discarded
+          ? { lastResult: null, lastMessageId: null, lastError: null, pendingMessageId: null, nextRunAt: new Date() }
+          : request.cadence && { nextRunAt: this.nextRunAfter(watch.lastRunAt || new Date(), cadence) }),
+      });
+
+      return updated ? this.toResearchWatch(updated) : null;
+    } catch (error) {
+      logger.error('Service error updating research watch:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a watch owned by the user. Its conversation is kept.
+   */
+  static async deleteWatch(id: string, userId: string): Promise<boolean> {
+    try {
+      const watch = await ResearchWatchDao.findByIdForUser(id, userId);
+      if (!watch) return false;
+
+      return await ResearchWatchDao.deleteById(id);
+    } catch (error) {
+      logger.error('Service error deleting research watch:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Queue research for watches that are due
+   * @returns The number of runs started.
+   */
+  static async startDueRuns(limit: number): Promise<number> {
+    const due = await ResearchWatchDao.findDue(new Date(), limit);
+    let started = 0;
+    for (const watch of due) {
+      if (await this.startRun(watch)) started++;
+    }
+    return started;
+  }
+
+  /**
+   * Compare each finished run with the previous one and notify the user of anything new
+   * @returns The number of runs recorded.
+   */
+  static async collectFinishedRuns(): Promise<number> {
+    const running = await ResearchWatchDao.findWithPendingRun();
+    let finished = 0;
+    for (const watch of running) {
+      if (await this.collectRun(watch)) finished++;
+    }
+    return finished;
+  }
+
+  /**
+   * Whether a run found developments the previous one did not have, or changed one.
+   * New sources for unchanged developments are not worth a notification on their own.
+   */
+  static hasNewFindings(diff: ResearchDiff): boolean {
+    return diff.added.length > 0 || diff.modified.length > 0;
+  }
+
+  private static async startRun(watch: SelectResearchWatch): Promise<boolean> {
+    try {
+      const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const claimed = await ResearchWatchDao.claimRun(watch.id, messageId, this.nextRunAfter(new Date(), watch.cadence as WatchCadence));
+      if (!claimed) return false;
+
+      // The run is skipped, not retried, so a user over quota waits for the next one
+      const exceeded = await LlmUsageService.findExceededQuota(watch.userId);
+      if (exceeded) {
+        await ResearchWatchDao.finishRun(watch.id, messageId, { lastError: new QuotaExceededError(exceeded).message });
+        return false;
+      }
+
+      // The watch's conversation may have been deleted since
+      let conversationId = watch.conversationId;
+      if (!conversationId || !(await ConversationService.getConversation(conversationId, watch.userId))) {
+        const conversation = await ConversationService.createConversation(watch.userId, `Watch: ${ConversationService.deriveTitle(watch.query)}`);
+        conversationId = conversation?.id || null;
+        await ResearchWatchDao.update(watch.id, { conversationId });
+      }
+
+      const location = resolveLocation(watch.state);
+      await MessageService.createUserMessage(messageId, watch.query, undefined, watch.userId, conversationId || undefined);
+      await MessageService.updateMessageMetadata(messageId, { watch_id: watch.id, ...(location && { location }) });
+      if (conversationId) {
+        await ConversationService.touchConversation(conversationId);
+      }
+
+      const job = await ResearchJobService.enqueue({
+        messageId,
+        messages: [{ role: 'user', content: watch.query }],
+        userId: watch.userId,
+        conversationId: conversationId || undefined,
+        location: location || undefined,
+        watchId: watch.id,
+      });
+      if (!job) {
+        await ResearchWatchDao.finishRun(watch.id, messageId, { lastError: 'Failed to queue research' });
+        return false;
+      }
+
+      logger.info(`Started run ${messageId} of research watch ${watch.id}`);
+      return true;
+    } catch (error) {
+      logger.error(`Service error starting run of research watch ${watch.id}:`, error);
+      return false;
+    }
+  }
+
+  private static async collectRun(watch: SelectResearchWatch): Promise<boolean> {
+    const messageId = watch.pendingMessageId!;
+    try {
+      const result = await ResearchJobService.getResearchResult(messageId);
+      if (result && !['completed', 'failed', 'cancelled'].includes(result.status)) {
+        return false;
+      }
+
+      if (!result || result.status !== 'completed') {
+        return await ResearchWatchDao.finishRun(watch.id, messageId, {
+          lastError: result?.error || (result ? `Research ${result.status}` : 'Research job not found'),
+        });
+      }
+
+      const current: ResearchSnapshot = { key_developments: result.key_developments || [], citations: result.citations || [] };
+      const previous = watch.lastResult as ResearchSnapshot | null;
+      const recorded = await ResearchWatchDao.finishRun(watch.id, messageId, {
+        lastResult: current,
+        lastMessageId: messageId,
+        lastError: null,
+      });
+      // Another server recorded this run and sent any notification
+      if (!recorded) return false;
+
+      // The first run only sets the baseline
+      const diff = previous ? diffResearch(previous, current) : null;
+      if (diff && this.hasNewFindings(diff)) {
+        await NotificationService.notify(watch.userId, {
+          type: 'watch_update',
+          title: `New developments: ${ConversationService.deriveTitle(watch.query)}`,
+          body: formatResearchDiff(diff),
+          data: {
+            watch_id: watch.id,
+            message_id: messageId,
+            conversation_id: watch.conversationId,
+            added: diff.added.length,
+            modified: diff.modified.length,
+            new_citations: diff.new_citations.map(citation => citation.url),
+          },
+        });
+      }
+
+      logger.info(`Recorded run ${messageId} of research watch ${watch.id}`);
+      return true;
+    } catch (error) {
+      logger.error(`Service error recording run of research watch ${watch.id}:`, error);
+      return false;
+    }
+  }
+
+  private static nextRunAfter(from: Date, cadence: WatchCadence): Date {
+    return new Date(from.getTime() + CADENCE_INTERVALS[cadence]);
+  }
+
+  private static toResearchWatch(watch: SelectResearchWatch): ResearchWatch {
+    return {
+      id: watch.id,
+      query: watch.query,
+      state: watch.state,
+      cadence: watch.cadence as WatchCadence,
+      active: watch.active,
+      conversation_id: watch.conversationId,
+      next_run_at: watch.nextRunAt.toISOString(),
+      last_run_at: watch.lastRunAt ? watch.lastRunAt.toISOString() : null,
+      last_message_id: watch.lastMessageId,
+      last_error: watch.lastError,
+      running: watch.pendingMessageId !== null,
+      created_at: watch.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,279 @@
+import { randomUUID } from 'crypto';
+import { ResearchJobDao } from '../dao';
+import { SelectResearchJob } from '../db/schema';
+import { logger } from '../utils/logger';
+import { performResearch } from '../utils/researchHelper';
+import { researchStream, ResearchStreamEvent } from '../utils/researchStream';
+import { MAX_RESEARCH_ATTEMPTS, ResearchAttemptError, getRetryDelay, isRetryableError } from '../utils/researchRetry';
+import { ResearchCacheService } from './researchCacheService';
+import type { Message } from './chatService';
+import { ResolvedLocation, resolveLocation } from '../utils/locationResolver';
+
+const POLL_INTERVAL = Number(process.env.RESEARCH_WORKER_POLL_INTERVAL_MS) || 2000; // 2 seconds
+const CONCURRENCY = Number(process.env.RESEARCH_WORKER_CONCURRENCY) || 2;
+// How long a job stays leased without a heartbeat before it is considered abandoned
+const LEASE_DURATION = Number(process.env.RESEARCH_JOB_LEASE_MS) || 10 * 60 * 1000; // 10 minutes
+// Running jobs renew their lease several times per lease period, so a slow job is never taken over
+const HEARTBEAT_INTERVAL = LEASE_DURATION / 4;
+
+interface ActiveJob {
+  messageId: string;
+  controller: AbortController; // Aborted when the job is cancelled
+}
+
+/**
+ * Claims queued research jobs from the database and runs them.
+ * Jobs left running by a previous process are resumed on start.
+ */
+export class ResearchWorker {
+  readonly workerId = `worker_${randomUUID()}`;
+  private timer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private activeJobs: Map<string, ActiveJob> = new Map(); // job ID -> jobs running in this process
+  private polling = false;
+  private stopped = false;
+  private unsubscribeResearchStream: (() => void) | null = null;
+
+  /**
+   * Start polling for work. Interrupted jobs are requeued on each poll once their lease expires.
+   */
+  async start(): Promise<void> {
+    const expired = await ResearchCacheService.purgeExpired();
+    if (expired > 0) {
+      logger.info(`Removed ${expired} expired research cache entries`);
+    }
+
+    this.stopped = false;
+    // Cancellations made in this process abort immediately; others are picked up on the next poll
+    this.unsubscribeResearchStream = researchStream.subscribeAll(event => this.handleResearchStreamEvent(event));
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL);
+    this.heartbeatTimer = setInterval(() => this.renewLeases(), HEARTBEAT_INTERVAL);
+    logger.info(`Research worker ${this.workerId} started (concurrency ${CONCURRENCY})`);
+    this.poll();
+  }
+
+  /**
+   * Stop polling and hand in-flight jobs back to the queue so they resume on next boot
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.unsubscribeResearchStream) {
+      this.unsubscribeResearchStream();
+      this.unsubscribeResearchStream = null;
+    }
+
+    const released = await ResearchJobDao.releaseByWorker(this.workerId);
+    logger.info(`Research worker ${this.workerId} stopped, released ${released} in-flight jobs`);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || this.stopped) return;
+
+    this.polling = true;
+    try {
+      // Jobs of a crashed worker, even one that has since restarted, go back to the queue
+      const requeued = await ResearchJobDao.requeueExpired(new Date(Date.now() - LEASE_DURATION));
+      if (requeued > 0) {
+        logger.info(`Requeued ${requeued} interrupted research jobs`);
+      }
+
+      await this.abortCancelledJobs();
+
+      const capacity = CONCURRENCY - this.activeJobs.size;
+      if (capacity <= 0) return;
+
+      const jobs = await ResearchJobDao.claimPending(this.workerId, capacity);
+      jobs.forEach(job => {
+        const controller = new AbortController();
+        this.activeJobs.set(job.id, { messageId: job.messageId, controller });
+        this.runJob(job, controller.signal).finally(() => this.activeJobs.delete(job.id));
+      });
+    } catch (error) {
+      logger.error('Error polling for research jobs:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Heartbeat for the jobs running in this process
+   */
+  private async renewLeases(): Promise<void> {
+    if (this.activeJobs.size === 0) return;
+
+    try {
+      await ResearchJobDao.renewLeases([...this.activeJobs.keys()], this.workerId);
+    } catch (error) {
+      logger.error('Error renewing research job leases:', error);
+    }
+  }
+
+  /**
+   * Abort running jobs that were cancelled, possibly from another server process
+   */
+  private async abortCancelledJobs(): Promise<void> {
+    const cancelledIds = await ResearchJobDao.findCancelledIds([...this.activeJobs.keys()]);
+    cancelledIds.forEach(id => this.activeJobs.get(id)?.controller.abort());
+  }
+
+  private handleResearchStreamEvent(event: ResearchStreamEvent): void {
+    if (event.type !== 'cancelled') return;
+
+    this.activeJobs.forEach(job => {
+      if (job.messageId === event.messageId) {
+        job.controller.abort();
+      }
+    });
+  }
+
+  private async runJob(job: SelectResearchJob, signal: AbortSignal): Promise<void> {
+    const userId = job.userId || '';
+    const conversationId = job.conversationId || undefined;
+    const watchId = job.watchId || undefined;
+    logger.info(`Running research job ${job.id} for message ${job.messageId} (attempt ${job.attempts})`);
+    researchStream.publish({
+      type: 'started',
+      messageId: job.messageId,
+      userId,
+      conversationId,
+      attempt: job.attempts,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await performResearch({
+        messageId: job.messageId,
+        messages: job.input as Message[],
+        userId,
+        // Jobs queued before locations were resolved only have the free-form string
+        location: (job.location as ResolvedLocation | null) || resolveLocation(job.userLocation),
+        conversationId,
+        expansion: job.parentMessageId && job.parentDevelopment
+          ? { parent_message_id: job.parentMessageId, development: job.parentDevelopment }
+          : undefined,
+        refreshOf: job.refreshOfMessageId || undefined,
+        signal,
+      });
+
+      const saved = await ResearchJobDao.updateIfLockedBy(job.id, this.workerId, {
+        status: 'completed',
+        result: {
+          bot_message_id: result.bot_message_id,
+          research_results: result.research_results,
+          key_developments: result.key_developments,
+          citations: result.citations,
+          source_quality: result.source_quality,
+          weakly_grounded: result.weakly_grounded,
+          expansion: result.expansion,
+          research_plan: result.research_plan,
+          refresh: result.refresh,
+        },
+        error: null,
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+      if (!saved) {
+        logger.warn(`Research job ${job.id} finished after its lease was released`);
+        return;
+      }
+
+      if (job.cacheKey) {
+        const question = (job.input as Message[]).find(message => message.role === 'user');
+        await ResearchCacheService.store({
+          key: job.cacheKey,
+          query: question?.content || '',
+          state: job.userLocation,
+          result: {
+            research_results: result.research_results!,
+            key_developments: result.key_developments!,
+            citations: result.citations!,
+            source_quality: result.source_quality,
+          },
+          messageId: job.messageId,
+          researchedAt: new Date(result.timestamp),
+        });
+      }
+
+      researchStream.publish({
+        type: 'completed',
+        messageId: job.messageId,
+        userId,
+        conversationId,
+        watchId,
+        result,
+        timestamp: result.timestamp,
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        // The job row was already marked cancelled and the room notified by the canceller
+        logger.info(`Research job ${job.id} stopped after cancellation`);
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const retryable = isRetryableError(error);
+      const errorHistory: ResearchAttemptError[] = [
+        ...((job.errorHistory as ResearchAttemptError[] | null) || []),
+        { attempt: job.attempts, error: errorMessage, retryable, timestamp: new Date().toISOString() },
+      ];
+
+      if (retryable && job.attempts < MAX_RESEARCH_ATTEMPTS) {
+        const nextAttemptAt = new Date(Date.now() + getRetryDelay(job.attempts));
+        logger.warn(`Research attempt ${job.attempts}/${MAX_RESEARCH_ATTEMPTS} failed for message ${job.messageId}, retrying at ${nextAttemptAt.toISOString()}:`, error);
+
+        const saved = await ResearchJobDao.updateIfLockedBy(job.id, this.workerId, {
+          status: 'retrying',
+          error: errorMessage,
+          errorHistory,
+          nextAttemptAt,
+          lockedBy: null,
+          lockedAt: null,
+        });
+        if (!saved) return;
+
+        researchStream.publish({
+          type: 'retrying',
+          messageId: job.messageId,
+          userId,
+          attempt: job.attempts,
+          maxAttempts: MAX_RESEARCH_ATTEMPTS,
+          error: errorMessage,
+          nextAttemptAt: nextAttemptAt.toISOString(),
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      logger.error(`Research failed for message ${job.messageId} after ${job.attempts} attempts:`, error);
+
+      const saved = await ResearchJobDao.updateIfLockedBy(job.id, this.workerId, {
+        status: 'failed',
+        error: errorMessage,
+        errorHistory,
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+      if (!saved) return;
+
+      researchStream.publish({
+        type: 'failed',
+        messageId: job.messageId,
+        userId,
+        conversationId,
+        watchId,
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { UserPreferencesDao } from '../dao';
+import { logger } from '../utils/logger';
+import { AnswerMode, isAnswerMode } from '../utils/types';
+import { ResolvedLocation, resolveLocation } from '../utils/locationResolver';
+
+export interface UserPreferences {
+  answer_mode: AnswerMode | null; // null = use the deployment default
+  location: string | null; // As entered by the user
+  resolved_location: ResolvedLocation | null;
+}
+
+export type UpdateUserPreferencesRequest = Partial<Pick<UserPreferences, 'answer_mode' | 'location'>>;
+
+const EMPTY_PREFERENCES: UserPreferences = { answer_mode: null, location: null, resolved_location: null };
+
+export class UserPreferencesService {
+  /**
+   * Get a user's preferences, with defaults when none are saved
+   */
+  static async getPreferences(userId: string): Promise<UserPreferences> {
+    try {
+      const preferences = await UserPreferencesDao.findByUserId(userId);
+      return {
+        answer_mode: isAnswerMode(preferences?.answerMode) ? preferences!.answerMode as AnswerMode : null,
+        location: preferences?.location || null,
+        resolved_location: resolveLocation(preferences?.location),
+      };
+    } catch (error) {
+      logger.error('Service error getting user preferences:', error);
+      return EMPTY_PREFERENCES;
+    }
+  }
+
+  /**
+   * Save a user's preferences
+   */
+  static async updatePreferences(userId: string, preferences: UpdateUserPreferencesRequest): Promise<UserPreferences | null> {
+    try {
+      const saved = await UserPreferencesDao.upsert(userId, {
+        answerMode: preferences.answer_mode,
+        location: preferences.location === undefined ? undefined : preferences.location?.trim() || null,
+      });
+      if (!saved) return null;
+
+      return await this.getPreferences(userId);
+    } catch (error) {
+      logger.error('Service error updating user preferences:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the answer mode a user has chosen, if any
+   */
+  static async getAnswerMode(userId: string): Promise<AnswerMode | null> {
+    const preferences = await this.getPreferences(userId);
+    return preferences.answer_mode;
+  }
+
+  /**
+   * Get the location a user saved in their profile, resolved
+   */
+  static async getLocation(userId: string): Promise<ResolvedLocation | null> {
+    const preferences = await this.getPreferences(userId);
+    return preferences.resolved_location;
+  }
+}
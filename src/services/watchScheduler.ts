@@ -0,0 +1,45 @@
+import { logger } from '../utils/logger';
+import { ResearchWatchService } from './researchWatchService';
+
+const TICK_INTERVAL = Number(process.env.WATCH_SCHEDULER_INTERVAL_MS) || 60000; // 1 minute
+const RUNS_PER_TICK = Number(process.env.WATCH_SCHEDULER_BATCH_SIZE) || 5;
+
+/**
+ * Re-runs research for watches on their cadence through the research queue,
+ * and notifies users when a finished run found something new.
+ */
+export class WatchScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(): void {
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    logger.info(`Watch scheduler started (every ${TICK_INTERVAL}ms)`);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    logger.info('Watch scheduler stopped');
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+
+    this.ticking = true;
+    try {
+      const finished = await ResearchWatchService.collectFinishedRuns();
+      const started = await ResearchWatchService.startDueRuns(RUNS_PER_TICK);
+      if (finished > 0 || started > 0) {
+        logger.info(`Watch scheduler: ${finished} runs recorded, ${started} runs started`);
+      }
+    } catch (error) {
+      logger.error('Error running research watches:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
@@ -1,17 +1,24 @@
 import WebSocket from 'ws';
 import { Server } from 'http';
 import { logger } from '../utils/logger';
-import { ChatService, ChatRequest } from './chatService';
-import { getResearchResult } from '../utils/researchHelper';
-import { MessageType } from '../utils/types';
+import { ChatService, ChatRequest, ConversationNotFoundError, KeyDevelopmentNotFoundError, ResearchAnswerNotFoundError } from './chatService';
+import { QuotaExceededError } from './llmUsageService';
+import { ResearchJobService } from './researchJobService';
+import { researchStream, ResearchStage, ResearchStreamEvent } from '../utils/researchStream';
+import { AnswerMode, MessageType, isAnswerMode } from '../utils/types';
 import { AuthService } from './authService';
+import { NotificationService, Notification } from './notificationService';
+import type { SourceQuality } from '../utils/sourceQuality';
+import type { ResearchPlan } from '../utils/researchPlanner';
+import type { ResearchDiff } from '../utils/researchDiff';
+import type { ResearchResult } from '../utils/researchHelper';
 
 type AuthenticatedWebSocket = WebSocket & {
   userId?: string;
   sessionId?: string;
   roomId?: string;
   isAuthenticated: boolean;
-  conversationHistory: Array<{role: 'user' | 'assistant', content: string}>;
+  conversationId?: string;
   lastActivity: Date;
 }
 
@@ -24,7 +31,7 @@ interface UserRoom {
 }
 
 interface WebSocketMessage {
-  type: MessageType | 'auth' | 'research_update' | 'session_terminated';
+  type: MessageType | 'auth' | 'research_update' | 'session_terminated' | 'cancel_research' | 'expand_development' | 'refresh_research';
   content?: string;
   timestamp: string;
   message_id?: string;
@@ -33,12 +40,32 @@ interface WebSocketMessage {
   research_pending?: boolean;
   token?: string;
   key_developments?: any[];
+  conversation_id?: string;
+  answer_mode?: AnswerMode;
+  user_location?: string;
+  status?: string;
+  attempt?: number;
+  max_attempts?: number;
+  next_attempt_at?: string;
+  stage?: ResearchStage; // research_update: the step a running research is on
+  progress?: { completed: number; total: number }; // research_update: items of that step finished so far
+  source_quality?: SourceQuality;
+  weakly_grounded?: number[]; // Numbers of key developments the cited pages do not clearly support
+  parent_message_id?: string; // Follow-up research: the answer holding the expanded development
+  development?: number; // Follow-up research: the expanded development's number
+  research_plan?: ResearchPlan;
+  refresh_of?: string; // Refresh request: the answer being re-run
+  research_message_id?: string; // Closing bot_message: the research the answer came from
+  previous_message_id?: string; // bot_update: the answer that was refreshed
+  diff?: ResearchDiff; // bot_update: what changed since that answer
+  notification?: Notification;
 }
 
 export class WebSocketService {
   private wss: WebSocket.Server;
   private clients: Map<string, AuthenticatedWebSocket> = new Map(); // sessionId -> WebSocket
   private userRooms: Map<string, UserRoom> = new Map(); // userId -> UserRoom
+  private unsubscribeResearchStream: () => void;
   
   constructor(server: Server) {
     this.wss = new WebSocket.Server({ 
@@ -53,6 +80,9 @@ export class WebSocketService {
     // Cleanup inactive rooms every 30 minutes
     setInterval(() => this.cleanupInactiveRooms(), 30 * 60 * 1000);
 
+    // Forward streamed research output to the user's room as it is generated
+    this.unsubscribeResearchStream = researchStream.subscribeAll(event => this.handleResearchStreamEvent(event));
+
     logger.info('WebSocket server initialized on path /ws');
   }
 
@@ -67,7 +97,6 @@ export class WebSocketService {
         
       ws.roomId = `room_${ws.userId}`;
       ws.isAuthenticated = true;
-      ws.conversationHistory = [];
       ws.lastActivity = new Date();
       
       // Store the authenticated connection
@@ -88,7 +117,6 @@ export class WebSocketService {
 
   private handleConnection(ws: AuthenticatedWebSocket, _request: any) {
     ws.isAuthenticated = false;
-    ws.conversationHistory = [];
     
     logger.info('New WebSocket connection established');
 
@@ -130,6 +158,8 @@ export class WebSocketService {
             content: 'WebSocket authenticated successfully',
             timestamp: new Date().toISOString()
           });
+          // Notifications raised while the user was offline
+          await NotificationService.deliverPending(ws.userId!);
         } else {
           this.sendError(ws, 'Authentication failed');
           ws.close();
@@ -149,6 +179,12 @@ export class WebSocketService {
       // Handle chat messages
       if (message.type === 'user_message' && message.content) {
         await this.handleChatMessage(ws, message);
+      } else if (message.type === 'cancel_research' && message.message_id) {
+        await this.handleCancelResearch(ws, message.message_id);
+      } else if (message.type === 'expand_development' && message.message_id && message.development) {
+        await this.handleExpandDevelopment(ws, message.message_id, message.development);
+      } else if (message.type === 'refresh_research' && message.message_id) {
+        await this.handleRefreshResearch(ws, message.message_id);
       } else {
         this.sendErrorToRoom(ws, 'Invalid message type or missing content');
       }
@@ -177,16 +213,17 @@ export class WebSocketService {
         timestamp: new Date().toISOString()
       });
 
-      // Add user message to conversation history
-      ws.conversationHistory.push({
-        role: 'user',
-        content: message.content!
-      });
+      // Follow the thread the client names, otherwise stay in this connection's current one
+      if (message.conversation_id) {
+        ws.conversationId = message.conversation_id;
+      }
 
-      // Prepare chat request with full conversation history
+      // Only the new turn is sent; the server loads earlier turns from the conversation
       const chatRequest: ChatRequest = {
-        messages: [...ws.conversationHistory],
-        userLocation: 'Unknown' // Can be enhanced later
+        message: message.content!,
+        userLocation: message.user_location, // Falls back to the location in the question, then the user's profile
+        conversation_id: ws.conversationId,
+        answer_mode: isAnswerMode(message.answer_mode) ? message.answer_mode : undefined,
       };
 
       // Ensure userId and sessionId are available
@@ -203,21 +240,19 @@ export class WebSocketService {
         ws.sessionId
       );
 
-      // Add assistant response to conversation history
+      // A new conversation is created on the first message without an ID
+      ws.conversationId = response.conversation_id;
+
       const responseContent = typeof response.response === 'string'
         ? response.response 
         : response.response.response;
-      
-      ws.conversationHistory.push({
-        role: 'assistant',
-        content: responseContent
-      });
 
 
       const messageToSend = {
         content: responseContent,
         timestamp: response.timestamp,
         message_id: response.message_id,
+        conversation_id: response.conversation_id,
       }
       
 
@@ -225,10 +260,13 @@ export class WebSocketService {
       this.sendToUserRoom(ws.userId!, {
         type: MessageType.BOT_MESSAGE,
         citations: typeof response.response === 'object' ? response.response.citations || [] : [],
+        ...(typeof response.response === 'object' && response.response.key_developments && {
+          key_developments: response.response.key_developments,
+        }),
         ...messageToSend,
       });
 
-      // If research is pending, start polling for results
+      // The result is delivered to the room when the research stream reports it finished
       if (response.research_pending && response.message_id) {
         //send a research update event to user's room
         this.sendToUserRoom(ws.userId!, {
@@ -236,83 +274,239 @@ export class WebSocketService {
           ...messageToSend,
           research_pending: response.research_pending,
         });
-        this.startResearchPolling(ws, response.message_id);
       }
 
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        this.sendError(ws, error.message);
+        return;
+      }
+      if (error instanceof ConversationNotFoundError) {
+        ws.conversationId = undefined;
+        this.sendError(ws, 'Conversation not found');
+        return;
+      }
+
       logger.error('Error handling chat message:', error);
       this.sendErrorToRoom(ws, 'Error processing your message');
     }
   }
 
-  private async startResearchPolling(ws: AuthenticatedWebSocket, messageId: string) {
-    const maxAttempts = 300; // 5 minutes max
-    let attempts = 0;
+  private async handleCancelResearch(ws: AuthenticatedWebSocket, messageId: string) {
+    try {
+      const result = await ResearchJobService.cancel(messageId, ws.userId);
+      if (!result) {
+        this.sendError(ws, 'Research not found');
+      } else if (result.status !== 'cancelled') {
+        this.sendError(ws, `Research can no longer be cancelled (status: ${result.status})`);
+      }
+      // On success the room is notified through the research stream
+    } catch (error) {
+      logger.error(`Error cancelling research for ${messageId}:`, error);
+      this.sendError(ws, 'Error cancelling research');
+    }
+  }
 
-    const poll = async () => {
-      attempts++;
-      
-      try {
-        const result = getResearchResult(messageId);
-        
-        if (result && result.status === 'completed') {
-          const newMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-          //send a research update event to user's room
-          this.sendResearchUpdateToUserRoom(ws.userId!, {
-            type: 'research_update',
-            // content: result.research_results || '',
-            timestamp: new Date().toISOString(),
-            research_pending: false,
-            message_id: messageId,
-            // citations: result.citations || [],
-          });
+  private async handleExpandDevelopment(ws: AuthenticatedWebSocket, parentMessageId: string, development: number) {
+    try {
+      this.sendToUserRoom(ws.userId!, {
+        type: MessageType.AI_TYPING,
+        content: '',
+        timestamp: new Date().toISOString()
+      });
 
-          //send event to start typing animation
-          this.sendToUserRoom(ws.userId!, {
-            type: MessageType.AI_TYPING,
-            content: '',
-            timestamp: new Date().toISOString()
-          });
+      const response = await ChatService.expandDevelopment(parentMessageId, development, ws.userId!, ws.sessionId);
 
-          this.sendToUserRoom(ws.userId!, {
-            type: MessageType.BOT_MESSAGE,
-            content: result.research_results || '',
-            timestamp: new Date().toISOString(),
-            message_id: newMessageId,
-            citations: result.citations || [],
-            key_developments: result.key_developments || []
-          });
-          
-          // Update conversation history with the final result
-          if (ws.conversationHistory.length > 0) {
-            ws.conversationHistory[ws.conversationHistory.length - 1].content = result.research_results || '';
-          }
-          return;
-        } else if (result && result.status === 'failed') {
-          const newMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-          this.sendToUserRoom(ws.userId!, {
-            type: MessageType.BOT_MESSAGE,
-            content: 'Additional research could not be completed.',
-            timestamp: new Date().toISOString(),
-            message_id: newMessageId,
-            error: result.error
-          });
-          return;
-        }
+      this.sendToUserRoom(ws.userId!, {
+        type: 'research_update',
+        content: response.response.response,
+        timestamp: response.timestamp,
+        message_id: response.message_id,
+        conversation_id: response.conversation_id,
+        research_pending: true,
+        parent_message_id: parentMessageId,
+        development,
+      });
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        this.sendError(ws, error.message);
+        return;
+      }
+      if (error instanceof KeyDevelopmentNotFoundError) {
+        this.sendError(ws, 'Key development not found');
+        return;
+      }
 
-        // Still pending, continue polling
-        if (attempts < maxAttempts && ws.readyState === WebSocket.OPEN) {
-          setTimeout(poll, 2000); // Poll every 2 seconds
-        } else {
-          logger.warn(`Research polling timed out for message ${messageId}`);
-        }
-      } catch (error) {
-        logger.error(`Error polling research for ${messageId}:`, error);
+      logger.error(`Error expanding development ${development} of ${parentMessageId}:`, error);
+      this.sendErrorToRoom(ws, 'Error starting follow-up research');
+    }
+  }
+
+  private async handleRefreshResearch(ws: AuthenticatedWebSocket, previousMessageId: string) {
+    try {
+      this.sendToUserRoom(ws.userId!, {
+        type: MessageType.AI_TYPING,
+        content: '',
+        timestamp: new Date().toISOString()
+      });
+
+      const response = await ChatService.refreshResearch(previousMessageId, ws.userId!, ws.sessionId);
+
+      this.sendToUserRoom(ws.userId!, {
+        type: 'research_update',
+        content: response.response.response,
+        timestamp: response.timestamp,
+        message_id: response.message_id,
+        conversation_id: response.conversation_id,
+        research_pending: true,
+        refresh_of: previousMessageId,
+      });
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        this.sendError(ws, error.message);
+        return;
+      }
+      if (error instanceof ResearchAnswerNotFoundError) {
+        this.sendError(ws, 'Research answer not found');
+        return;
       }
-    };
 
-    // Start polling after 2 seconds
-    setTimeout(poll, 2000);
+      logger.error(`Error refreshing research for ${previousMessageId}:`, error);
+      this.sendErrorToRoom(ws, 'Error refreshing research');
+    }
+  }
+
+  private handleResearchStreamEvent(event: ResearchStreamEvent) {
+    if (!event.userId) {
+      // Anonymous research has no room
+      return;
+    }
+
+    if (event.type === 'started') {
+      this.sendResearchUpdateToUserRoom(event.userId, {
+        type: 'research_update',
+        status: 'running',
+        research_pending: true,
+        message_id: event.messageId,
+        ...(event.conversationId && { conversation_id: event.conversationId }),
+        attempt: event.attempt,
+        timestamp: event.timestamp,
+      });
+      return;
+    }
+
+    if (event.type === 'progress') {
+      this.sendResearchUpdateToUserRoom(event.userId, {
+        type: 'research_update',
+        status: 'running',
+        research_pending: true,
+        message_id: event.messageId,
+        stage: event.stage,
+        ...(event.total !== undefined && { progress: { completed: event.completed || 0, total: event.total } }),
+        timestamp: event.timestamp,
+      });
+      return;
+    }
+
+    // Watch runs reach the user as a watch_update notification, and only when they find something new
+    if ((event.type === 'completed' || event.type === 'failed') && event.watchId) {
+      return;
+    }
+
+    if (event.type === 'completed') {
+      this.deliverResearchResult(event.userId, event.messageId, event.result, event.conversationId);
+      return;
+    }
+
+    if (event.type === 'failed') {
+      this.sendToUserRoom(event.userId, {
+        type: MessageType.BOT_MESSAGE,
+        content: 'Additional research could not be completed.',
+        timestamp: event.timestamp,
+        // No answer was stored, so the frame refers to the research that failed
+        message_id: event.messageId,
+        ...(event.conversationId && { conversation_id: event.conversationId }),
+        error: event.error,
+      });
+      return;
+    }
+
+    if (event.type === 'cancelled') {
+      this.sendResearchUpdateToUserRoom(event.userId, {
+        type: 'research_update',
+        status: 'cancelled',
+        research_pending: false,
+        message_id: event.messageId,
+        timestamp: event.timestamp,
+      });
+      return;
+    }
+
+    if (event.type === 'retrying') {
+      // Deltas from the failed attempt are superseded; the next attempt streams from the start
+      this.sendResearchUpdateToUserRoom(event.userId, {
+        type: 'research_update',
+        status: 'retrying',
+        research_pending: true,
+        message_id: event.messageId,
+        error: event.error,
+        attempt: event.attempt,
+        max_attempts: event.maxAttempts,
+        next_attempt_at: event.nextAttemptAt,
+        timestamp: event.timestamp,
+      });
+      return;
+    }
+
+    this.sendToUserRoom(event.userId, {
+      type: MessageType.BOT_MESSAGE_DELTA,
+      content: event.delta,
+      message_id: event.messageId,
+      timestamp: event.timestamp,
+    });
+  }
+
+  /**
+   * Tell the room research finished, then send the answer as a closing bot_message
+   */
+  private deliverResearchResult(userId: string, messageId: string, result: ResearchResult, conversationId?: string) {
+    this.sendResearchUpdateToUserRoom(userId, {
+      type: 'research_update',
+      timestamp: new Date().toISOString(),
+      research_pending: false,
+      message_id: messageId,
+    });
+
+    //send event to start typing animation
+    this.sendToUserRoom(userId, {
+      type: MessageType.AI_TYPING,
+      content: '',
+      timestamp: new Date().toISOString()
+    });
+
+    // A refresh is shown as an update to the earlier answer, with what changed
+    this.sendToUserRoom(userId, {
+      type: result.refresh ? MessageType.BOT_UPDATE : MessageType.BOT_MESSAGE,
+      content: result.research_results || '',
+      timestamp: new Date().toISOString(),
+      // The stored answer, so clients can expand, refresh or export it
+      message_id: result.bot_message_id,
+      research_message_id: messageId,
+      ...(conversationId && { conversation_id: conversationId }),
+      citations: result.citations || [],
+      key_developments: result.key_developments || [],
+      source_quality: result.source_quality,
+      weakly_grounded: result.weakly_grounded || [],
+      ...(result.expansion && {
+        parent_message_id: result.expansion.parent_message_id,
+        development: result.expansion.development,
+      }),
+      ...(result.research_plan && { research_plan: result.research_plan }),
+      ...(result.refresh && {
+        previous_message_id: result.refresh.previous_message_id,
+        diff: result.refresh.diff,
+      }),
+    });
   }
 
   private sendMessage(ws: AuthenticatedWebSocket, message: WebSocketMessage) {
@@ -424,6 +618,12 @@ export class WebSocketService {
     }
   }
 
+  // Whether the user has an open, authenticated session to send to
+  public isUserConnected(userId: string): boolean {
+    const room = this.userRooms.get(userId);
+    return !!room && Array.from(room.sessions).some(ws => ws.isAuthenticated && ws.readyState === WebSocket.OPEN);
+  }
+
   //send research update to user's room
   public sendResearchUpdateToUserRoom(userId: string, message: WebSocketMessage) {
     const room = this.userRooms.get(userId);
@@ -538,6 +738,8 @@ export class WebSocketService {
 
   // Cleanup on server shutdown
   public close() {
+    this.unsubscribeResearchStream();
+
     // Close all client connections
     this.clients.forEach((client) => {
       client.close();
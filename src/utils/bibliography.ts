@@ -0,0 +1,190 @@
+import { findRegulatorByUrl } from './regulatorRegistry';
+import { getDomainTier } from './sourceQuality';
+import { extractFacts } from './groundingCheck';
+import { normalizeCitationUrl } from './citationReconciliation';
+import type { ReportSource, SourceAccessStatus } from './researchReport';
+
+export type BibliographyFormat = 'csl-json' | 'bibtex';
+
+export const BIBLIOGRAPHY_FORMATS: BibliographyFormat[] = ['csl-json', 'bibtex'];
+
+export const isBibliographyFormat = (value: unknown): value is BibliographyFormat =>
+  typeof value === 'string' && (BIBLIOGRAPHY_FORMATS as string[]).includes(value);
+
+export type DocumentType = 'news_article' | 'press_release' | 'order' | 'rulemaking' | 'tariff' | 'docket' | 'report' | 'webpage';
+
+export interface BibliographyEntry {
+  key: string; // Citation key, also the CSL-JSON id
+  title: string;
+  url: string;
+  accessed: string | null; // YYYY-MM-DD the URL was checked during validation
+  organization: string | null; // Issuing organization, from the regulator registry or the host name
+  document_type: DocumentType;
+  docket_number: string | null;
+  access_status: SourceAccessStatus;
+}
+
+// Checked in order, so a press release about an order is a press release and an order in a docket an order
+const DOCUMENT_TYPE_PATTERNS: Array<[DocumentType, RegExp]> = [
+  ['press_release', /\b(?:press|news|media) releases?\b|\/(?:press|newsroom|press-releases?|news-releases?)\//i],
+  ['order', /\b(?:orders?|decisions?|rulings?|resolutions?|opinions?)\b|\/(?:orders?|decisions?)\//i],
+  ['rulemaking', /\b(?:rulemaking|proposed rules?|final rules?|notice of inquiry)\b/i],
+  ['tariff', /\b(?:tariffs?|rate schedules?)\b|\/tariffs?\//i],
+  ['docket', /\b(?:dockets?|proceedings?|case no\.?|cause no\.?|filings?)\b|\/(?:dockets?|edockets|efiling)\b/i],
+  ['report', /\b(?:reports?|stud(?:y|ies)|assessments?|white paper|analysis)\b|\.pdf$/i],
+];
+
+const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  news_article: 'News article',
+  press_release: 'Press release',
+  order: 'Order',
+  rulemaking: 'Rulemaking',
+  tariff: 'Tariff',
+  docket: 'Docket',
+  report: 'Report',
+  webpage: 'Web page',
+};
+
+const CSL_TYPES: Record<DocumentType, string> = {
+  news_article: 'article-newspaper',
+  press_release: 'document',
+  order: 'legal_case',
+  rulemaking: 'regulation',
+  tariff: 'document',
+  docket: 'legal_case',
+  report: 'report',
+  webpage: 'webpage',
+};
+
+const hostOf = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The organization behind a URL: the registry name for known regulators and agencies,
+ * otherwise the host name
+ */
+export const inferOrganization = (url: string): string | null =>
+  findRegulatorByUrl(url)?.name || hostOf(url);
+
+/**
+ * Kind of document a source is, from its site, title and URL
+ */
+export const inferDocumentType = (title: string, url: string): DocumentType => {
+  if (getDomainTier(url) === 'news') return 'news_article';
+
+  const path = (() => {
+    try {
+      return new URL(url).pathname;
+    } catch {
+      return '';
+    }
+  })();
+  return DOCUMENT_TYPE_PATTERNS.find(([, pattern]) => pattern.test(title) || pattern.test(path))?.[0] || 'webpage';
+};
+
+const findDocketNumber = (title: string): string | null => {
+  const docket = extractFacts(title).find(fact => fact.key.startsWith('docket:'));
+  return docket ? docket.key.slice('docket:'.length) : null;
+};
+
+/**
+ * Bibliography entries for cited sources, one per URL. Sources without a URL are left out.
+ * When a URL was checked more than once, the latest check is kept.
+ */
+export const buildBibliography = (sources: ReportSource[]): BibliographyEntry[] => {
+  const byUrl = new Map<string, ReportSource>();
+  sources.forEach(source => {
+    if (!source.url) return;
+    const urlKey = normalizeCitationUrl(source.url);
+    const existing = byUrl.get(urlKey);
+    if (!existing || (source.checked_at || '') > (existing.checked_at || '')) {
+      byUrl.set(urlKey, source);
+    }
+  });
+
+  const usedKeys = new Map<string, number>();
+  return [...byUrl.values()].map(source => {
+    const url = source.url!;
+    const accessed = source.checked_at ? source.checked_at.slice(0, 10) : null;
+
+    // e.g. cpuc2026, then cpuc2026b for the next source from the same site and year
+    const base = `${(hostOf(url) || '').split('.')[0].replace(/[^a-z0-9]/g, '') || 'source'}${accessed ? accessed.slice(0, 4) : ''}`;
+    const count = (usedKeys.get(base) || 0) + 1;
+    usedKeys.set(base, count);
+    const suffix = count === 1 ? '' : count <= 26 ? String.fromCharCode(96 + count) : `-${count}`;
+
+    return {
+      key: `${base}${suffix}`,
+      title: source.title,
+      url,
+      accessed,
+      organization: inferOrganization(url),
+      document_type: inferDocumentType(source.title, url),
+      docket_number: findDocketNumber(source.title),
+      access_status: source.access_status,
+    };
+  });
+};
+
+const accessNote = (entry: BibliographyEntry): string | null =>
+  entry.access_status === 'failed' || entry.access_status === 'unreachable'
+    ? `URL was inaccessible when checked${entry.accessed ? ` on ${entry.accessed}` : ''}`
+    : null;
+
+export const renderCslJson = (entries: BibliographyEntry[]): string => {
+  const items = entries.map(entry => {
+    const legal = CSL_TYPES[entry.document_type] === 'legal_case' || CSL_TYPES[entry.document_type] === 'regulation';
+    const note = accessNote(entry);
+    return {
+      id: entry.key,
+      type: CSL_TYPES[entry.document_type],
+      title: entry.title,
+      URL: entry.url,
+      genre: DOCUMENT_TYPE_LABELS[entry.document_type],
+      ...(entry.organization && { publisher: entry.organization }),
+      // CSL names the issuing body of legal documents "authority"
+      ...(entry.organization && legal && { authority: entry.organization }),
+      ...(entry.docket_number && { number: entry.docket_number }),
+      ...(entry.accessed && { accessed: { 'date-parts': [entry.accessed.split('-').map(Number)] } }),
+      ...(note && { note }),
+    };
+  });
+  return `${JSON.stringify(items, null, 2)}\n`;
+};
+
+const BIBTEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+const escapeBibtex = (text: string): string =>
+  text.replace(/[\\~^{}&%$#_]/g, char => BIBTEX_ESCAPES[char] || `\\${char}`);
+
+export const renderBibtex = (entries: BibliographyEntry[]): string => entries.map(entry => {
+  // Double braces keep the title's capitalization
+  const fields: Array<[string, string]> = [['title', `{${escapeBibtex(entry.title)}}`]];
+  if (entry.organization) {
+    fields.push([entry.document_type === 'report' ? 'institution' : 'organization', escapeBibtex(entry.organization)]);
+  }
+  fields.push(['type', DOCUMENT_TYPE_LABELS[entry.document_type]]);
+  if (entry.docket_number) fields.push(['number', escapeBibtex(entry.docket_number)]);
+  // URLs are verbatim in url and \url{}
+  fields.push(['url', entry.url], ['howpublished', `\\url{${entry.url}}`]);
+  if (entry.accessed) fields.push(['urldate', entry.accessed]);
+  const note = accessNote(entry) || (entry.accessed ? `Accessed ${entry.accessed}` : null);
+  if (note) fields.push(['note', note]);
+
+  const body = fields.map(([name, value]) => `  ${name} = {${value}}`).join(',\n');
+  return `@${entry.document_type === 'report' ? 'techreport' : 'misc'}{${entry.key},\n${body}\n}\n`;
+}).join('\n');
+
+export const BIBLIOGRAPHY_RENDERERS: Record<BibliographyFormat, { contentType: string; extension: string; render: (entries: BibliographyEntry[]) => string }> = {
+  'csl-json': { contentType: 'application/vnd.citationstyles.csl+json; charset=utf-8', extension: 'json', render: renderCslJson },
+  bibtex: { contentType: 'application/x-bibtex; charset=utf-8', extension: 'bib', render: renderBibtex },
+};
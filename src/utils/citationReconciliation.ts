@@ -0,0 +1,223 @@
+import type { Citation, KeyDevelopment } from './researchSchemas';
+
+export type CitationRepairType =
+  | 'orphan_marker' // An inline marker pointed at no citation and was dropped
+  | 'search_marker_mapped' // A raw search marker was matched to a citation by position
+  | 'duplicate_citation' // A citation repeated another's ID or URL and was merged into it
+  | 'unused_citation' // A citation nothing referred to was removed
+  | 'renumbered' // A citation got a new ID
+  | 'development_citation_added' // A development cited a source inline that its citation list lacked
+  | 'development_citation_dropped'; // A development listed a citation that does not exist
+
+export interface CitationRepair {
+  type: CitationRepairType;
+  citation_id?: number; // ID as returned by the model
+  new_id?: number;
+  merged_into?: number; // Model ID of the citation a duplicate was merged into
+  development?: number; // Key development number
+  marker?: string;
+  sub_question?: number; // Set when the repair was made to one part of a planned research run
+}
+
+export interface ReconciledResearch {
+  research_results: string;
+  key_developments: KeyDevelopment[];
+  citations: Citation[];
+  repairs: CitationRepair[];
+}
+
+// Raw web search markers, wrapped in private use characters: \ue200cite\ue202turn0search3\ue202turn1search0\ue201
+const SEARCH_MARKER = '\\ue200cite((?:\\ue202[^\\ue200\\ue201\\ue202]+)+)\\ue201';
+// Numbered markers written by the model, e.g. "[2]" or "[1, 3]"
+const NUMBERED_MARKER = '\\[(\\d{1,3}(?:\\s*,\\s*\\d{1,3})*)\\]';
+const MARKER_PATTERN = new RegExp(`(\\s*)(?:${SEARCH_MARKER}|${NUMBERED_MARKER})`, 'g');
+const PLACEHOLDER_PATTERN = /(\s*)\u0000(\d+)\u0000/g;
+
+/**
+ * Key for comparing citation URLs, ignoring scheme, "www.", trailing slashes and fragments
+ */
+export const normalizeCitationUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+const formatMarker = (ids: number[]): string => `[${ids.join(', ')}]`;
+
+/**
+ * Rewrite numbered markers with new citation IDs. Markers with no mapped ID are left as they are.
+ */
+export const renumberMarkers = (text: string, ids: Map<number, number>): string =>
+  text.replace(new RegExp(NUMBERED_MARKER, 'g'), (marker, numbers: string) => {
+    const mapped = [...new Set(
+      numbers.split(',').map(number => ids.get(Number(number.trim()))).filter((id): id is number => id !== undefined)
+    )].sort((a, b) => a - b);
+    return mapped.length > 0 ? formatMarker(mapped) : marker;
+  });
+
+/**
+ * Citation IDs referred to by the numbered markers in a text
+ */
+export const markerIds = (text: string): number[] =>
+  [...text.matchAll(new RegExp(NUMBERED_MARKER, 'g'))].flatMap(([, numbers]) => numbers.split(',').map(number => Number(number.trim())));
+
+/**
+ * Shift numbered markers by `offset` and prefix raw search references with `scope`, so the
+ * markers of one part of a merged response cannot collide with another part's
+ */
+export const scopeMarkers = (text: string, offset: number, scope: string): string =>
+  text.replace(MARKER_PATTERN, (_marker, space: string, searchReferences?: string, numbers?: string) => searchReferences
+    ? `${space}\ue200cite${searchReferences.split('\ue202').filter(Boolean).map(reference => `\ue202${scope}:${reference}`).join('')}\ue201`
+    : `${space}${formatMarker(numbers!.split(',').map(number => Number(number.trim()) + offset))}`);
+
+/**
+ * Make the citations of a research response consistent. Inline markers and key development
+ * citation lists are mapped to the citations they refer to, and citations are renumbered
+ * 1..n in order of first use. Orphan markers are dropped, duplicate citations merged and
+ * unused citations removed. If nothing refers to any citation, all of them are kept.
+ * Raw search markers carry no citation ID, so the nth distinct search result is matched
+ * to the nth citation. A search reference scoped by scopeMarkers is matched to the nth
+ * citation listed for its scope in `searchScopes`.
+ * @returns The repaired response and a record of each repair made.
+ */
+export const reconcileCitations = (
+  researchResults: string,
+  keyDevelopments: KeyDevelopment[],
+  citations: Citation[],
+  searchScopes?: Map<string, number[]> // Scope -> citation IDs of that part, in order
+): ReconciledResearch => {
+  const repairs: CitationRepair[] = [];
+
+  // Merge citations that repeat an ID or URL into the first one
+  const canonical = new Map<number, Citation>(); // model ID -> kept citation
+  const byUrl = new Map<string, Citation>();
+  const distinct: Citation[] = [];
+  citations.forEach(citation => {
+    const existing = canonical.get(citation.id) || (citation.url ? byUrl.get(normalizeCitationUrl(citation.url)) : undefined);
+    if (existing) {
+      repairs.push({ type: 'duplicate_citation', citation_id: citation.id, merged_into: existing.id });
+      if (!canonical.has(citation.id)) canonical.set(citation.id, existing);
+      return;
+    }
+    canonical.set(citation.id, citation);
+    if (citation.url) byUrl.set(normalizeCitationUrl(citation.url), citation);
+    distinct.push(citation);
+  });
+
+  const used: Citation[] = []; // In order of first use
+  const use = (citation: Citation) => {
+    if (!used.includes(citation)) used.push(citation);
+  };
+
+  const searchResults = new Map<string, Citation | null>();
+  const scopedResults = new Map<string, number>(); // Scope -> distinct references seen
+  const resolveSearchResult = (reference: string, marker: string): Citation | null => {
+    if (!searchResults.has(reference)) {
+      const scope = searchScopes && reference.includes(':') ? reference.slice(0, reference.indexOf(':')) : null;
+      let citation: Citation | null;
+      if (scope !== null) {
+        const scoped = [...new Set((searchScopes!.get(scope) || []).map(id => canonical.get(id)!))];
+        const seen = scopedResults.get(scope) || 0;
+        scopedResults.set(scope, seen + 1);
+        citation = scoped[seen] || null;
+      } else {
+        citation = distinct[searchResults.size] || null;
+      }
+      searchResults.set(reference, citation);
+      repairs.push(citation
+        ? { type: 'search_marker_mapped', citation_id: citation.id, marker: reference }
+        : { type: 'orphan_marker', marker });
+    }
+    return searchResults.get(reference)!;
+  };
+
+  // First pass: resolve every marker and swap it for a placeholder, recording first use
+  const markerCitations: Citation[][] = [];
+  const resolveMarkers = (text: string, cited?: Set<Citation>): string =>
+    text.replace(MARKER_PATTERN, (marker, space: string, searchReferences?: string, numbers?: string) => {
+      const resolved: Citation[] = [];
+      if (searchReferences) {
+        searchReferences.split('\ue202').filter(Boolean).forEach(reference => {
+          const citation = resolveSearchResult(reference, marker.trim());
+          if (citation && !resolved.includes(citation)) resolved.push(citation);
+        });
+      } else {
+        numbers!.split(',').map(number => Number(number.trim())).forEach(id => {
+          const citation = canonical.get(id);
+          if (!citation) {
+            repairs.push({ type: 'orphan_marker', citation_id: id, marker: marker.trim() });
+          } else if (!resolved.includes(citation)) {
+            resolved.push(citation);
+          }
+        });
+      }
+
+      resolved.forEach(citation => {
+        use(citation);
+        cited?.add(citation);
+      });
+      markerCitations.push(resolved);
+      return `${space}\u0000${markerCitations.length - 1}\u0000`;
+    });
+
+  const summary = resolveMarkers(researchResults);
+  const developments = keyDevelopments.map(development => {
+    const inline = new Set<Citation>();
+    const title = resolveMarkers(development.title, inline);
+    const description = resolveMarkers(development.description, inline);
+
+    const listed = new Set<Citation>();
+    development.citations.forEach(id => {
+      const citation = canonical.get(id);
+      if (citation) {
+        listed.add(citation);
+        use(citation);
+      } else {
+        repairs.push({ type: 'development_citation_dropped', citation_id: id, development: development.number });
+      }
+    });
+    inline.forEach(citation => {
+      if (!listed.has(citation)) {
+        repairs.push({ type: 'development_citation_added', citation_id: citation.id, development: development.number });
+        listed.add(citation);
+      }
+    });
+
+    return { development, title, description, cited: [...listed] };
+  });
+
+  const kept = used.length > 0 ? used : distinct;
+  distinct
+    .filter(citation => !kept.includes(citation))
+    .forEach(citation => repairs.push({ type: 'unused_citation', citation_id: citation.id }));
+
+  const newIds = new Map<Citation, number>();
+  kept.forEach((citation, index) => {
+    newIds.set(citation, index + 1);
+    if (citation.id !== index + 1) {
+      repairs.push({ type: 'renumbered', citation_id: citation.id, new_id: index + 1 });
+    }
+  });
+
+  // Second pass: write the placeholders back as renumbered markers
+  const writeMarkers = (text: string): string =>
+    text.replace(PLACEHOLDER_PATTERN, (_placeholder, space: string, index: string) => {
+      const ids = markerCitations[Number(index)].map(citation => newIds.get(citation)!).sort((a, b) => a - b);
+      return ids.length > 0 ? `${space}${formatMarker(ids)}` : '';
+    });
+
+  return {
+    research_results: writeMarkers(summary),
+    key_developments: developments.map(({ development, title, description, cited }) => ({
+      ...development,
+      title: writeMarkers(title),
+      description: writeMarkers(description),
+      citations: cited.map(citation => newIds.get(citation)!).sort((a, b) => a - b),
+    })),
+    citations: kept.map(citation => ({ ...citation, id: newIds.get(citation)! })),
+    repairs,
+  };
+};
@@ -0,0 +1,247 @@
+import type { KeyDevelopment } from './researchSchemas';
+
+export interface GroundingEvidence {
+  citation_id: number;
+  excerpt: string; // Passage from the cited page that supports the development
+  matched: string[]; // Figures, dates, docket IDs and terms the passage shares with the development
+}
+
+export interface Grounding {
+  score: number; // 0-1, how well the cited pages support the development
+  weakly_grounded: boolean;
+  evidence: GroundingEvidence[];
+  unmatched_facts: string[]; // Figures, dates and docket IDs not found on any cited page
+  sources_checked: number; // Cited pages whose text was available
+}
+
+// A checkable detail of a claim, keyed so differently written forms compare equal
+interface Fact {
+  key: string;
+  label: string; // As written in the text
+}
+
+interface Passage {
+  citationId: number;
+  text: string;
+  facts: Set<string>;
+  terms: string[];
+}
+
+const MIN_GROUNDING_SCORE = Number(process.env.GROUNDING_MIN_SCORE) || 0.45;
+const FACT_WEIGHT = 0.6; // Share of the score from figures, dates and docket IDs when the claim has any
+const MIN_PASSAGE_LENGTH = 200;
+const MAX_EXCERPT_LENGTH = 300;
+const MAX_EVIDENCE = 2;
+const MIN_EVIDENCE_SCORE = 0.2;
+const MIN_TERM_LENGTH = 4;
+const MIN_FUZZY_PREFIX = 5;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DOCKET_PATTERNS = [
+  // "Docket 23-0055", "Case No. 2024-00123"
+  /\b(?:docket(?:\s*(?:no\.?|number|#))?|(?:case|cause|proceeding|file)\s*(?:no\.?|number|#))\s*:?\s*([A-Z]{0,4}[-.]?\d[\w.-]*\d)/gi,
+  /\b[A-Z]{1,3}\d{2}-\d{2,6}(?:-\d{3})?\b/g, // FERC, e.g. ER24-1234-000
+  /\b[A-Z]\.\d{2}-\d{2}-\d{3}\b/g, // CPUC, e.g. R.22-07-005
+  /\bU-\d{4,6}\b/g, // Michigan PSC
+];
+
+const MONTH_DATE_PATTERN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\.?\s+(?:(\d{1,2})(?:st|nd|rd|th)?,?\s+)?(\d{4})\b/gi;
+const NUMERIC_DATE_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})\b|\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g;
+const NUMBER_PATTERN = /(\$\s?)?(\d[\d,]*(?:\.\d+)?)\s*(%|percent\b|cents?\b|¢|million\b|billion\b)?/gi;
+
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'also', 'been', 'before', 'being', 'between', 'both', 'could', 'does', 'each',
+  'from', 'have', 'having', 'here', 'into', 'more', 'most', 'much', 'must', 'only', 'other', 'over', 'same',
+  'should', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'through', 'under', 'until', 'very', 'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with',
+  'would', 'your',
+]);
+
+const normalizeNumber = (digits: string): string => String(parseFloat(digits.replace(/,/g, '')));
+
+const monthKey = (month: string): number => MONTHS.indexOf(month.slice(0, 3).toLowerCase()) + 1;
+
+/**
+ * Find the docket IDs, dates and figures in a text. Dates are keyed by month and year
+ * so "Jan. 15, 2025" and "2025-01-15" match, and figures by value and unit.
+ */
+export const extractFacts = (text: string): Fact[] => {
+  const facts: Fact[] = [];
+  let rest = text;
+
+  DOCKET_PATTERNS.forEach(pattern => {
+    rest = rest.replace(pattern, (match, captured?: string) => {
+      const id = typeof captured === 'string' ? captured : match;
+      facts.push({ key: `docket:${id.toUpperCase().replace(/\s+/g, '')}`, label: match.trim() });
+      return ' ';
+    });
+  });
+
+  rest = rest.replace(MONTH_DATE_PATTERN, (match, month: string, _day: string | undefined, year: string) => {
+    facts.push({ key: `date:${year}-${monthKey(month)}`, label: match.trim() });
+    return ' ';
+  });
+  rest = rest.replace(NUMERIC_DATE_PATTERN, (match, isoYear?: string, isoMonth?: string, _isoDay?: string, usMonth?: string, _usDay?: string, usYear?: string) => {
+    const year = isoYear || usYear;
+    const month = Number(isoMonth || usMonth);
+    facts.push({ key: `date:${year}-${month}`, label: match.trim() });
+    return ' ';
+  });
+
+  let match: RegExpExecArray | null;
+  NUMBER_PATTERN.lastIndex = 0;
+  while ((match = NUMBER_PATTERN.exec(rest)) !== null) {
+    const [label, dollar, digits, unit] = match;
+    // Bare single digits are list numbers and counts, not figures worth checking
+    if (!dollar && !unit && digits.replace(/,/g, '').length < 2) continue;
+
+    const normalizedUnit = !unit ? '' : unit.toLowerCase().startsWith('percent') || unit === '%' ? '%'
+      : unit === '¢' || unit.toLowerCase().startsWith('cent') ? 'cents' : unit.toLowerCase();
+    facts.push({ key: `number:${dollar ? '$' : ''}${normalizeNumber(digits)}${normalizedUnit}`, label: label.trim() });
+  }
+
+  return facts;
+};
+
+const stem = (word: string): string => word.replace(/(ations?|ings?|ed|es|s|ly)$/, '');
+
+/**
+ * Content words of a text, keyed by their lowercased stem
+ */
+const extractTermWords = (text: string): Map<string, string> => {
+  const terms = new Map<string, string>();
+  (text.toLowerCase().match(/[a-z][a-z'-]+/g) || [])
+    .filter(word => word.length >= MIN_TERM_LENGTH && !STOPWORDS.has(word))
+    .forEach(word => {
+      const term = stem(word);
+      if (!terms.has(term)) terms.set(term, word);
+    });
+  return terms;
+};
+
+/**
+ * Content words of a text, lowercased and stemmed
+ */
+export const extractTerms = (text: string): string[] => [...extractTermWords(text).keys()];
+
+// Stems match exactly, or when one starts with the other and they share enough letters ("regulat" / "regulator")
+const termsMatch = (a: string, b: string): boolean =>
+  a === b || (Math.min(a.length, b.length) >= MIN_FUZZY_PREFIX && (a.startsWith(b) || b.startsWith(a)));
+
+const splitPassages = (citationId: number, text: string): Passage[] => {
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  const passages: Passage[] = [];
+  let current = '';
+
+  const push = () => {
+    const passage = current.trim();
+    if (passage) {
+      passages.push({
+        citationId,
+        text: passage,
+        facts: new Set(extractFacts(passage).map(fact => fact.key)),
+        terms: extractTerms(passage),
+      });
+    }
+    current = '';
+  };
+
+  sentences.forEach(sentence => {
+    current = current ? `${current} ${sentence}` : sentence;
+    if (current.length >= MIN_PASSAGE_LENGTH) push();
+  });
+  push();
+
+  return passages;
+};
+
+const toExcerpt = (text: string): string =>
+  text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 3).trimEnd()}...` : text;
+
+/**
+ * Check how well the pages a development cites support it
+ * @param development The key development to check.
+ * @param passagesByCitation Passages of each cited page whose text was fetched.
+ */
+const gradeDevelopment = (development: KeyDevelopment, passagesByCitation: Map<number, Passage[]>): Grounding => {
+  const claim = `${development.title}. ${development.description}`;
+  const facts = [...new Map(extractFacts(claim).map(fact => [fact.key, fact])).values()];
+  const termWords = extractTermWords(claim);
+  const terms = [...termWords.keys()];
+
+  const cited = development.citations.filter(id => passagesByCitation.has(id));
+  if (cited.length === 0) {
+    return {
+      score: 0,
+      weakly_grounded: true,
+      evidence: [],
+      unmatched_facts: facts.map(fact => fact.label),
+      sources_checked: 0,
+    };
+  }
+
+  const passages = cited.flatMap(id => passagesByCitation.get(id)!);
+
+  const scored = passages.map(passage => {
+    const matchedFacts = facts.filter(fact => passage.facts.has(fact.key));
+    const matchedTerms = terms.filter(term => passage.terms.some(passageTerm => termsMatch(term, passageTerm)));
+    const termShare = terms.length > 0 ? matchedTerms.length / terms.length : 0;
+    const score = facts.length > 0
+      ? FACT_WEIGHT * (matchedFacts.length / facts.length) + (1 - FACT_WEIGHT) * termShare
+      : termShare;
+
+    return { passage, score, termShare, matched: [...matchedFacts.map(fact => fact.label), ...matchedTerms.map(term => termWords.get(term)!)] };
+  });
+
+  // Facts may be spread over several passages, so they count wherever they appear on the cited pages
+  const foundFacts = facts.filter(fact => passages.some(passage => passage.facts.has(fact.key)));
+  const bestTermShare = Math.max(0, ...scored.map(entry => entry.termShare));
+  const score = facts.length > 0
+    ? FACT_WEIGHT * (foundFacts.length / facts.length) + (1 - FACT_WEIGHT) * bestTermShare
+    : bestTermShare;
+
+  const evidence = scored
+    .filter(entry => entry.score >= MIN_EVIDENCE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_EVIDENCE)
+    .map(({ passage, matched }) => ({ citation_id: passage.citationId, excerpt: toExcerpt(passage.text), matched }));
+
+  const rounded = Math.round(score * 100) / 100;
+  return {
+    score: rounded,
+    weakly_grounded: rounded < MIN_GROUNDING_SCORE,
+    evidence,
+    unmatched_facts: facts.filter(fact => !foundFacts.includes(fact)).map(fact => fact.label),
+    sources_checked: cited.length,
+  };
+};
+
+/**
+ * Annotate each key development with how well its cited pages support it, using
+ * local matching of figures, dates, docket IDs and terms against the fetched page text.
+ * @param keyDevelopments The developments to check.
+ * @param pageTexts Extracted text of each cited page, by citation ID.
+ */
+export const checkGrounding = (
+  keyDevelopments: KeyDevelopment[],
+  pageTexts: Map<number, string>
+): KeyDevelopment[] => {
+  const passagesByCitation = new Map<number, Passage[]>();
+  pageTexts.forEach((text, citationId) => {
+    if (text) passagesByCitation.set(citationId, splitPassages(citationId, text));
+  });
+
+  return keyDevelopments.map(development => ({
+    ...development,
+    grounding: gradeDevelopment(development, passagesByCitation),
+  }));
+};
+
+/**
+ * Numbers of the developments the cited pages do not clearly support
+ */
+export const getWeaklyGroundedDevelopments = (keyDevelopments: KeyDevelopment[]): number[] =>
+  keyDevelopments
+    .filter(development => development.grounding?.weakly_grounded)
+    .map(development => development.number);
@@ -0,0 +1,100 @@
+import { Region, STATES, findState, getRegion } from './regulatorRegistry';
+import { ZIP3_STATE_RANGES } from './zipPrefixes';
+
+// Canonical user location used for research, source prioritization and message metadata
+export interface ResolvedLocation {
+  state: string; // Two-letter code
+  region: Region;
+  zip?: string;
+}
+
+// Where a location was found, in order of precedence
+export type LocationSource = 'message' | 'request' | 'profile';
+
+const ZIP_PATTERN = /(?<![\d$])(\d{5})(?:-\d{4})?(?!\d)/;
+// In free text a 5-digit number is only a ZIP when labeled ("ZIP 60601", "zip code 60601") or after "City, ST"
+const LABELED_ZIP_PATTERN = /\bzip(?:\s*code)?(?:\s+is)?[\s:#]*(\d{5})(?:-\d{4})?(?!\d)/i;
+const CITY_STATE_ZIP_PATTERN = /,\s*[A-Z]{2}\s+(\d{5})(?:-\d{4})?(?!\d)/;
+// "Washington DC", "Washington, D.C." or "D.C." - checked before state names so it is not read as Washington state
+const DC_PATTERN = /\bWashington,?\s+D\.?\s?C\b|\bD\.C\./i;
+
+// Full state names, longest first so "West Virginia" is matched before "Virginia"
+const STATE_NAME_PATTERNS = Object.values(STATES)
+  .sort((a, b) => b.name.length - a.name.length)
+  .map(state => ({ code: state.code, pattern: new RegExp(`\\b${state.name.replace(/ /g, '\\s+')}\\b`, 'i') }));
+
+const toLocation = (code: string, zip?: string): ResolvedLocation | null => {
+  const state = STATES[code];
+  if (!state) return null;
+  return { state: state.code, region: state.region, ...(zip ? { zip } : {}) };
+};
+
+/**
+ * State for a 5-digit ZIP code from the bundled ZIP3 table
+ */
+export const getStateForZip = (zip: string): string | null => {
+  if (!/^\d{5}$/.test(zip)) return null;
+
+  const prefix = Number(zip.slice(0, 3));
+  const range = ZIP3_STATE_RANGES.find(([start, end]) => prefix >= start && prefix <= end);
+  return range ? range[2] : null;
+};
+
+const resolveZip = (text: string, pattern: RegExp = ZIP_PATTERN): ResolvedLocation | null => {
+  const zip = text.match(pattern)?.[1];
+  const state = zip ? getStateForZip(zip) : null;
+  return state ? toLocation(state, zip) : null;
+};
+
+const resolveStateName = (text: string): ResolvedLocation | null => {
+  if (DC_PATTERN.test(text)) return toLocation('DC');
+
+  const match = STATE_NAME_PATTERNS.find(({ pattern }) => pattern.test(text));
+  return match ? toLocation(match.code) : null;
+};
+
+/**
+ * Resolve a location a user entered on purpose (request field or profile):
+ * a ZIP, "City, ST", "City, State", a state code or a state name.
+ */
+export const resolveLocation = (input?: string | null): ResolvedLocation | null => {
+  const text = input?.trim();
+  if (!text) return null;
+
+  const fromZip = resolveZip(text);
+  if (fromZip) return fromZip;
+
+  // "Chicago, IL" or "Chicago, Illinois" - the state is the last part
+  const lastPart = text.split(',').pop()!.trim();
+  const state = findState(lastPart) || findState(text);
+  if (state) return toLocation(state.code);
+
+  return resolveStateName(text);
+};
+
+/**
+ * Find a location mentioned in a chat message. Stricter than resolveLocation: bare
+ * two-letter codes only count after a comma ("Chicago, IL"), since words like "in",
+ * "or" and "me" are also state codes, and a ZIP needs a label or a city and state,
+ * since questions are full of kWh figures, docket numbers and customer counts.
+ */
+export const findLocationInText = (text: string): ResolvedLocation | null => {
+  const fromZip = resolveZip(text, LABELED_ZIP_PATTERN) || resolveZip(text, CITY_STATE_ZIP_PATTERN);
+  if (fromZip) return fromZip;
+
+  const cityState = text.match(/,\s*([A-Z]{2})\b/);
+  if (cityState && STATES[cityState[1]]) {
+    return toLocation(cityState[1]);
+  }
+
+  return resolveStateName(text);
+};
+
+/**
+ * Human-readable location for the research input, e.g. "Illinois (IL), Midwest region, ZIP 60601"
+ */
+export const describeLocation = (location: ResolvedLocation): string => {
+  const parts = [`${STATES[location.state].name} (${location.state})`, `${getRegion(location.region).name} region`];
+  if (location.zip) parts.push(`ZIP ${location.zip}`);
+  return parts.join(', ');
+};
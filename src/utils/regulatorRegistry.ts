@@ -0,0 +1,322 @@
+// Registry of the US energy regulators and agencies research should prioritize.
+// The research source instructions, the regulators API and citation authority tiers
+// are all generated from this data, so adding a source is a data change here.
+
+export type Region = 'midwest' | 'northeast' | 'southeast' | 'southwest' | 'west';
+
+export type RegulatorKind =
+  | 'state_commission' // State public utility / service commission
+  | 'iso_rto' // Independent system operator or regional transmission organization
+  | 'federal' // Federal agency or power marketing administration
+  | 'reliability' // NERC and the regional reliability entities
+  | 'association'; // Interstate boards and industry associations
+
+// How authoritative a cited source is for the research location:
+// primary and secondary follow the region's lists, unlisted sources are not in the registry
+export type AuthorityTier = 'primary' | 'secondary' | 'unlisted';
+
+export interface Regulator {
+  id: string;
+  name: string;
+  kind: RegulatorKind;
+  url: string;
+  domain: string; // Host without "www."
+  path?: string; // Site section when the agency shares its domain, e.g. "/iurc" on in.gov
+  state?: string; // Two-letter code for state commissions
+}
+
+export interface StateInfo {
+  code: string;
+  name: string;
+  region: Region;
+}
+
+export interface RegionSources {
+  region: Region;
+  name: string;
+  states: string[]; // Two-letter codes
+  primary: string[]; // Regulator IDs
+  secondary: string[]; // Regulator IDs
+}
+
+interface RegulatorEntry {
+  name: string;
+  kind: RegulatorKind;
+  url: string;
+  state?: string;
+}
+
+const REGULATOR_ENTRIES: Record<string, RegulatorEntry> = {
+  // Midwest state commissions
+  'il-icc': { name: 'Illinois Commerce Commission', kind: 'state_commission', state: 'IL', url: 'https://www.icc.illinois.gov' },
+  'in-iurc': { name: 'Indiana Utility Regulatory Commission', kind: 'state_commission', state: 'IN', url: 'https://www.in.gov/iurc/' },
+  'ia-iuc': { name: 'Iowa Utilities Commission', kind: 'state_commission', state: 'IA', url: 'https://iuc.iowa.gov/' },
+  'ks-kcc': { name: 'Kansas Corporation Commission', kind: 'state_commission', state: 'KS', url: 'https://www.kcc.ks.gov/' },
+  'mi-mpsc': { name: 'Michigan Public Service Commission', kind: 'state_commission', state: 'MI', url: 'https://www.michigan.gov/mpsc' },
+  'mn-puc': { name: 'Minnesota Public Utilities Commission', kind: 'state_commission', state: 'MN', url: 'https://mn.gov/puc/' },
+  'mo-psc': { name: 'Missouri Public Service Commission', kind: 'state_commission', state: 'MO', url: 'https://psc.mo.gov/' },
+  'ne-psc': { name: 'Nebraska Public Service Commission', kind: 'state_commission', state: 'NE', url: 'https://psc.nebraska.gov/' },
+  'nd-psc': { name: 'North Dakota Public Service Commission', kind: 'state_commission', state: 'ND', url: 'https://www.psc.nd.gov/' },
+  'wi-psc': { name: 'Public Service Commission of Wisconsin', kind: 'state_commission', state: 'WI', url: 'https://psc.wi.gov/' },
+  'oh-puco': { name: 'Public Utilities Commission of Ohio', kind: 'state_commission', state: 'OH', url: 'https://puco.ohio.gov/' },
+  'sd-puc': { name: 'South Dakota Public Utilities Commission', kind: 'state_commission', state: 'SD', url: 'https://puc.sd.gov/' },
+
+  // Northeast state commissions
+  'de-psc': { name: 'Delaware Public Service Commission', kind: 'state_commission', state: 'DE', url: 'https://depsc.delaware.gov' },
+  'ma-dpu': { name: 'Department of Public Utilities Massachusetts', kind: 'state_commission', state: 'MA', url: 'https://www.mass.gov/orgs/department-of-public-utilities' },
+  'me-puc': { name: 'Maine Public Utilities Commission', kind: 'state_commission', state: 'ME', url: 'https://www.maine.gov/mpuc/home' },
+  'md-psc': { name: 'Maryland Public Service Commission', kind: 'state_commission', state: 'MD', url: 'https://www.psc.state.md.us' },
+  'nh-puc': { name: 'New Hampshire Public Utilities Commission', kind: 'state_commission', state: 'NH', url: 'https://www.puc.nh.gov/' },
+  'nj-bpu': { name: 'New Jersey Board of Public Utilities', kind: 'state_commission', state: 'NJ', url: 'https://www.nj.gov/bpu/' },
+  'ny-psc': { name: 'New York State Public Service Commission', kind: 'state_commission', state: 'NY', url: 'https://dps.ny.gov/' },
+  'pa-puc': { name: 'Pennsylvania Public Utility Commission', kind: 'state_commission', state: 'PA', url: 'https://www.puc.pa.gov/' },
+  'dc-psc': { name: 'Public Service Commission of the District of Columbia', kind: 'state_commission', state: 'DC', url: 'https://dcpsc.org' },
+  'ct-pura': { name: 'Public Utilities Regulatory Authority Connecticut', kind: 'state_commission', state: 'CT', url: 'https://portal.ct.gov/pura' },
+  'ri-puc': { name: 'Rhode Island Public Utilities Commission', kind: 'state_commission', state: 'RI', url: 'https://ripuc.ri.gov/' },
+  'vt-puc': { name: 'Vermont Public Utility Commission', kind: 'state_commission', state: 'VT', url: 'https://epuc.vermont.gov/' },
+
+  // Southeast state commissions
+  'al-psc': { name: 'Alabama Public Service Commission', kind: 'state_commission', state: 'AL', url: 'https://psc.alabama.gov' },
+  'ar-psc': { name: 'Arkansas Public Service Commission', kind: 'state_commission', state: 'AR', url: 'https://www.apscservices.info' },
+  'fl-psc': { name: 'Florida Public Service Commission', kind: 'state_commission', state: 'FL', url: 'https://www.psc.state.fl.us' },
+  'ga-psc': { name: 'Georgia Public Service Commission', kind: 'state_commission', state: 'GA', url: 'https://psc.ga.gov' },
+  'ky-psc': { name: 'Kentucky Public Service Commission', kind: 'state_commission', state: 'KY', url: 'https://psc.ky.gov' },
+  'la-lpsc': { name: 'Louisiana Public Service Commission', kind: 'state_commission', state: 'LA', url: 'https://www.lpsc.louisiana.gov' },
+  'ms-psc': { name: 'Mississippi Public Service Commission', kind: 'state_commission', state: 'MS', url: 'https://www.psc.ms.gov' },
+  'nc-ncuc': { name: 'North Carolina Utilities Commission', kind: 'state_commission', state: 'NC', url: 'https://www.ncuc.net' },
+  'sc-psc': { name: 'South Carolina Public Service Commission', kind: 'state_commission', state: 'SC', url: 'https://psc.sc.gov' },
+  'tn-tpuc': { name: 'Tennessee Public Utility Commission', kind: 'state_commission', state: 'TN', url: 'https://www.tn.gov/tpuc.html' },
+  'va-scc': { name: 'Virginia State Corporation Commission', kind: 'state_commission', state: 'VA', url: 'https://www.scc.virginia.gov' },
+  'wv-psc': { name: 'West Virginia Public Service Commission', kind: 'state_commission', state: 'WV', url: 'https://www.psc.state.wv.us' },
+
+  // Southwest state commissions
+  'az-acc': { name: 'Arizona Corporation Commission', kind: 'state_commission', state: 'AZ', url: 'https://www.azcc.gov' },
+  'nm-prc': { name: 'New Mexico Public Regulation Commission', kind: 'state_commission', state: 'NM', url: 'https://www.prc.nm.gov' },
+  'ok-occ': { name: 'Oklahoma Corporation Commission', kind: 'state_commission', state: 'OK', url: 'https://oklahoma.gov/occ.html' },
+  'tx-puct': { name: 'Public Utility Commission of Texas', kind: 'state_commission', state: 'TX', url: 'https://www.puc.texas.gov' },
+
+  // West state commissions
+  'ca-cpuc': { name: 'California Public Utilities Commission', kind: 'state_commission', state: 'CA', url: 'https://www.cpuc.ca.gov' },
+  'co-puc': { name: 'Colorado Public Utilities Commission', kind: 'state_commission', state: 'CO', url: 'https://puc.colorado.gov' },
+  'hi-puc': { name: 'Hawaii Public Utilities Commission', kind: 'state_commission', state: 'HI', url: 'https://puc.hawaii.gov' },
+  'id-puc': { name: 'Idaho Public Utilities Commission', kind: 'state_commission', state: 'ID', url: 'https://puc.idaho.gov' },
+  'mt-psc': { name: 'Montana Public Service Commission', kind: 'state_commission', state: 'MT', url: 'https://psc.mt.gov' },
+  'or-puc': { name: 'Oregon Public Utility Commission', kind: 'state_commission', state: 'OR', url: 'https://puc.oregon.gov' },
+  'ut-psc': { name: 'Public Service Commission of Utah', kind: 'state_commission', state: 'UT', url: 'https://psc.utah.gov' },
+  'nv-puc': { name: 'Public Utilities Commission of Nevada', kind: 'state_commission', state: 'NV', url: 'https://puc.nv.gov' },
+  'ak-rca': { name: 'Regulatory Commission of Alaska', kind: 'state_commission', state: 'AK', url: 'https://rca.alaska.gov' },
+  'wa-utc': { name: 'Washington Utilities and Transportation Commission', kind: 'state_commission', state: 'WA', url: 'https://www.utc.wa.gov' },
+  'wy-psc': { name: 'Wyoming Public Service Commission', kind: 'state_commission', state: 'WY', url: 'https://psc.wyo.gov' },
+
+  // ISOs and RTOs
+  'pjm': { name: 'PJM Interconnection', kind: 'iso_rto', url: 'https://www.pjm.com' },
+  'miso': { name: 'Midcontinent Independent System Operator', kind: 'iso_rto', url: 'https://www.misoenergy.org/' },
+  'spp': { name: 'Southwest Power Pool', kind: 'iso_rto', url: 'https://www.spp.org' },
+  'iso-ne': { name: 'ISO New England', kind: 'iso_rto', url: 'https://www.iso-ne.com/' },
+  'nyiso': { name: 'New York Independent System Operator', kind: 'iso_rto', url: 'https://www.nyiso.com/' },
+  'ercot': { name: 'Electric Reliability Council of Texas', kind: 'iso_rto', url: 'https://www.ercot.com' },
+  'caiso': { name: 'California ISO', kind: 'iso_rto', url: 'https://www.caiso.com' },
+
+  // Federal agencies and power marketing administrations
+  'ferc': { name: 'Federal Energy Regulatory Commission', kind: 'federal', url: 'https://www.ferc.gov' },
+  'doe-oe': { name: 'U.S. Department of Energy – Office of Electricity', kind: 'federal', url: 'https://www.energy.gov/oe' },
+  'eia': { name: 'U.S. Energy Information Administration', kind: 'federal', url: 'https://www.eia.gov' },
+  'energy-star': { name: 'ENERGY STAR', kind: 'federal', url: 'https://www.energystar.gov' },
+  'tva': { name: 'Tennessee Valley Authority', kind: 'federal', url: 'https://www.tva.gov' },
+  'bpa': { name: 'Bonneville Power Administration', kind: 'federal', url: 'https://www.bpa.gov' },
+  'sepa': { name: 'Southeastern Power Administration', kind: 'federal', url: 'https://www.energy.gov/sepa/southeastern-power-administration' },
+  'swpa': { name: 'Southwestern Power Administration', kind: 'federal', url: 'https://www.energy.gov/swpa/southwestern-power-administration' },
+  'wapa': { name: 'Western Area Power Administration', kind: 'federal', url: 'https://www.wapa.gov' },
+  'wapa-ugp': { name: 'Western Area Power Administration – Upper Great Plains Region', kind: 'federal', url: 'https://www.wapa.gov/project/upper-great-plains-regions/' },
+  'wapa-dsw': { name: 'Western Area Power Administration – Desert Southwest Region', kind: 'federal', url: 'https://www.wapa.gov/project/desert-southwest-region/' },
+
+  // Reliability entities
+  'nerc': { name: 'NERC', kind: 'reliability', url: 'https://www.nerc.com' },
+  'mro': { name: 'Midwest Reliability Organization', kind: 'reliability', url: 'https://www.mro.net/' },
+  'serc': { name: 'SERC Reliability Corporation', kind: 'reliability', url: 'https://www.serc1.org' },
+  'npcc': { name: 'Northeast Power Coordinating Council', kind: 'reliability', url: 'https://www.npcc.org/' },
+  'frcc': { name: 'Florida Reliability Coordinating Council', kind: 'reliability', url: 'https://www.frcc.com' },
+  'wecc': { name: 'Western Electricity Coordinating Council', kind: 'reliability', url: 'https://www.wecc.org' },
+
+  // Interstate boards and associations
+  'naruc': { name: 'NARUC', kind: 'association', url: 'https://www.naruc.org' },
+  'sseb': { name: 'Southern States Energy Board', kind: 'association', url: 'https://www.sseb.org' },
+  'nwcouncil': { name: 'Northwest Power and Conservation Council', kind: 'association', url: 'https://www.nwcouncil.org' },
+  'wieb': { name: 'Western Interstate Energy Board', kind: 'association', url: 'https://westernenergyboard.org' },
+};
+
+// Sources every region lists as secondary
+const NATIONAL_SOURCES = ['energy-star', 'ferc', 'naruc', 'nerc', 'doe-oe', 'eia'];
+
+// Primary lists name the non-commission sources; each region's state commissions are added below
+const REGION_ENTRIES: RegionSources[] = [
+  {
+    region: 'midwest',
+    name: 'Midwest',
+    states: ['OH', 'IN', 'IL', 'MI', 'WI', 'MN', 'IA', 'MO', 'ND', 'SD', 'NE', 'KS'],
+    primary: ['pjm'],
+    secondary: [...NATIONAL_SOURCES, 'miso', 'mro', 'serc', 'spp', 'wapa-ugp'],
+  },
+  {
+    region: 'northeast',
+    name: 'Northeast',
+    states: ['ME', 'NH', 'VT', 'MA', 'RI', 'CT', 'NY', 'NJ', 'PA', 'DE', 'MD', 'DC'],
+    primary: ['iso-ne', 'nyiso', 'npcc', 'pjm'],
+    secondary: [...NATIONAL_SOURCES],
+  },
+  {
+    region: 'southeast',
+    name: 'Southeast',
+    states: ['VA', 'WV', 'KY', 'TN', 'NC', 'SC', 'GA', 'FL', 'AL', 'MS', 'AR', 'LA'],
+    primary: ['tva'],
+    secondary: [...NATIONAL_SOURCES, 'frcc', 'serc', 'sepa', 'sseb'],
+  },
+  {
+    region: 'southwest',
+    name: 'Southwest',
+    states: ['TX', 'OK', 'NM', 'AZ'],
+    primary: [],
+    secondary: [...NATIONAL_SOURCES, 'ercot', 'sseb', 'spp', 'swpa', 'wapa-dsw', 'wecc'],
+  },
+  {
+    region: 'west',
+    name: 'West',
+    states: ['MT', 'WY', 'CO', 'UT', 'ID', 'WA', 'OR', 'NV', 'CA', 'AK', 'HI'],
+    primary: [],
+    secondary: [...NATIONAL_SOURCES, 'bpa', 'caiso', 'nwcouncil', 'wapa', 'wecc', 'wieb'],
+  },
+];
+
+// The research prompt lists regions in this order when mapping states to regions
+const GEOGRAPHIC_ORDER: Region[] = ['northeast', 'southeast', 'midwest', 'southwest', 'west'];
+
+// URLs the research prompt has always used for a source in one region, where they differ from the registry's
+const PROMPT_URLS: Partial<Record<Region, Record<string, string>>> = {
+  southwest: { spp: 'https://www.spp.org/' },
+};
+
+const STATE_NAMES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado', CT: 'Connecticut',
+  DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho',
+  IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine', MD: 'Maryland',
+  MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi', MO: 'Missouri', MT: 'Montana',
+  NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York',
+  NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania',
+  RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah',
+  VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+};
+
+const byName = (a: Regulator, b: Regulator) => a.name.localeCompare(b.name);
+
+const toRegulator = (id: string, entry: RegulatorEntry): Regulator => {
+  const url = new URL(entry.url);
+  // "/tpuc.html" and "/tpuc/..." are the same section of tn.gov
+  const path = url.pathname.replace(/\.html$/, '').replace(/\/+$/, '');
+  return {
+    id,
+    ...entry,
+    domain: url.hostname.replace(/^www\./, ''),
+    ...(path ? { path } : {}),
+  };
+};
+
+export const REGULATORS: Record<string, Regulator> = Object.fromEntries(
+  Object.entries(REGULATOR_ENTRIES).map(([id, entry]) => [id, toRegulator(id, entry)])
+);
+
+export const REGIONS: RegionSources[] = REGION_ENTRIES.map(region => ({
+  ...region,
+  primary: [
+    ...Object.values(REGULATORS)
+      .filter(regulator => regulator.kind === 'state_commission' && region.states.includes(regulator.state!))
+      .map(regulator => regulator.id),
+    ...region.primary,
+  ],
+}));
+
+export const STATES: Record<string, StateInfo> = Object.fromEntries(
+  REGIONS.flatMap(region =>
+    region.states.map(code => [code, { code, name: STATE_NAMES[code], region: region.region }])
+  )
+);
+
+/**
+ * Look up a state by two-letter code or full name, case-insensitively
+ */
+export const findState = (value?: string | null): StateInfo | null => {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return null;
+
+  return Object.values(STATES).find(state =>
+    state.code.toLowerCase() === normalized || state.name.toLowerCase() === normalized
+  ) || null;
+};
+
+export const getRegion = (region: Region): RegionSources => REGIONS.find(entry => entry.region === region)!;
+
+/**
+ * The registry entry for a URL. Agencies that share a domain are told apart by path,
+ * so the most specific match wins.
+ */
+export const findRegulatorByUrl = (url: string): Regulator | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const path = parsed.pathname.toLowerCase();
+
+  const inSection = (section: string) =>
+    path === section || path.startsWith(`${section}/`) || path.startsWith(`${section}.`);
+
+  const matches = Object.values(REGULATORS).filter(regulator =>
+    (host === regulator.domain || host.endsWith(`.${regulator.domain}`)) &&
+    (!regulator.path || inSection(regulator.path.toLowerCase()))
+  );
+
+  return matches.sort((a, b) => (b.path?.length || 0) - (a.path?.length || 0))[0] || null;
+};
+
+/**
+ * Authority tier of a cited URL for a research location (state code or name).
+ * Without a known state, a source that is primary for any region counts as primary.
+ */
+export const getAuthorityTier = (url: string, location?: string | null): AuthorityTier => {
+  const regulator = findRegulatorByUrl(url);
+  if (!regulator) return 'unlisted';
+
+  const state = findState(location);
+  const regions = state ? [getRegion(state.region)] : REGIONS;
+  return regions.some(region => region.primary.includes(regulator.id)) ? 'primary' : 'secondary';
+};
+
+const formatSources = (region: Region, ids: string[]): string =>
+  ids
+    .map(id => REGULATORS[id])
+    .sort(byName)
+    .map(regulator => `${regulator.name} (${PROMPT_URLS[region]?.[regulator.id] || regulator.url})`)
+    .join(', ');
+
+/**
+ * The prioritized source lists for the research prompt
+ */
+export const buildPrioritizedSourcesSection = (): string =>
+  REGIONS.map(region => {
+    return [
+      `## ${region.name.toUpperCase()} REGION`,
+      `**PRIMARY:** ${formatSources(region.region, region.primary)}`,
+      '',
+      `**SECONDARY:** ${formatSources(region.region, region.secondary)}`,
+    ].join('\n');
+  }).join('\n\n');
+
+/**
+ * The state-to-region list for the research prompt
+ */
+export const buildGeographicPrioritizationList = (): string =>
+  GEOGRAPHIC_ORDER.map(getRegion).map(region =>
+    `   - **${region.name.toUpperCase()}:** ${region.states.map(code => STATES[code].name).join(', ')}`
+  ).join('\n');
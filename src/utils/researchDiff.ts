@@ -0,0 +1,150 @@
+import type { Citation, KeyDevelopment } from './researchSchemas';
+import { extractFacts, extractTerms } from './groundingCheck';
+import { normalizeCitationUrl } from './citationReconciliation';
+
+export interface DevelopmentChange {
+  previous: KeyDevelopment;
+  current: KeyDevelopment;
+  facts_added: string[]; // Figures, dates and docket IDs only the new development mentions
+  facts_removed: string[]; // Figures, dates and docket IDs the new development no longer mentions
+  sources_added: string[]; // URLs only the new development cites
+  sources_removed: string[]; // URLs the new development no longer cites
+}
+
+export interface ResearchDiff {
+  added: KeyDevelopment[];
+  removed: KeyDevelopment[];
+  modified: DevelopmentChange[];
+  unchanged: number; // Developments that match with the same facts and sources
+  new_citations: Citation[]; // Sources the earlier answer did not cite
+}
+
+// The parts of a research answer that are compared
+export interface ResearchSnapshot {
+  key_developments: KeyDevelopment[];
+  citations: Citation[];
+}
+
+// Share of terms and docket IDs two developments need in common to count as the same development
+const MIN_MATCH_SIMILARITY = 0.3;
+
+const CITATION_MARKER_PATTERN = /\s*\[\d{1,3}(?:\s*,\s*\d{1,3})*\]/g;
+
+interface DevelopmentProfile {
+  development: KeyDevelopment;
+  keys: Set<string>; // Terms and docket IDs, used to match developments across runs
+  facts: Map<string, string>; // Fact key -> label as written
+  sources: Set<string>; // Normalized URLs of the cited pages
+}
+
+const profileDevelopment = (development: KeyDevelopment, citations: Citation[]): DevelopmentProfile => {
+  const text = `${development.title}. ${development.description}`.replace(CITATION_MARKER_PATTERN, '');
+  const facts = new Map(extractFacts(text).map(fact => [fact.key, fact.label]));
+  const urls = new Map(citations.filter(citation => citation.url).map(citation => [citation.id, citation.url]));
+
+  return {
+    development,
+    keys: new Set([...extractTerms(text), ...[...facts.keys()].filter(key => key.startsWith('docket:'))]),
+    facts,
+    sources: new Set(development.citations
+      .map(id => urls.get(id))
+      .filter((url): url is string => Boolean(url))
+      .map(normalizeCitationUrl)),
+  };
+};
+
+const similarity = (a: DevelopmentProfile, b: DevelopmentProfile): number => {
+  const shared = [...a.keys].filter(key => b.keys.has(key)).length;
+  const total = new Set([...a.keys, ...b.keys]).size;
+  return total > 0 ? shared / total : 0;
+};
+
+const onlyIn = <T>(a: Iterable<T>, b: Set<T>): T[] => [...a].filter(item => !b.has(item));
+
+/**
+ * Compare a new research run with an earlier one. Developments are matched by the terms
+ * and docket IDs they share, since titles are reworded from run to run; a matched pair is
+ * modified when its figures, dates, docket IDs or cited sources differ.
+ * @param previous The earlier answer.
+ * @param current The new answer.
+ */
+export const diffResearch = (previous: ResearchSnapshot, current: ResearchSnapshot): ResearchDiff => {
+  const before = previous.key_developments.map(development => profileDevelopment(development, previous.citations));
+  const after = current.key_developments.map(development => profileDevelopment(development, current.citations));
+
+  // Pair the most similar developments first
+  const candidates = before
+    .flatMap((a, i) => after.map((b, j) => ({ i, j, score: similarity(a, b) })))
+    .filter(candidate => candidate.score >= MIN_MATCH_SIMILARITY)
+    .sort((x, y) => y.score - x.score);
+  const matchedBefore = new Map<number, number>();
+  const matchedAfter = new Set<number>();
+  candidates.forEach(({ i, j }) => {
+    if (matchedBefore.has(i) || matchedAfter.has(j)) return;
+    matchedBefore.set(i, j);
+    matchedAfter.add(j);
+  });
+
+  const modified: DevelopmentChange[] = [];
+  let unchanged = 0;
+  matchedBefore.forEach((j, i) => {
+    const a = before[i];
+    const b = after[j];
+    const change: DevelopmentChange = {
+      previous: a.development,
+      current: b.development,
+      facts_added: onlyIn(b.facts.keys(), new Set(a.facts.keys())).map(key => b.facts.get(key)!),
+      facts_removed: onlyIn(a.facts.keys(), new Set(b.facts.keys())).map(key => a.facts.get(key)!),
+      sources_added: onlyIn(b.sources, a.sources),
+      sources_removed: onlyIn(a.sources, b.sources),
+    };
+
+    if (change.facts_added.length || change.facts_removed.length || change.sources_added.length || change.sources_removed.length) {
+      modified.push(change);
+    } else {
+      unchanged++;
+    }
+  });
+  modified.sort((x, y) => x.current.number - y.current.number);
+
+  const previousUrls = new Set(previous.citations.filter(citation => citation.url).map(citation => normalizeCitationUrl(citation.url)));
+
+  return {
+    added: after.filter((_, j) => !matchedAfter.has(j)).map(profile => profile.development),
+    removed: before.filter((_, i) => !matchedBefore.has(i)).map(profile => profile.development),
+    modified,
+    unchanged,
+    new_citations: current.citations.filter(citation => citation.url && !previousUrls.has(normalizeCitationUrl(citation.url))),
+  };
+};
+
+/**
+ * Whether a new run found anything the earlier answer did not have
+ */
+export const hasResearchChanges = (diff: ResearchDiff): boolean =>
+  diff.added.length > 0 || diff.removed.length > 0 || diff.modified.length > 0 || diff.new_citations.length > 0;
+
+/**
+ * Summary of a diff placed above the refreshed answer
+ */
+export const formatResearchDiff = (diff: ResearchDiff): string => {
+  if (!hasResearchChanges(diff)) {
+    return 'No changes since the last answer.';
+  }
+
+  const lines = ["What's changed since the last answer:"];
+  diff.added.forEach(development => lines.push(`- New: #${development.number} ${development.title}`));
+  diff.modified.forEach(({ current, facts_added, sources_added }) => {
+    const details = [
+      facts_added.length > 0 ? `now mentions ${facts_added.join(', ')}` : '',
+      sources_added.length > 0 ? `${sources_added.length} new source${sources_added.length === 1 ? '' : 's'}` : '',
+    ].filter(Boolean).join('; ');
+    lines.push(`- Updated: #${current.number} ${current.title}${details ? ` (${details})` : ''}`);
+  });
+  diff.removed.forEach(development => lines.push(`- No longer reported: ${development.title}`));
+  if (diff.new_citations.length > 0) {
+    lines.push(`- ${diff.new_citations.length} new source${diff.new_citations.length === 1 ? '' : 's'} cited`);
+  }
+
+  return lines.join('\n');
+};
@@ -1,93 +1,66 @@
-import OpenAI from 'openai';
-import { zodTextFormat } from "openai/helpers/zod";
-import { z } from "zod";
+import { createHash } from 'crypto';
 import { logger } from './logger';
-import { ResearchPrompt } from './prompts';
-import { MessageService } from '../services';
+import { MessageService } from '../services/messageService';
+import { CitationSnapshotService } from '../services/citationSnapshotService';
+import { ResearchJobDao } from '../dao';
 import { Message } from '../services/chatService';
 import { MessageType } from './types';
+import { researchStream, createSummaryDeltaReader, ResearchStage } from './researchStream';
+import { Citation, KeyDevelopment, ResearchResponse } from './researchSchemas';
+import { getLlmProvider, UsageContext } from '../llm';
+import type { ResearchAttemptError } from './researchRetry';
+import { getAuthorityTier } from './regulatorRegistry';
+import { ResolvedLocation, describeLocation } from './locationResolver';
+import { getDomainTier, getTrustScore, gradeSources, LOW_AUTHORITY_NOTICE, SourceQuality } from './sourceQuality';
+import { checkGrounding, getWeaklyGroundedDevelopments } from './groundingCheck';
+import { CitationRepair, reconcileCitations } from './citationReconciliation';
+import { planResearch, runResearchPlan, ResearchPlan } from './researchPlanner';
+import { diffResearch, formatResearchDiff, ResearchDiff } from './researchDiff';
 
 const CITATION_REQUEST_TIMEOUT = 10000; // 10 seconds
 const MIN_MEANINGFUL_CONTENT_LENGTH = 4000; // minimum length of content to be considered meaningful
-const RESEARCH_CLEANUP_INTERVAL = 30 * 60 * 1000; // 30 minutes
-const RESEARCH_EXPIRATION_AGE = 30 * 60 * 1000; // 30 minutes
+const MAX_SNAPSHOT_TEXT_LENGTH = 1000000; // longer page text is truncated in snapshots; the hash still covers the full body
+const TEXT_CONTENT_TYPES = ['text/html', 'text/plain', 'application/xml', 'application/xhtml+xml'];
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+export { CitationSchema, KeyDevelopmentSchema, ResearchResponseSchema } from './researchSchemas';
+export type { Citation, KeyDevelopment, ResearchResponse } from './researchSchemas';
 
-// In-memory store for research results.
-const researchStore = new Map<string, any>();
+export type ResearchJobStatus = 'pending' | 'running' | 'retrying' | 'completed' | 'failed' | 'cancelled';
 
-/**
- * Clean up weird citation references and convert them to proper citation format
- * Converts patterns like "citeturn6search0", "citeturn0search0" to [1], [2], etc.
- */
-const cleanCitationReferences = (text: string, citations: Citation[]): string => {
+// Links follow-up research on one key development to the answer it came from
+export interface ResearchExpansion {
+  parent_message_id: string; // The bot message holding the development
+  development: number; // The development's number
+}
 
-  const citationPattern = /cite.*?/g;
-  const foundCitations = text.match(citationPattern) || [];
-  
-  // The map ensures each unique citation gets one number, even if it appears multiple times.
-  const citationMap = new Map<string, number>();
-  let citationCounter = 1;
-  
-  // Process each found citation and assign it a number
-  foundCitations.forEach(citation => {
-    if (!citationMap.has(citation)) {
-      citationMap.set(citation, citationCounter);
-      citationCounter++;
-    }
-  });
-  
-  let cleanedText = text;
-  
-  // Replace all instances of each unique citation with its numbered format
-  citationMap.forEach((citationNum, citationRef) => {
-    const escapedCitationRef = citationRef.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const regex = new RegExp(escapedCitationRef, 'g');
-    cleanedText = cleanedText.replace(regex, `[${citationNum}]`);
-  });
-  
-  logger.info(`Cleaned ${citationMap.size} unique citation references`);
-  return cleanedText;
-};
+// Links a re-run of an earlier answer to it, with what changed in between
+export interface ResearchRefresh {
+  previous_message_id: string; // The bot message that was refreshed
+  diff: ResearchDiff;
+}
 
-// Define Zod schemas for OpenAI structured outputs
-// Using simple validations to avoid unsupported JSON schema formats
-export const CitationSchema = z.object({
-  id: z.number().int().positive(),
-  title: z.string().min(1),
-  url: z.string().min(1), // Simple string - URL format validation done in validateSingleCitation()
-  relevance_score: z.number().min(0).max(10),
-});
-
-export const KeyDevelopmentSchema = z.object({
-  number: z.number().int().positive(),
-  title: z.string().min(1),
-  description: z.string().min(1),
-  citations: z.array(z.number().int().positive()),
-});
-
-export const ResearchResponseSchema = z.object({
-  research_results: z.string().min(1), // Executive summary
-  key_developments: z.array(KeyDevelopmentSchema),
-  citations: z.array(CitationSchema),
-});
-
-export type Citation = z.infer<typeof CitationSchema>;
-export type KeyDevelopment = z.infer<typeof KeyDevelopmentSchema>;
-export type ResearchResponse = z.infer<typeof ResearchResponseSchema>;
+/**
+ * Message ID of the bot message that holds the answer to a research message
+ */
+export const getResearchAnswerId = (researchMessageId: string): string => `${researchMessageId}_answer`;
 
 export interface ResearchResult {
   id: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: ResearchJobStatus;
+  bot_message_id?: string; // The stored bot message holding the answer, once research completed
   research_results?: string;
   key_developments?: KeyDevelopment[];
   citations?: Citation[];
   citation_validation?: CitationValidationResult[];
   error?: string;
+  attempts?: number;
+  next_attempt_at?: string; // Set while the job waits to be retried
+  error_history?: ResearchAttemptError[];
+  source_quality?: SourceQuality;
+  weakly_grounded?: number[]; // Key developments the cited pages do not clearly support
+  expansion?: ResearchExpansion; // Set when the research digs into a development of an earlier answer
+  research_plan?: ResearchPlan; // Set when the question was researched as parallel sub-questions
+  refresh?: ResearchRefresh; // Set when the research re-ran an earlier answer
   timestamp: string;
 }
 
@@ -100,10 +73,38 @@ export interface CitationValidationResult {
   statusCode?: number;
   contentLength?: number;
   error?: string;
+  snapshot?: CitationPageSnapshot; // Set when the URL responded
+}
+
+// The page behind a citation as it was fetched during validation
+export interface CitationPageSnapshot {
+  finalUrl: string; // URL after redirects
+  statusCode: number;
+  headers: Record<string, string>;
+  contentType: string | null;
+  text: string | null; // Extracted text, for HTML, XML and plain text pages
+  contentHash: string | null; // sha256 of the raw body, for 2xx responses
+  contentLength: number | null; // Raw body size in bytes
+  fetchedAt: Date;
 }
 
+/**
+ * Extract readable text from a page, dropping scripts, styles and markup
+ */
+export const extractPageText = (content: string): string => content
+  .replace(/<(script|style|noscript)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+  .replace(/<[^>]*>/g, ' ')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, "'")
+  .replace(/\s+/g, ' ')
+  .trim();
+
 // NEW: Helper function to validate a single citation. This aids in parallel execution.
-const validateSingleCitation = async (citation: Citation): Promise<CitationValidationResult> => {
+const validateSingleCitation = async (citation: Citation, signal?: AbortSignal): Promise<CitationValidationResult> => {
     const result: CitationValidationResult = {
         id: citation.id,
         url: citation.url,
@@ -121,41 +122,62 @@ const validateSingleCitation = async (citation: Citation): Promise<CitationValid
         // Step 2: Make HTTP request with timeout.
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), CITATION_REQUEST_TIMEOUT);
-
-        const response = await fetch(citation.url, {
-            signal: controller.signal,
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (compatible; ResearchBot/1.0)',
-                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-            },
-            redirect: 'follow',
-            method: 'GET'
-        });
-
-        clearTimeout(timeoutId);
-
-        result.statusCode = response.status;
-        result.isAccessible = response.ok; // true for status 200-299
-
-        if (response.ok) {
-            const contentType = response.headers.get('content-type') || '';
-            
-            if (contentType.includes('text/html') || contentType.includes('text/plain') || contentType.includes('application/xml')) {
-                const content = await response.text();
-                result.contentLength = content.length;
-                // Strip tags and normalize whitespace to check for meaningful text.
-                const meaningfulContent = content.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
-                result.hasContent = meaningfulContent.length > MIN_MEANINGFUL_CONTENT_LENGTH;
-            } else {
-                // Assume other content types (PDF, images) have content if they are accessible.
-                result.hasContent = true;
-                result.contentLength = parseInt(response.headers.get('content-length') || '0');
+        // Cancelling the research also stops its citation fetches
+        const abortFromCaller = () => controller.abort();
+        signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+        try {
+            const fetchedAt = new Date();
+            const response = await fetch(citation.url, {
+                signal: controller.signal,
+                headers: {
+                    'User-Agent': 'Mozilla/5.0 (compatible; ResearchBot/1.0)',
+                    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+                },
+                redirect: 'follow',
+                method: 'GET'
+            });
+
+            result.statusCode = response.status;
+            result.isAccessible = response.ok; // true for status 200-299
+
+            const contentType = response.headers.get('content-type');
+            const snapshot: CitationPageSnapshot = {
+                finalUrl: response.url || citation.url,
+                statusCode: response.status,
+                headers: Object.fromEntries(response.headers.entries()),
+                contentType,
+                text: null,
+                contentHash: null,
+                contentLength: null,
+                fetchedAt,
+            };
+            result.snapshot = snapshot;
+
+            if (response.ok) {
+                // The whole body is read, whatever its type, so the snapshot hash covers exactly what was served
+                const body = Buffer.from(await response.arrayBuffer());
+                result.contentLength = body.length;
+                snapshot.contentLength = body.length;
+                snapshot.contentHash = createHash('sha256').update(body).digest('hex');
+
+                if (TEXT_CONTENT_TYPES.some(type => (contentType || '').includes(type))) {
+                    const text = extractPageText(body.toString('utf8'));
+                    snapshot.text = text.slice(0, MAX_SNAPSHOT_TEXT_LENGTH);
+                    result.hasContent = text.length > MIN_MEANINGFUL_CONTENT_LENGTH;
+                } else {
+                    // Assume other content types (PDF, images) have content if they are accessible.
+                    result.hasContent = true;
+                }
             }
+        } finally {
+            clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', abortFromCaller);
         }
     } catch (error: any) {
         result.error = error instanceof Error ? error.message : 'Unknown error';
         if (error.name === 'AbortError') {
-            result.error = 'Request timeout';
+            result.error = signal?.aborted ? 'Request cancelled' : 'Request timeout';
         }
         if (error instanceof TypeError && error.message.includes('Invalid URL')) {
             result.isValid = false;
@@ -168,11 +190,21 @@ const validateSingleCitation = async (citation: Citation): Promise<CitationValid
 /**
  * 
  * @param citations Array of citation objects with a url property.
+ * @param signal Optional signal that aborts all pending fetches.
+ * @param onValidated Optional callback run as each citation finishes, with the count so far.
  * @returns A promise that resolves to an array of validation results.
  */
-export const validateCitationUrls = async (citations: Citation[]): Promise<CitationValidationResult[]> => {
+export const validateCitationUrls = async (
+  citations: Citation[],
+  signal?: AbortSignal,
+  onValidated?: (validated: number, total: number) => void
+): Promise<CitationValidationResult[]> => {
     // Map each citation to a validation promise.
-    const validationPromises = citations.map(citation => validateSingleCitation(citation));
+    let validated = 0;
+    const validationPromises = citations.map(citation => validateSingleCitation(citation, signal).then(result => {
+        onValidated?.(++validated, citations.length);
+        return result;
+    }));
     
     // Wait for all validation promises to settle.
     const results = await Promise.all(validationPromises);
@@ -181,168 +213,283 @@ export const validateCitationUrls = async (citations: Citation[]): Promise<Citat
 };
 
 
+export interface ResearchContext {
+  messageId: string; // The ID of the message that triggered the research
+  messages: Message[]; // The full conversation history
+  userId: string;
+  location?: ResolvedLocation | null; // Where the user is asking about, used to prioritize sources
+  conversationId?: string;
+  expansion?: ResearchExpansion;
+  refreshOf?: string; // Bot message to diff the new answer against
+  signal?: AbortSignal; // Aborts the model request and citation fetches when the research is cancelled
+}
+
 /**
- * Kicks off the asynchronous research process for a given conversation.
- * @param messageId The ID of the message that triggered the research.
- * @param allMessages The full conversation history.
- * @param userId The ID of the user who sent the message.
- * @param userLocation Optional user location to refine search results.
+ * Runs the research pipeline for a conversation and saves the resulting bot message.
+ * Called by the research worker for each claimed job; throws if research fails.
+ * @param context The message, conversation and user the research is for.
+ * @returns The completed research result.
  */
-export const performResearchAsync = async (
-  messageId: string,
-  allMessages: Message[],
-  userId: string,
-  userLocation?: string
-): Promise<void> => {
-  try {
-    logger.info(`Starting async research for message ${messageId} for user ${userId}`);
-    
-    researchStore.set(messageId, {
-      id: messageId,
-      status: 'pending',
-      timestamp: new Date().toISOString(),
-    });
-
-    let enhancedPrompt = ResearchPrompt;
-    if (userLocation) {
-      enhancedPrompt += `\n\nUser Location: ${userLocation} - Prioritize sources from this region.`;
-    }
+export const performResearch = async (context: ResearchContext): Promise<ResearchResult> => {
+  const { messageId, messages: allMessages, userId, location, conversationId, expansion, refreshOf, signal } = context;
+  logger.info(`Starting research for message ${messageId} for user ${userId}`);
+
+  const last5Messages = allMessages.slice(-5);
+  const transcript = last5Messages.map(message => 
+    `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`
+  ).join('\n');
+  // The research prompt prioritizes sources by region, so the model is told where the user is
+  const query = location
+    ? `User Location: ${describeLocation(location)} - Prioritize sources from this region.\n\n${transcript}`
+    : transcript;
+
+  const publishProgress = (stage: ResearchStage, completed?: number, total?: number) => researchStream.publish({
+    type: 'progress',
+    messageId,
+    userId,
+    stage,
+    ...(total !== undefined && { completed, total }),
+    timestamp: new Date().toISOString(),
+  });
 
-    const last5Messages = allMessages.slice(-5);
-    const query = last5Messages.map(message => 
-      `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`
-    ).join('\n');
+  const publishDelta = (delta: string) => researchStream.publish({
+    type: 'delta',
+    messageId,
+    userId,
+    delta,
+    timestamp: new Date().toISOString(),
+  });
 
-    // Using OpenAI Structured Outputs with Zod schemas to ensure properly formatted response
-    // This guarantees the response will conform to our defined schema structure
-    const researchResponse = await openai.responses.parse({
-      prompt: {
-        "id": process.env.RESEARCH_PROMPT_ID!,
-      },
+  // Broad questions are split into sub-questions that are researched in parallel and merged.
+  // Follow-ups and refreshes are not planned: one covers a single development, the other re-runs an answer as it was.
+  const usage: UsageContext = { userId, conversationId, messageId };
+  let researchPlan: ResearchPlan | null = null;
+  if (!expansion && !refreshOf) {
+    publishProgress('planning');
+    researchPlan = await planResearch(query, usage);
+  }
+  let citationRepairs: CitationRepair[] | null = null;
+  let researchResponseJson: ResearchResponse | null;
+  if (researchPlan) {
+    logger.info(`Researching message ${messageId} as ${researchPlan.sub_questions.length} sub-questions`);
+    publishProgress('researching', 0, researchPlan.sub_questions.length);
+    const planned = await runResearchPlan(researchPlan, query, signal, usage, (settled, total) => {
+      publishProgress('researching', settled, total);
+    });
+    researchResponseJson = planned.response;
+    researchPlan.sub_questions = planned.plan.sub_questions;
+    citationRepairs = planned.repairs;
+    // Sub-question output is not streamed, so the merged summary is sent in one delta
+    if (researchResponseJson?.research_results) {
+      publishDelta(researchResponseJson.research_results);
+    }
+  } else {
+    publishProgress('researching');
+    // The response is streamed so the executive summary can be pushed to clients as it is written
+    const readSummaryDelta = createSummaryDeltaReader();
+    researchResponseJson = await getLlmProvider().research({
       input: query,
-      text: {
-        format: zodTextFormat(ResearchResponseSchema, "research_response"),
+      signal,
+      usage,
+      onTextDelta: (chunk) => {
+        const delta = readSummaryDelta(chunk);
+        if (delta) {
+          publishDelta(delta);
+        }
       },
-      max_output_tokens: 90000,
     });
-    const researchResponseJson = researchResponse.output_parsed;
+  }
 
-    if (!researchResponseJson) {
-      throw new Error('No research response received from OpenAI');
-    }
-    
-    logger.info(`Research response received with ${researchResponseJson.citations.length} citations`);
-    
-    logger.info(`Completed research for message ${messageId}`);
-    
-    // Clean citations from the structured response
-    const cleanedResearchResults = cleanCitationReferences(
-      researchResponseJson.research_results, 
+  if (!researchResponseJson) {
+    throw new Error('No research response received from LLM provider');
+  }
+  
+  logger.info(`Research response received with ${researchResponseJson.citations.length} citations`);
+
+  // Tier each source before validation, which may blank the URL of an unreachable citation
+  researchResponseJson.citations = researchResponseJson.citations.map((citation: Citation) => ({
+    ...citation,
+    authority_tier: getAuthorityTier(citation.url, location?.state),
+    domain_tier: getDomainTier(citation.url),
+  }));
+  
+  logger.info(`Completed research for message ${messageId}`);
+
+  // Map inline markers and development citation lists to the citations and renumber them.
+  // Planned research was reconciled when its parts were merged.
+  if (!citationRepairs) {
+    const reconciled = reconcileCitations(
+      researchResponseJson.research_results,
+      researchResponseJson.key_developments,
       researchResponseJson.citations
     );
+    researchResponseJson.research_results = reconciled.research_results;
+    researchResponseJson.key_developments = reconciled.key_developments;
+    researchResponseJson.citations = reconciled.citations;
+    citationRepairs = reconciled.repairs;
+  }
+  const cleanedResearchResults = researchResponseJson.research_results;
+  let cleanedKeyDevelopments = researchResponseJson.key_developments;
+  if (citationRepairs.length > 0) {
+    logger.info(`Repaired ${citationRepairs.length} citation mismatches for message ${messageId}`);
+  }
 
-    logger.info(`Key developments: ${JSON.stringify(researchResponseJson.key_developments, null, 2)}`);
-    
-    const cleanedKeyDevelopments = researchResponseJson.key_developments.map((keyDevelopment: KeyDevelopment) => ({
-      ...keyDevelopment,
-      title: cleanCitationReferences(keyDevelopment.title, researchResponseJson.citations),
-      description: cleanCitationReferences(keyDevelopment.description, researchResponseJson.citations)
-    }));
-    
-    logger.info(`Cleaned key developments: ${JSON.stringify(cleanedKeyDevelopments, null, 2)}`);
-    
-    // Format the final output combining cleaned executive summary and key developments
-    let processedResearchResults = cleanedResearchResults;
-    
-    if (cleanedKeyDevelopments.length > 0) {
-      processedResearchResults += '\n\n';
-      cleanedKeyDevelopments.forEach(dev => {
-        const citationText = dev.citations && dev.citations.length > 0 
-          ? ` [${dev.citations.join(', ')}]` 
-          : '';
-        processedResearchResults += `${dev.number}. ${dev.title}${citationText}\n${dev.description}\n\n`;
-      });
-    }
+  let validationResults: CitationValidationResult[] = [];
+  if (researchResponseJson.citations && researchResponseJson.citations.length > 0) {
+    logger.info(`Validating ${researchResponseJson.citations.length} citations for message ${messageId}`);
+    publishProgress('validating_citations', 0, researchResponseJson.citations.length);
+    validationResults = await validateCitationUrls(researchResponseJson.citations, signal, (validated, total) => {
+      publishProgress('validating_citations', validated, total);
+    });
     
-    logger.info(`Successfully cleaned research results with ${cleanedKeyDevelopments.length} key developments`);
-
-    if (researchResponseJson.citations && researchResponseJson.citations.length > 0) {
-      logger.info(`Validating ${researchResponseJson.citations.length} citations for message ${messageId}`);
-      const validationResults = await validateCitationUrls(researchResponseJson.citations);
-      
-      const validUrls = new Set(
-          validationResults
-              .filter(r => r.isValid && r.isAccessible && r.hasContent)
-              .map(r => r.url)
-      );
-
-      // Keeps the citation if valid, or returns it without the URL if invalid.
-      researchResponseJson.citations = researchResponseJson.citations.map((citation: Citation) => {
-          if (validUrls.has(citation.url)) {
-              return citation; // Citation is valid, return as is.
-          }
-          // Citation is invalid, return the object without the 'url' property.
-          const { url, ...rest } = citation;
-          return { 
-            ...rest, 
-            url: '', // Keep the structure but empty the URL
-            title: citation.title + ' (URL was invalid or inaccessible)'
-          } as Citation;
-      });
-
-      logger.info(`Citation validation summary: ${validUrls.size} valid out of ${validationResults.length} total.`);
-    }
-
-    await MessageService.createBotMessage(
-      `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-      processedResearchResults,
-      {
-        research_results: cleanedResearchResults,
-        key_developments: cleanedKeyDevelopments,
-        citations: researchResponseJson.citations,
-      },
-      messageId,
-      userId
+    const validUrls = new Set(
+        validationResults
+            .filter(r => r.isValid && r.isAccessible && r.hasContent)
+            .map(r => r.url)
     );
 
+    // Keeps the citation if valid, or returns it without the URL if invalid.
+    researchResponseJson.citations = researchResponseJson.citations.map((citation: Citation) => {
+        if (validUrls.has(citation.url)) {
+            return citation; // Citation is valid, return as is.
+        }
+        // Citation is invalid, return the object without the 'url' property.
+        const { url, ...rest } = citation;
+        return { 
+          ...rest, 
+          url: '', // Keep the structure but empty the URL
+          title: citation.title + ' (URL was invalid or inaccessible)'
+        } as Citation;
+    });
+
+    logger.info(`Citation validation summary: ${validUrls.size} valid out of ${validationResults.length} total.`);
+  }
 
+  // Citations that failed validation have lost their URL and keep only part of their score
+  researchResponseJson.citations = researchResponseJson.citations.map((citation: Citation) => ({
+    ...citation,
+    trust_score: getTrustScore(citation.domain_tier || 'other', citation.relevance_score, citation.url !== ''),
+  }));
+  const sourceQuality = gradeSources(researchResponseJson.citations, cleanedKeyDevelopments);
+  logger.info(`Source quality for message ${messageId}: grade ${sourceQuality.grade} (score ${sourceQuality.score})`);
+
+  // Check each development against the text of the pages it cites
+  publishProgress('saving');
+  const pageTexts = new Map(
+    validationResults
+      .filter(validation => validation.snapshot?.text)
+      .map(validation => [validation.id, validation.snapshot!.text!] as [number, string])
+  );
+  cleanedKeyDevelopments = checkGrounding(cleanedKeyDevelopments, pageTexts);
+  const weaklyGrounded = getWeaklyGroundedDevelopments(cleanedKeyDevelopments);
+  if (weaklyGrounded.length > 0) {
+    logger.warn(`Weakly grounded key developments for message ${messageId}: ${weaklyGrounded.join(', ')}`);
+  }
 
-    researchStore.set(messageId, {
-      id: messageId,
-      status: 'completed',
+  // Format the final output combining cleaned executive summary and key developments
+  let processedResearchResults = formatResearchMessage(cleanedResearchResults, cleanedKeyDevelopments, sourceQuality);
+
+  // A refresh reports what changed since the answer it re-runs
+  let refresh: ResearchRefresh | undefined;
+  if (refreshOf) {
+    const previous = await MessageService.getMessageByMessageId(refreshOf);
+    const previousMetadata = (previous?.metadata || {}) as { key_developments?: KeyDevelopment[]; citations?: Citation[] };
+    const diff = diffResearch(
+      { key_developments: previousMetadata.key_developments || [], citations: previousMetadata.citations || [] },
+      { key_developments: cleanedKeyDevelopments, citations: researchResponseJson.citations }
+    );
+    refresh = { previous_message_id: refreshOf, diff };
+    processedResearchResults = `${formatResearchDiff(diff)}\n\n${processedResearchResults}`;
+    logger.info(`Refresh of message ${refreshOf}: ${diff.added.length} added, ${diff.modified.length} modified, ${diff.removed.length} removed`);
+  }
+
+  // A cancelled research must not leave a bot message behind
+  throwIfAborted(signal);
+
+  // Keyed on the research, so a retried or requeued job overwrites its answer instead of adding another
+  const botMessageId = getResearchAnswerId(messageId);
+  await MessageService.saveBotMessage(
+    botMessageId,
+    processedResearchResults,
+    {
       research_results: cleanedResearchResults,
       key_developments: cleanedKeyDevelopments,
       citations: researchResponseJson.citations,
-      timestamp: new Date().toISOString(),
-    });
-
-  } catch (error) {
-    logger.error(`Research failed for message ${messageId}:`, error);
-    
-    researchStore.set(messageId, {
-      id: messageId,
-      status: 'failed',
-      error: error instanceof Error ? error.message : 'Unknown error',
-      timestamp: new Date().toISOString(),
-    });
-  }
+      source_quality: sourceQuality,
+      weakly_grounded: weaklyGrounded,
+      citation_repairs: citationRepairs,
+      research_message_id: messageId,
+      ...(location && { location }),
+      ...(expansion && { expansion }),
+      ...(researchPlan && { research_plan: researchPlan }),
+      ...(refresh && { refresh }),
+    },
+    messageId,
+    userId,
+    conversationId
+  );
+
+  // Keep what each cited page said when it was checked, for audit
+  await CitationSnapshotService.saveSnapshots(botMessageId, messageId, validationResults);
+
+  return {
+    id: messageId,
+    status: 'completed',
+    bot_message_id: botMessageId,
+    research_results: cleanedResearchResults,
+    key_developments: cleanedKeyDevelopments,
+    citations: researchResponseJson.citations,
+    source_quality: sourceQuality,
+    weakly_grounded: weaklyGrounded,
+    expansion,
+    ...(researchPlan && { research_plan: researchPlan }),
+    ...(refresh && { refresh }),
+    timestamp: new Date().toISOString(),
+  };
 };
 
 /**
- * Retrieves a research result from the in-memory store.
- * @param messageId The ID of the message to retrieve results for.
- * @returns The research result or null if not found.
+ * Error thrown when research stops because it was cancelled
  */
-export const getResearchResult = (messageId: string): ResearchResult | null => {
-  return researchStore.get(messageId) || null;
+export class ResearchCancelledError extends Error {
+  constructor() {
+    super('Research was cancelled');
+    this.name = 'ResearchCancelledError';
+  }
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new ResearchCancelledError();
+  }
 };
 
 /**
- * Deletes a specific research result from the store.
- * @param messageId The ID of the research result to delete.
+ * Formats research as bot message text: the executive summary followed by numbered key developments,
+ * and a notice when the answer rests mainly on low-authority sources.
  */
-export const cleanupResearchResult = (messageId: string): void => {
-  researchStore.delete(messageId);
+export const formatResearchMessage = (
+  researchResults: string,
+  keyDevelopments: KeyDevelopment[],
+  sourceQuality?: SourceQuality
+): string => {
+  let formatted = researchResults;
+
+  if (keyDevelopments.length > 0) {
+    formatted += '\n\n';
+    keyDevelopments.forEach(dev => {
+      const citationText = dev.citations && dev.citations.length > 0 
+        ? ` [${dev.citations.join(', ')}]` 
+        : '';
+      formatted += `${dev.number}. ${dev.title}${citationText}\n${dev.description}\n\n`;
+    });
+  }
+
+  if (sourceQuality?.low_authority) {
+    formatted += `${formatted.endsWith('\n\n') ? '' : '\n\n'}${LOW_AUTHORITY_NOTICE}`;
+  }
+
+  return formatted;
 };
 
 /**
@@ -351,40 +498,26 @@ export const cleanupResearchResult = (messageId: string): void => {
  * @returns A promise that resolves to the validation results or null.
  */
 export const validateExistingCitations = async (messageId: string): Promise<CitationValidationResult[] | null> => {
-  const researchResult = getResearchResult(messageId);
+  const job = await ResearchJobDao.findByMessageId(messageId);
+  const researchResult = (job?.result || null) as ResearchResult | null;
   
-  if (!researchResult || !researchResult.citations || researchResult.citations.length === 0) {
+  if (!job || !researchResult || !researchResult.citations || researchResult.citations.length === 0) {
     logger.warn(`No citations found to validate for research result ${messageId}`);
     return null;
   }
 
   logger.info(`Validating existing citations for research result ${messageId}`);
-  const validationResults = await validateCitationUrls(researchResult.citations);
+  // Snapshots are only kept for the citations of new research, so the page content is not stored here
+  const validationResults = (await validateCitationUrls(researchResult.citations))
+    .map(({ snapshot, ...validation }) => validation);
   
   // Update the stored result with validation data.
-  researchStore.set(messageId, {
-    ...researchResult,
-    citation_validation: validationResults,
+  await ResearchJobDao.update(job.id, {
+    result: {
+      ...researchResult,
+      citation_validation: validationResults,
+    },
   });
   
   return validationResults;
 };
-
-/**
- * Periodically cleans up old research results from the in-memory store.
- */
-export const cleanupOldResearch = (): void => {
-  const now = new Date();
-  const expirationTime = new Date(now.getTime() - RESEARCH_EXPIRATION_AGE);
-  
-  for (const [messageId, result] of researchStore.entries()) {
-    const resultTime = new Date(result.timestamp);
-    if (resultTime < expirationTime) {
-      researchStore.delete(messageId);
-      logger.info(`Cleaned up old research result for message ${messageId}`);
-    }
-  }
-};
-
-// Schedule the cleanup task to run periodically.
-setInterval(cleanupOldResearch, RESEARCH_CLEANUP_INTERVAL);
\ No newline at end of file
@@ -0,0 +1,236 @@
+import { getLlmProvider, UsageContext } from '../llm';
+import { logger } from './logger';
+import { ResearchPlanPrompt } from './prompts';
+import { Citation, KeyDevelopment, ResearchPlanSchema, ResearchResponse } from './researchSchemas';
+import { CitationRepair, markerIds, reconcileCitations, scopeMarkers } from './citationReconciliation';
+
+// Fewer than 2 disables planning
+const MAX_SUB_QUESTIONS = Number(process.env.RESEARCH_PLAN_MAX_SUB_QUESTIONS ?? 4);
+const PLAN_CONCURRENCY = Number(process.env.RESEARCH_PLAN_CONCURRENCY) || 2;
+
+export interface PlannedSubQuestion {
+  question: string;
+  focus: string;
+  status?: 'completed' | 'failed';
+  key_developments?: number; // Developments the sub-question contributed
+  citations?: number; // Citations the sub-question contributed, before deduplication
+  error?: string;
+}
+
+// Stored in message metadata so users can see how a broad question was researched
+export interface ResearchPlan {
+  reasoning: string;
+  sub_questions: PlannedSubQuestion[];
+}
+
+export interface SubQuestionResearch {
+  subQuestion: number; // Position in the plan, from 1
+  response: ResearchResponse;
+}
+
+export interface PlannedResearch {
+  response: ResearchResponse;
+  plan: ResearchPlan;
+  repairs: CitationRepair[];
+}
+
+/**
+ * Ask the planner whether a question should be researched in parts.
+ * Returns null when it should be researched as a whole, including when planning fails.
+ */
+export const planResearch = async (input: string, usage?: UsageContext): Promise<ResearchPlan | null> => {
+  if (MAX_SUB_QUESTIONS < 2) return null;
+
+  let output;
+  try {
+    output = await getLlmProvider().parse({
+      schema: ResearchPlanSchema,
+      name: 'research_plan',
+      instructions: ResearchPlanPrompt,
+      input,
+      usage,
+    });
+  } catch (error) {
+    logger.error('Research planning failed, researching the question as a whole:', error);
+    return null;
+  }
+
+  if (!output || !output.needs_decomposition) return null;
+
+  const subQuestions = output.sub_questions
+    .filter(subQuestion => subQuestion.question.trim())
+    .slice(0, MAX_SUB_QUESTIONS);
+  if (subQuestions.length < 2) return null;
+
+  return {
+    reasoning: output.reasoning,
+    sub_questions: subQuestions.map(({ question, focus }) => ({ question, focus })),
+  };
+};
+
+/**
+ * Run a task for each item, at most `limit` at a time, collecting every outcome
+ */
+const settleWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+  return results;
+};
+
+/**
+ * Merge the research for each sub-question into one response. Each part's citation IDs are
+ * shifted past the previous part's, then the merged response is reconciled in one pass, which
+ * deduplicates citations by URL. Repairs report the sub-question and model ID they apply to.
+ */
+export const mergeResearchResponses = (parts: SubQuestionResearch[]): { response: ResearchResponse; repairs: CitationRepair[] } => {
+  const citations: Citation[] = [];
+  const keyDevelopments: KeyDevelopment[] = [];
+  const summaries: string[] = [];
+  const offsets: { subQuestion: number; offset: number }[] = [];
+  const searchScopes = new Map<string, number[]>();
+
+  let offset = 0;
+  parts.forEach(({ subQuestion, response }) => {
+    offsets.push({ subQuestion, offset });
+    const scope = String(subQuestion);
+    const shifted = (text: string) => scopeMarkers(text, offset, scope);
+
+    citations.push(...response.citations.map(citation => ({ ...citation, id: citation.id + offset })));
+    searchScopes.set(scope, response.citations.map(citation => citation.id + offset));
+    summaries.push(shifted(response.research_results));
+    response.key_developments.forEach(development => {
+      keyDevelopments.push({
+        ...development,
+        number: keyDevelopments.length + 1,
+        title: shifted(development.title),
+        description: shifted(development.description),
+        citations: development.citations.map(id => id + offset),
+      });
+    });
+
+    offset += Math.max(
+      0,
+      ...response.citations.map(citation => citation.id),
+      ...response.key_developments.flatMap(development => [
+        ...development.citations,
+        ...markerIds(`${development.title} ${development.description}`),
+      ]),
+      ...markerIds(response.research_results)
+    );
+  });
+
+  const reconciled = reconcileCitations(summaries.join('\n\n'), keyDevelopments, citations, searchScopes);
+
+  // Map merged IDs and scoped search references back to the part they came from. A search
+  // marker repair belongs to the part the marker is in, which may cite another part's source.
+  const origin = (id: number) => offsets.filter(part => part.offset < id).pop() || offsets[0];
+  const repairs = reconciled.repairs.map(repair => {
+    const cited = repair.citation_id !== undefined ? origin(repair.citation_id) : undefined;
+    const scope = repair.marker?.match(/(?:^|\ue202)(\d+):/);
+    const part = scope ? offsets.find(({ subQuestion }) => subQuestion === Number(scope[1])) : cited;
+    return {
+      ...repair,
+      ...(cited && { citation_id: repair.citation_id! - cited.offset }),
+      ...(repair.merged_into !== undefined && { merged_into: repair.merged_into - origin(repair.merged_into).offset }),
+      ...(repair.marker !== undefined && {
+        marker: scope
+          ? repair.marker.replace(/(^|\ue202)\d+:/g, '$1')
+          : repair.marker.replace(/\d+/g, id => String(Number(id) - (part?.offset || 0))),
+      }),
+      ...(part && { sub_question: part.subQuestion }),
+    };
+  });
+
+  return {
+    response: {
+      research_results: reconciled.research_results,
+      key_developments: reconciled.key_developments,
+      citations: reconciled.citations,
+    },
+    repairs,
+  };
+};
+
+/**
+ * Research each sub-question of a plan in parallel and merge the results.
+ * Failed sub-questions are recorded in the plan; research fails only if all of them do.
+ * @param plan The plan from planResearch.
+ * @param input The research input for the whole question, including the conversation.
+ * @param signal Aborts every sub-question's research.
+ * @param usage Who the research is for, recorded with each sub-question's token usage.
+ * @param onSettled Called each time a sub-question finishes or fails, with the count so far.
+ */
+export const runResearchPlan = async (
+  plan: ResearchPlan,
+  input: string,
+  signal?: AbortSignal,
+  usage?: UsageContext,
+  onSettled?: (settled: number, total: number) => void
+): Promise<PlannedResearch> => {
+  let settled = 0;
+  const outcomes = await settleWithConcurrency(plan.sub_questions, PLAN_CONCURRENCY, async subQuestion => {
+    try {
+      const response = await getLlmProvider().research({
+        input: `${input}\n\nResearch only this part of the question: ${subQuestion.question}`,
+        signal,
+        usage,
+      });
+      if (!response) {
+        throw new Error('No research response received from LLM provider');
+      }
+      return response;
+    } finally {
+      onSettled?.(++settled, plan.sub_questions.length);
+    }
+  });
+
+  const failures = outcomes.filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+  if (signal?.aborted || failures.length === outcomes.length) {
+    throw failures[0]?.reason || new Error('Research was cancelled');
+  }
+
+  const completed: SubQuestionResearch[] = [];
+  const subQuestions = plan.sub_questions.map((subQuestion, index) => {
+    const outcome = outcomes[index];
+    if (outcome.status === 'rejected') {
+      logger.warn(`Research for sub-question "${subQuestion.focus}" failed:`, outcome.reason);
+      return {
+        ...subQuestion,
+        status: 'failed' as const,
+        error: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error',
+      };
+    }
+
+    completed.push({ subQuestion: index + 1, response: outcome.value });
+    return {
+      ...subQuestion,
+      status: 'completed' as const,
+      key_developments: outcome.value.key_developments.length,
+      citations: outcome.value.citations.length,
+    };
+  });
+
+  const merged = mergeResearchResponses(completed);
+  return {
+    response: merged.response,
+    plan: { ...plan, sub_questions: subQuestions },
+    repairs: merged.repairs,
+  };
+};
@@ -0,0 +1,305 @@
+import type { Citation, KeyDevelopment } from './researchSchemas';
+import type { SourceQuality } from './sourceQuality';
+
+export type ReportFormat = 'md' | 'html' | 'csv' | 'json';
+
+export const REPORT_FORMATS: ReportFormat[] = ['md', 'html', 'csv', 'json'];
+
+export const isReportFormat = (value: unknown): value is ReportFormat =>
+  typeof value === 'string' && (REPORT_FORMATS as string[]).includes(value);
+
+// How a source fared when its URL was checked after research
+export type SourceAccessStatus =
+  | 'verified' // Responded with a 2xx status and meaningful content
+  | 'failed' // Responded, but with an error status or too little content
+  | 'unreachable' // Never responded, or the URL was malformed
+  | 'not_checked'; // Answered before checks were recorded
+
+export interface ReportSource {
+  id: number;
+  title: string;
+  url: string | null; // As cited, including for sources that failed validation
+  access_status: SourceAccessStatus;
+  status_code: number | null;
+  checked_at: string | null;
+  authority_tier: string | null;
+  trust_score: number | null;
+}
+
+export interface ReportDevelopment {
+  number: number;
+  title: string;
+  description: string;
+  citations: number[];
+  weakly_grounded: boolean;
+}
+
+export interface ResearchReport {
+  message_id: string; // The bot message the report is built from
+  question: string | null;
+  location: string | null;
+  generated_at: string; // When the answer was written
+  summary: string;
+  key_developments: ReportDevelopment[];
+  sources: ReportSource[];
+  source_quality: SourceQuality | null;
+}
+
+// What a citation's URL check left behind
+export interface SourceCheck {
+  url: string;
+  statusCode: number | null;
+  fetchedAt: Date;
+}
+
+export interface ResearchReportInput {
+  messageId: string;
+  question: string | null;
+  location: string | null;
+  generatedAt: Date;
+  summary: string;
+  keyDevelopments: KeyDevelopment[];
+  citations: Citation[];
+  sourceQuality: SourceQuality | null;
+  weaklyGrounded: number[];
+  checks: Map<number, SourceCheck>; // By citation ID
+  checked: boolean; // Whether checks were recorded for this answer at all
+}
+
+// Added to the title of a citation whose URL failed validation
+const FAILED_CITATION_SUFFIX = ' (URL was invalid or inaccessible)';
+
+const CITATION_MARKER_PATTERN = /\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\]/g;
+
+const ACCESS_STATUS_LABELS: Record<SourceAccessStatus, string> = {
+  verified: 'Verified',
+  failed: 'Failed validation',
+  unreachable: 'Unreachable',
+  not_checked: 'Not checked',
+};
+
+const toReportSource = (citation: Citation, check: SourceCheck | undefined, checked: boolean): ReportSource => {
+  // Validation blanks the URL of a failed citation; the check still has the URL as cited
+  const failed = citation.url === '';
+  let accessStatus: SourceAccessStatus = 'not_checked';
+  if (failed) {
+    accessStatus = check ? 'failed' : 'unreachable';
+  } else if (check) {
+    accessStatus = 'verified';
+  } else if (checked) {
+    accessStatus = 'unreachable';
+  }
+
+  return {
+    id: citation.id,
+    title: citation.title.endsWith(FAILED_CITATION_SUFFIX)
+      ? citation.title.slice(0, -FAILED_CITATION_SUFFIX.length)
+      : citation.title,
+    url: citation.url || check?.url || null,
+    access_status: accessStatus,
+    status_code: check?.statusCode ?? null,
+    checked_at: check ? check.fetchedAt.toISOString() : null,
+    authority_tier: citation.authority_tier || null,
+    trust_score: citation.trust_score ?? null,
+  };
+};
+
+/**
+ * Assemble the report for a stored research answer
+ */
+export const buildResearchReport = (input: ResearchReportInput): ResearchReport => ({
+  message_id: input.messageId,
+  question: input.question,
+  location: input.location,
+  generated_at: input.generatedAt.toISOString(),
+  summary: input.summary,
+  key_developments: input.keyDevelopments.map(development => ({
+    number: development.number,
+    title: development.title,
+    description: development.description,
+    citations: development.citations,
+    weakly_grounded: input.weaklyGrounded.includes(development.number),
+  })),
+  sources: input.citations.map(citation => toReportSource(citation, input.checks.get(citation.id), input.checked)),
+  source_quality: input.sourceQuality,
+});
+
+const describeAccess = (source: ReportSource): string =>
+  `${ACCESS_STATUS_LABELS[source.access_status]}${source.status_code !== null ? ` (HTTP ${source.status_code})` : ''}`;
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\[\]|*_`])/g, '\\$1');
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Only web links are rendered as links; anything else stays text
+const isWebUrl = (url: string | null): url is string => Boolean(url && /^https?:\/\//i.test(url));
+
+/**
+ * Replace citation markers such as [2] or [1, 3] with one link per source
+ */
+const linkMarkers = (text: string, link: (id: number) => string): string =>
+  text.replace(CITATION_MARKER_PATTERN, (_, ids: string) => ids.split(',').map(id => link(Number(id.trim()))).join(''));
+
+export const renderMarkdownReport = (report: ResearchReport): string => {
+  const urls = new Map(report.sources.map(source => [source.id, source.url]));
+  const markdownLink = (id: number) => {
+    const url = urls.get(id);
+    return isWebUrl(url ?? null) ? `[\\[${id}\\]](${url})` : `\\[${id}\\]`;
+  };
+
+  const lines = ['# Research report', ''];
+  if (report.question) lines.push(`**Question:** ${escapeMarkdown(report.question)}  `);
+  if (report.location) lines.push(`**Location:** ${escapeMarkdown(report.location)}  `);
+  lines.push(`**Generated:** ${report.generated_at}`);
+  if (report.source_quality) lines.push(`  \n**Source quality:** ${report.source_quality.grade} (score ${report.source_quality.score})`);
+
+  lines.push('', '## Executive summary', '', linkMarkers(report.summary, markdownLink));
+
+  if (report.key_developments.length > 0) {
+    lines.push('', '## Key developments');
+    report.key_developments.forEach(development => {
+      lines.push('', `### ${development.number}. ${linkMarkers(development.title, markdownLink)}`, '', linkMarkers(development.description, markdownLink));
+      if (development.citations.length > 0) {
+        lines.push('', `Sources: ${development.citations.map(markdownLink).join(' ')}`);
+      }
+      if (development.weakly_grounded) {
+        lines.push('', '_The cited pages do not clearly support this development._');
+      }
+    });
+  }
+
+  lines.push('', '## Sources', '');
+  if (report.sources.length === 0) {
+    lines.push('No sources were cited.');
+  } else {
+    lines.push('| # | Source | Access | Checked |', '| --- | --- | --- | --- |');
+    report.sources.forEach(source => {
+      const title = escapeMarkdown(source.title);
+      lines.push(`| ${source.id} | ${isWebUrl(source.url) ? `[${title}](${source.url})` : title} | ${describeAccess(source)} | ${source.checked_at || ''} |`);
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+export const renderHtmlReport = (report: ResearchReport): string => {
+  const htmlLink = (id: number) => `<a href="#source-${id}">[${id}]</a>`;
+  const paragraphs = (text: string) => text
+    .split(/\n{2,}/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p>${linkMarkers(escapeHtml(paragraph.trim()), htmlLink).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+  const details = [
+    report.question ? `<dt>Question</dt><dd>${escapeHtml(report.question)}</dd>` : '',
+    report.location ? `<dt>Location</dt><dd>${escapeHtml(report.location)}</dd>` : '',
+    `<dt>Generated</dt><dd>${report.generated_at}</dd>`,
+    report.source_quality ? `<dt>Source quality</dt><dd>${report.source_quality.grade} (score ${report.source_quality.score})</dd>` : '',
+  ].filter(Boolean).join('\n');
+
+  const developments = report.key_developments.map(development => [
+    `<li value="${development.number}">`,
+    `<h3>${linkMarkers(escapeHtml(development.title), htmlLink)}</h3>`,
+    paragraphs(development.description),
+    development.citations.length > 0 ? `<p>Sources: ${development.citations.map(htmlLink).join(' ')}</p>` : '',
+    development.weakly_grounded ? '<p><em>The cited pages do not clearly support this development.</em></p>' : '',
+    '</li>',
+  ].filter(Boolean).join('\n')).join('\n');
+
+  const sources = report.sources.map(source => [
+    `<tr id="source-${source.id}">`,
+    `<td>${source.id}</td>`,
+    `<td>${isWebUrl(source.url) ? `<a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a>` : escapeHtml(source.title)}</td>`,
+    `<td>${escapeHtml(describeAccess(source))}</td>`,
+    `<td>${source.checked_at || ''}</td>`,
+    '</tr>',
+  ].join('')).join('\n');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(report.question ? `Research report: ${report.question}` : 'Research report')}</title>`,
+    '</head>',
+    '<body>',
+    '<h1>Research report</h1>',
+    `<dl>\n${details}\n</dl>`,
+    '<h2>Executive summary</h2>',
+    paragraphs(report.summary),
+    ...(developments ? ['<h2>Key developments</h2>', `<ol>\n${developments}\n</ol>`] : []),
+    '<h2>Sources</h2>',
+    sources
+      ? `<table>\n<thead><tr><th>#</th><th>Source</th><th>Access</th><th>Checked</th></tr></thead>\n<tbody>\n${sources}\n</tbody>\n</table>`
+      : '<p>No sources were cited.</p>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
+
+const CSV_COLUMNS = [
+  'development_number',
+  'development_title',
+  'development_description',
+  'citation_id',
+  'citation_title',
+  'citation_url',
+  'access_status',
+  'status_code',
+  'authority_tier',
+  'trust_score',
+  'question',
+  'location',
+  'generated_at',
+];
+
+const csvCell = (value: string | number | null): string => {
+  if (value === null) return '';
+  let text = String(value);
+  // Spreadsheets run cells that start with these as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per key development and cited source. A development without citations
+ * gets one row with empty source columns.
+ */
+export const renderCsvReport = (report: ResearchReport): string => {
+  const sources = new Map(report.sources.map(source => [source.id, source]));
+  const rows = report.key_developments.flatMap(development => {
+    const cited = development.citations.map(id => sources.get(id) || null);
+    return (cited.length > 0 ? cited : [null]).map(source => [
+      development.number,
+      development.title,
+      development.description,
+      source ? source.id : null,
+      source ? source.title : null,
+      source ? source.url : null,
+      source ? source.access_status : null,
+      source ? source.status_code : null,
+      source ? source.authority_tier : null,
+      source ? source.trust_score : null,
+      report.question,
+      report.location,
+      report.generated_at,
+    ]);
+  });
+
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+export const renderJsonReport = (report: ResearchReport): string => `${JSON.stringify(report, null, 2)}\n`;
+
+export const REPORT_RENDERERS: Record<ReportFormat, { contentType: string; render: (report: ResearchReport) => string }> = {
+  md: { contentType: 'text/markdown; charset=utf-8', render: renderMarkdownReport },
+  html: { contentType: 'text/html; charset=utf-8', render: renderHtmlReport },
+  csv: { contentType: 'text/csv; charset=utf-8', render: renderCsvReport },
+  json: { contentType: 'application/json; charset=utf-8', render: renderJsonReport },
+};
@@ -0,0 +1,55 @@
+import OpenAI from 'openai';
+import { ZodError } from 'zod';
+import { ResearchCancelledError } from './researchHelper';
+
+// Retry policy for research jobs. Attempts include the first run.
+export const MAX_RESEARCH_ATTEMPTS = Number(process.env.RESEARCH_MAX_ATTEMPTS) || 3;
+const RETRY_BASE_DELAY = Number(process.env.RESEARCH_RETRY_BASE_DELAY_MS) || 5000; // 5 seconds
+const RETRY_MAX_DELAY = Number(process.env.RESEARCH_RETRY_MAX_DELAY_MS) || 60000; // 1 minute
+
+// HTTP statuses worth retrying: timeouts, conflicts, rate limits and server errors
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 429]);
+const TRANSIENT_ERROR_PATTERN = /timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|No research response/i;
+
+export interface ResearchAttemptError {
+  attempt: number;
+  error: string;
+  retryable: boolean;
+  timestamp: string;
+}
+
+/**
+ * Whether a research failure is transient and the job should run again
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof ResearchCancelledError) {
+    return false;
+  }
+
+  if (error instanceof OpenAI.APIConnectionError) {
+    return true;
+  }
+
+  // API errors carry the HTTP status of the failed request
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUS_CODES.has(status) || status >= 500;
+  }
+
+  // The model returned output that does not match the research schema
+  if (error instanceof ZodError || error instanceof SyntaxError) {
+    return true;
+  }
+
+  return error instanceof Error && TRANSIENT_ERROR_PATTERN.test(error.message);
+};
+
+/**
+ * Delay before the next attempt: exponential backoff capped at the max delay,
+ * with jitter so jobs that failed together do not retry in lockstep.
+ * @param attempt The attempt that just failed (1-based).
+ */
+export const getRetryDelay = (attempt: number, random: () => number = Math.random): number => {
+  const backoff = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempt - 1));
+  return Math.round(backoff / 2 + random() * (backoff / 2));
+};
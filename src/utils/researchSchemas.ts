@@ -0,0 +1,112 @@
+import { z } from "zod";
+import type { AuthorityTier } from "./regulatorRegistry";
+import type { DomainTier } from "./sourceQuality";
+import type { Grounding } from "./groundingCheck";
+
+// Define Zod schemas for OpenAI structured outputs
+// Using simple validations to avoid unsupported JSON schema formats
+export const CitationSchema = z.object({
+  id: z.number().int().positive(),
+  title: z.string().min(1),
+  url: z.string().min(1), // Simple string - URL format validation done in validateSingleCitation()
+  relevance_score: z.number().min(0).max(10),
+});
+
+export const KeyDevelopmentSchema = z.object({
+  number: z.number().int().positive(),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  citations: z.array(z.number().int().positive()),
+});
+
+export const ResearchResponseSchema = z.object({
+  research_results: z.string().min(1), // Executive summary
+  key_developments: z.array(KeyDevelopmentSchema),
+  citations: z.array(CitationSchema),
+});
+
+// Source quality fields are added after research, not by the model
+export type Citation = z.infer<typeof CitationSchema> & {
+  authority_tier?: AuthorityTier; // Registry tier for the research location
+  domain_tier?: DomainTier; // What kind of site the source is
+  trust_score?: number; // 0-100, domain tier blended with relevance_score
+};
+// Grounding is checked against the cited pages after research
+export type KeyDevelopment = z.infer<typeof KeyDevelopmentSchema> & {
+  grounding?: Grounding;
+};
+export type ResearchResponse = z.infer<typeof ResearchResponseSchema>;
+
+// Quick answer from the assistant prompt, used by the direct and evaluate answer modes
+export const AssistantAnswerSchema = z.object({
+  response: z.string().min(1),
+  confidence_score: z.number().min(0).max(100),
+});
+
+// Verdict from the evaluation prompt on whether a quick answer is good enough
+export const ResponseEvaluationSchema = z.object({
+  evaluation: z.object({
+    response_quality: z.number().min(0).max(10),
+    information_sufficient: z.boolean(),
+    reasoning: z.string(),
+    needs_research: z.boolean(),
+  }),
+});
+
+export const TopicCategorySchema = z.enum([
+  'rates',
+  'billing',
+  'net_metering',
+  'disconnection',
+  'assistance_programs',
+  'energy_efficiency',
+  'outages',
+  'regulation',
+  'other',
+]);
+
+export const QuestionIntentSchema = z.enum([
+  'information',
+  'comparison',
+  'troubleshooting',
+  'complaint',
+  'action_request',
+  'other',
+]);
+
+export const OutOfScopeReasonSchema = z.enum([
+  'not_energy_related',
+  'outside_us',
+  'account_specific',
+  'unsafe_or_abusive',
+  'unclear',
+]);
+
+// Scope check run on every question before it is answered.
+// Nullable rather than optional because structured outputs require every field.
+export const ScopeClassificationSchema = z.object({
+  in_scope: z.boolean(),
+  topic_category: TopicCategorySchema.nullable(),
+  state: z.string().nullable(), // Two-letter US state code
+  utility: z.string().nullable(),
+  intent: QuestionIntentSchema.nullable(),
+  out_of_scope_reason: OutOfScopeReasonSchema.nullable(),
+});
+
+// Plan for a broad research question, split into sub-questions researched in parallel
+export const ResearchPlanSchema = z.object({
+  needs_decomposition: z.boolean(),
+  reasoning: z.string(),
+  sub_questions: z.array(z.object({
+    question: z.string().min(1), // Self-contained question for one research run
+    focus: z.string(), // Short label, e.g. "California net metering"
+  })),
+});
+
+export type AssistantAnswer = z.infer<typeof AssistantAnswerSchema>;
+export type ResponseEvaluation = z.infer<typeof ResponseEvaluationSchema>;
+export type TopicCategory = z.infer<typeof TopicCategorySchema>;
+export type QuestionIntent = z.infer<typeof QuestionIntentSchema>;
+export type OutOfScopeReason = z.infer<typeof OutOfScopeReasonSchema>;
+export type ScopeClassification = z.infer<typeof ScopeClassificationSchema>;
+export type ResearchPlanOutput = z.infer<typeof ResearchPlanSchema>;
@@ -0,0 +1,171 @@
+import { EventEmitter } from 'events';
+import { logger } from './logger';
+import type { ResearchResult } from './researchHelper';
+
+const ALL_RESEARCH_CHANNEL = 'research:*';
+
+// Steps of a research run reported through progress events
+export type ResearchStage =
+  | 'planning' // Deciding whether to split the question into sub-questions
+  | 'researching' // Waiting on the model; planned research counts finished sub-questions
+  | 'validating_citations' // Fetching each cited URL
+  | 'saving'; // Checking grounding and writing the answer
+
+export type ResearchStreamEvent =
+  | {
+      type: 'started';
+      messageId: string;
+      userId: string;
+      conversationId?: string;
+      attempt: number;
+      timestamp: string;
+    }
+  | {
+      type: 'progress';
+      messageId: string;
+      userId: string;
+      stage: ResearchStage;
+      completed?: number; // Items of the stage finished so far, when it has countable items
+      total?: number;
+      timestamp: string;
+    }
+  | {
+      type: 'delta';
+      messageId: string;
+      userId: string;
+      delta: string;
+      timestamp: string;
+    }
+  | {
+      type: 'completed';
+      messageId: string;
+      userId: string;
+      conversationId?: string;
+      watchId?: string; // Set for scheduled runs of a research watch
+      result: ResearchResult;
+      timestamp: string;
+    }
+  | {
+      type: 'failed';
+      messageId: string;
+      userId: string;
+      conversationId?: string;
+      watchId?: string;
+      error: string;
+      timestamp: string;
+    }
+  | {
+      type: 'retrying';
+      messageId: string;
+      userId: string;
+      attempt: number;
+      maxAttempts: number;
+      error: string;
+      nextAttemptAt: string;
+      timestamp: string;
+    }
+  | {
+      type: 'cancelled';
+      messageId: string;
+      userId: string;
+      timestamp: string;
+    };
+
+export type ResearchStreamListener = (event: ResearchStreamEvent) => void;
+
+/**
+ * In-process bus for research lifecycle events and output as it is generated.
+ * Listeners can follow a single message (SSE) or every message (WebSocket rooms).
+ */
+class ResearchStream {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every open SSE connection adds a listener, so the default cap of 10 is too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: ResearchStreamEvent): void {
+    try {
+      this.emitter.emit(`research:${event.messageId}`, event);
+      this.emitter.emit(ALL_RESEARCH_CHANNEL, event);
+    } catch (error) {
+      logger.error(`Research stream listener failed for ${event.messageId}:`, error);
+    }
+  }
+
+  /**
+   * Subscribe to events for a single research message. Returns an unsubscribe function.
+   */
+  subscribe(messageId: string, listener: ResearchStreamListener): () => void {
+    const channel = `research:${messageId}`;
+    this.emitter.on(channel, listener);
+    return () => this.emitter.off(channel, listener);
+  }
+
+  /**
+   * Subscribe to events for every research message. Returns an unsubscribe function.
+   */
+  subscribeAll(listener: ResearchStreamListener): () => void {
+    this.emitter.on(ALL_RESEARCH_CHANNEL, listener);
+    return () => this.emitter.off(ALL_RESEARCH_CHANNEL, listener);
+  }
+}
+
+export const researchStream = new ResearchStream();
+
+/**
+ * Creates an incremental reader for the executive summary of a streamed research response.
+ * The model streams raw JSON, so this pulls out the decoded "research_results" string value
+ * and returns only the text that is new since the previous chunk.
+ */
+export const createSummaryDeltaReader = () => {
+  let buffer = '';
+  let position = -1; // index of the next undecoded character inside the string value
+  let finished = false;
+
+  return (chunk: string): string => {
+    if (finished) return '';
+    buffer += chunk;
+
+    if (position === -1) {
+      const match = /"research_results"\s*:\s*"/.exec(buffer);
+      if (!match) return '';
+      position = match.index + match[0].length;
+    }
+
+    let decoded = '';
+    while (position < buffer.length) {
+      const char = buffer[position];
+
+      if (char === '"') {
+        finished = true;
+        break;
+      }
+
+      if (char !== '\\') {
+        decoded += char;
+        position++;
+        continue;
+      }
+
+      // Escape sequence - wait for more input if it is incomplete
+      const escaped = buffer[position + 1];
+      if (escaped === undefined) break;
+
+      if (escaped === 'u') {
+        const hex = buffer.slice(position + 2, position + 6);
+        if (hex.length < 4) break;
+        decoded += String.fromCharCode(parseInt(hex, 16));
+        position += 6;
+        continue;
+      }
+
+      const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+      decoded += escapes[escaped] ?? escaped;
+      position += 2;
+    }
+
+    return decoded;
+  };
+};
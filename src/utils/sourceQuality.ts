@@ -0,0 +1,126 @@
+import { findRegulatorByUrl, RegulatorKind } from './regulatorRegistry';
+import type { Citation, KeyDevelopment } from './researchSchemas';
+
+// What kind of site a citation comes from, most authoritative first
+export type DomainTier = 'state_puc' | 'federal_agency' | 'iso_rto' | 'utility' | 'news' | 'other';
+
+export type SourceQualityGrade = 'A' | 'B' | 'C' | 'D';
+
+export interface SourceQuality {
+  grade: SourceQualityGrade;
+  score: number; // Citation-weighted average trust score, 0-100
+  authoritative_share: number; // Share of cited weight from reachable regulator, agency and grid operator pages (0-1)
+  low_authority: boolean; // The answer rests mainly on utility, news or other sources
+}
+
+// How much a source of each tier can be trusted on its own (0-1)
+const DOMAIN_TIER_WEIGHTS: Record<DomainTier, number> = {
+  state_puc: 1,
+  federal_agency: 0.95,
+  iso_rto: 0.9,
+  utility: 0.7,
+  news: 0.5,
+  other: 0.3,
+};
+
+const AUTHORITATIVE_TIERS: DomainTier[] = ['state_puc', 'federal_agency', 'iso_rto'];
+
+// Share of the trust score that comes from the domain tier; the rest is the model's relevance score
+const TIER_SCORE_WEIGHT = 0.6;
+
+// Citations whose URL failed validation keep only part of their score
+const INACCESSIBLE_PENALTY = 0.5;
+
+const GRADE_THRESHOLDS: Array<[SourceQualityGrade, number]> = [['A', 80], ['B', 65], ['C', 50]];
+
+const REGISTRY_KIND_TIERS: Record<RegulatorKind, DomainTier> = {
+  state_commission: 'state_puc',
+  federal: 'federal_agency',
+  iso_rto: 'iso_rto',
+  reliability: 'federal_agency', // NERC and the regional entities enforce standards under FERC oversight
+  association: 'other',
+};
+
+const UTILITY_DOMAINS = [
+  'aep.com', 'ameren.com', 'aps.com', 'bge.com', 'centerpointenergy.com', 'comed.com', 'coned.com',
+  'consumersenergy.com', 'dominionenergy.com', 'dteenergy.com', 'duke-energy.com', 'entergy.com',
+  'evergy.com', 'eversource.com', 'firstenergycorp.com', 'fpl.com', 'georgiapower.com', 'idahopower.com',
+  'nationalgridus.com', 'nvenergy.com', 'oncor.com', 'pacificorp.com', 'pacificpower.net', 'peco.com',
+  'pepco.com', 'pge.com', 'pgecorp.com', 'portlandgeneral.com', 'pplelectric.com', 'pse.com', 'pseg.com',
+  'rockymountainpower.net', 'sce.com', 'sdge.com', 'southerncompany.com', 'srpnet.com',
+  'tampaelectric.com', 'we-energies.com', 'xcelenergy.com',
+];
+
+const NEWS_DOMAINS = [
+  'apnews.com', 'axios.com', 'bloomberg.com', 'canarymedia.com', 'chicagotribune.com', 'cnbc.com',
+  'cnn.com', 'eenews.net', 'insideclimatenews.org', 'latimes.com', 'npr.org', 'nytimes.com',
+  'politico.com', 'reuters.com', 'rtoinsider.com', 'utilitydive.com', 'washingtonpost.com', 'wsj.com',
+];
+
+const matchesDomain = (host: string, domains: string[]): boolean =>
+  domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+
+/**
+ * Classify the site a URL belongs to
+ */
+export const getDomainTier = (url: string): DomainTier => {
+  const regulator = findRegulatorByUrl(url);
+  if (regulator) {
+    return REGISTRY_KIND_TIERS[regulator.kind];
+  }
+
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return 'other';
+  }
+
+  if (matchesDomain(host, UTILITY_DOMAINS)) return 'utility';
+  if (matchesDomain(host, NEWS_DOMAINS)) return 'news';
+  return 'other';
+};
+
+/**
+ * Trust score (0-100) blending the domain tier with the model's relevance score (0-10)
+ */
+export const getTrustScore = (domainTier: DomainTier, relevanceScore: number, accessible: boolean = true): number => {
+  const blended = TIER_SCORE_WEIGHT * DOMAIN_TIER_WEIGHTS[domainTier] * 100
+    + (1 - TIER_SCORE_WEIGHT) * relevanceScore * 10;
+  return Math.round(accessible ? blended : blended * INACCESSIBLE_PENALTY);
+};
+
+/**
+ * Overall grade for the sources behind a research answer. Citations are weighted by
+ * how many key developments rely on them, so a source cited throughout counts more.
+ * A citation whose URL failed validation has no URL and never counts as authoritative.
+ */
+export const gradeSources = (citations: Citation[], keyDevelopments: KeyDevelopment[] = []): SourceQuality => {
+  if (citations.length === 0) {
+    return { grade: 'D', score: 0, authoritative_share: 0, low_authority: true };
+  }
+
+  const weighted = citations.map(citation => ({
+    citation,
+    weight: 1 + keyDevelopments.filter(development => development.citations.includes(citation.id)).length,
+  }));
+  const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+
+  const score = weighted.reduce(
+    (sum, { citation, weight }) => sum + (citation.trust_score ?? 0) * weight, 0
+  ) / totalWeight;
+  const authoritativeShare = weighted
+    .filter(({ citation }) => citation.url && citation.domain_tier && AUTHORITATIVE_TIERS.includes(citation.domain_tier))
+    .reduce((sum, entry) => sum + entry.weight, 0) / totalWeight;
+
+  const grade = GRADE_THRESHOLDS.find(([, threshold]) => score >= threshold)?.[0] || 'D';
+
+  return {
+    grade,
+    score: Math.round(score),
+    authoritative_share: Math.round(authoritativeShare * 100) / 100,
+    low_authority: authoritativeShare < 0.5,
+  };
+};
+
+export const LOW_AUTHORITY_NOTICE = 'Note: Most of the sources behind this answer are not official regulators, agencies or grid operators. Please confirm important details with your state utility commission.';
@@ -1,6 +1,26 @@
 export enum MessageType {
     USER_MESSAGE = 'user_message',
     BOT_MESSAGE = 'bot_message',
+    BOT_MESSAGE_DELTA = 'bot_message_delta',
+    BOT_UPDATE = 'bot_update',
+    NOTIFICATION = 'notification',
     SYSTEM = 'system',
     AI_TYPING = 'ai_typing'
-}
\ No newline at end of file
+}
+
+// How a question is answered: a quick assistant answer, an answer that is evaluated
+// and escalated to research when it falls short, or deep research every time
+export type AnswerMode = 'direct' | 'evaluate' | 'research';
+
+export const ANSWER_MODES: AnswerMode[] = ['direct', 'evaluate', 'research'];
+
+export const isAnswerMode = (value: unknown): value is AnswerMode =>
+    typeof value === 'string' && (ANSWER_MODES as string[]).includes(value);
+
+// How often a research watch re-runs its query
+export type WatchCadence = 'daily' | 'weekly';
+
+export const WATCH_CADENCES: WatchCadence[] = ['daily', 'weekly'];
+
+export const isWatchCadence = (value: unknown): value is WatchCadence =>
+    typeof value === 'string' && (WATCH_CADENCES as string[]).includes(value);